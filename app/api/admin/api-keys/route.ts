@@ -0,0 +1,68 @@
+// app/api/admin/api-keys/route.ts
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { adminUnauthorized, isAdminRequest } from '@/lib/admin';
+import { ApiError, errorResponse } from '@/lib/errors';
+import { requestContext } from '@/lib/logger';
+import { issueApiKey, listApiKeys, planNames, revokeApiKey } from '@/lib/quota';
+
+export const runtime = 'nodejs';
+
+const IssueKeySchema = z.object({
+  name: z.string().min(1).max(100),
+  plan: z.enum(planNames)
+});
+
+export async function GET(request: Request) {
+  if (!isAdminRequest(request)) return adminUnauthorized(request);
+
+  const context = requestContext(request);
+
+  try {
+    return NextResponse.json({ keys: await listApiKeys() });
+  } catch (error) {
+    return errorResponse(error, context);
+  }
+}
+
+// The plaintext key is only ever returned here
+export async function POST(request: Request) {
+  if (!isAdminRequest(request)) return adminUnauthorized(request);
+
+  const context = requestContext(request);
+
+  try {
+    const body = await request.json().catch(() => {
+      throw new ApiError('INVALID_JSON', 'Invalid JSON payload');
+    });
+    const validation = IssueKeySchema.safeParse(body);
+    if (!validation.success) return errorResponse(validation.error, context);
+
+    const { name, plan } = validation.data;
+    const { key, record } = await issueApiKey(name, plan);
+    return NextResponse.json({ key, ...record }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error, context);
+  }
+}
+
+export async function DELETE(request: Request) {
+  if (!isAdminRequest(request)) return adminUnauthorized(request);
+
+  const context = requestContext(request);
+
+  const id = new URL(request.url).searchParams.get('id');
+  if (!id) {
+    return errorResponse(new ApiError('VALIDATION_FAILED', 'Missing id', {
+      details: { issues: [{ path: 'id', message: 'Required' }] }
+    }), context);
+  }
+
+  try {
+    const revoked = await revokeApiKey(id);
+    if (!revoked) return errorResponse(new ApiError('NOT_FOUND', 'API key not found'), context);
+    return NextResponse.json(revoked);
+  } catch (error) {
+    return errorResponse(error, context);
+  }
+}
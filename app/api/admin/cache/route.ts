@@ -0,0 +1,37 @@
+// app/api/admin/cache/route.ts
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { adminUnauthorized, isAdminRequest } from '@/lib/admin';
+import { errorResponse } from '@/lib/errors';
+import { cachedTools, purgeCache } from '@/lib/cache';
+import { requestContext } from '@/lib/logger';
+
+export const runtime = 'nodejs';
+
+// Exactly one of ?tool= or ?prefix=; a prefix must stay inside the cache
+// namespace so a typo can't delete other data
+const PurgeSchema = z.union([
+  z.object({ tool: z.enum(cachedTools), prefix: z.undefined() }),
+  z.object({ tool: z.undefined(), prefix: z.string().regex(/^cache:[a-z-]+:[0-9a-f]*$/, 'Prefix must look like cache:<tool>:<hex>') })
+]);
+
+export async function DELETE(request: Request) {
+  if (!isAdminRequest(request)) return adminUnauthorized(request);
+
+  const context = requestContext(request);
+
+  const params = new URL(request.url).searchParams;
+  const validation = PurgeSchema.safeParse({
+    tool: params.get('tool') ?? undefined,
+    prefix: params.get('prefix') ?? undefined
+  });
+  if (!validation.success) return errorResponse(validation.error, context);
+
+  try {
+    const target = validation.data;
+    const deleted = await purgeCache(target.tool ? { tool: target.tool } : { prefix: target.prefix });
+    return NextResponse.json({ deleted });
+  } catch (error) {
+    return errorResponse(error, context);
+  }
+}
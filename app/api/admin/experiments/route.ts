@@ -0,0 +1,22 @@
+// app/api/admin/experiments/route.ts
+import { NextResponse } from 'next/server';
+import { adminUnauthorized, isAdminRequest } from '@/lib/admin';
+import { errorResponse } from '@/lib/errors';
+import { experimentReport, experiments } from '@/lib/experiments';
+import { requestContext } from '@/lib/logger';
+
+export const runtime = 'nodejs';
+
+// Per-arm impressions, win rate (thumbs up / rated), usage rate and CTR
+export async function GET(request: Request) {
+  if (!isAdminRequest(request)) return adminUnauthorized(request);
+
+  const context = requestContext(request);
+
+  try {
+    const reports = await Promise.all(experiments.map(experimentReport));
+    return NextResponse.json({ experiments: reports });
+  } catch (error) {
+    return errorResponse(error, context);
+  }
+}
@@ -0,0 +1,50 @@
+// app/api/admin/usage/route.ts
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { adminUnauthorized, isAdminRequest } from '@/lib/admin';
+import { errorResponse } from '@/lib/errors';
+import { requestContext } from '@/lib/logger';
+import { quotaTools } from '@/lib/quota';
+import { usageReport } from '@/lib/usage';
+
+export const runtime = 'nodejs';
+
+const DateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD').pipe(z.coerce.date());
+
+// The ledger keeps 90 days
+const UsageQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(90).default(7),
+  to: DateSchema.optional(),
+  tool: z.enum(quotaTools).optional()
+});
+
+// Daily calls, tokens, latency and estimated cost per tool and model, plus
+// the busiest callers of each day. ?days=7&to=2025-01-31&tool=generate-ad
+export async function GET(request: Request) {
+  if (!isAdminRequest(request)) return adminUnauthorized(request);
+  const context = requestContext(request);
+
+  const params = new URL(request.url).searchParams;
+  const validation = UsageQuerySchema.safeParse(Object.fromEntries(params));
+  if (!validation.success) return errorResponse(validation.error, context);
+
+  try {
+    const { days, tool } = validation.data;
+    const to = validation.data.to ?? new Date(new Date().toISOString().slice(0, 10));
+    const from = new Date(to);
+    from.setUTCDate(from.getUTCDate() - (days - 1));
+
+    const report = await usageReport({ from, to, tool });
+    return NextResponse.json({
+      days: report,
+      totals: {
+        calls: report.reduce((sum, d) => sum + d.totals.calls, 0),
+        totalTokens: report.reduce((sum, d) => sum + d.totals.totalTokens, 0),
+        estimatedCost: Math.round(report.reduce((sum, d) => sum + d.totals.estimatedCost, 0) * 1_000_000) / 1_000_000
+      },
+      currency: 'USD'
+    });
+  } catch (error) {
+    return errorResponse(error, context);
+  }
+}
@@ -0,0 +1,55 @@
+// app/api/auth/magic-link/route.ts
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { appUrl, createMagicLinkToken, getMailer } from '@/lib/auth';
+import { ApiError, errorResponse } from '@/lib/errors';
+import { requestContext } from '@/lib/logger';
+import { callerIp, consumeRateLimit } from '@/lib/quota';
+
+export const runtime = 'nodejs';
+
+// Each link sends an email, so one IP can't spray addresses with them
+const SIGN_IN_LIMIT = { limit: 5, seconds: 15 * 60 };
+
+const MagicLinkSchema = z.object({
+  email: z.string().email().max(254)
+});
+
+export async function POST(request: Request) {
+  const context = requestContext(request);
+  try {
+    const rate = await consumeRateLimit('magic-link', callerIp(request), SIGN_IN_LIMIT).catch(error => {
+      throw new ApiError('SERVICE_UNAVAILABLE', 'Rate limit check failed', { retryAfter: 5, cause: error });
+    });
+    if (!rate.allowed) {
+      throw new ApiError('TOO_MANY_REQUESTS', 'Too many sign-in links requested', {
+        retryAfter: Math.ceil((rate.reset - Date.now()) / 1000)
+      });
+    }
+
+    const body = await request.json().catch(() => {
+      throw new ApiError('INVALID_JSON', 'Invalid JSON payload');
+    });
+    const validation = MagicLinkSchema.safeParse(body);
+    if (!validation.success) {
+      throw new ApiError('VALIDATION_FAILED', 'A valid email is required', {
+        details: { issues: [{ path: 'email', message: 'A valid email is required' }] }
+      });
+    }
+
+    const mailer = getMailer();
+    const base = appUrl(request);
+    const token = await createMagicLinkToken(validation.data.email);
+    const url = new URL(`/api/auth/verify?token=${token}`, base).toString();
+    await mailer.sendMagicLink(validation.data.email, url);
+
+    // Local/test setups can read the link straight from the response; never
+    // alongside a real mailer, where it would hand out anyone's session
+    return NextResponse.json({
+      sent: true,
+      url: process.env.AUTH_EXPOSE_LINKS === '1' && mailer.name === 'log' ? url : undefined
+    });
+  } catch (error) {
+    return errorResponse(error, context);
+  }
+}
@@ -0,0 +1,18 @@
+// app/api/auth/session/route.ts
+import { NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
+import { errorResponse } from '@/lib/errors';
+import { requestContext } from '@/lib/logger';
+
+export const runtime = 'nodejs';
+
+// A failed lookup is reported, not mistaken for being signed out
+export async function GET(request: Request) {
+  const context = requestContext(request);
+  try {
+    const user = await getSessionUser(request);
+    return NextResponse.json({ user: user && { id: user.id, email: user.email } });
+  } catch (error) {
+    return errorResponse(error, context);
+  }
+}
@@ -0,0 +1,16 @@
+// app/api/auth/sign-out/route.ts
+import { NextResponse } from 'next/server';
+import { clearSessionCookie, deleteSession, getCookie, SESSION_COOKIE } from '@/lib/auth';
+import { requestContext } from '@/lib/logger';
+
+export const runtime = 'nodejs';
+
+export async function POST(request: Request) {
+  const token = getCookie(request, SESSION_COOKIE);
+  const { log } = requestContext(request);
+  if (token) await deleteSession(token).catch(error => log.warn('Session delete failed', { error }));
+
+  const response = NextResponse.json({ signedOut: true });
+  clearSessionCookie(response);
+  return response;
+}
@@ -0,0 +1,27 @@
+// app/api/auth/verify/route.ts
+import { NextResponse } from 'next/server';
+import { consumeMagicLinkToken, createSession, findOrCreateUser, setSessionCookie } from '@/lib/auth';
+import { errorResponse } from '@/lib/errors';
+import { requestContext } from '@/lib/logger';
+
+export const runtime = 'nodejs';
+
+// Target of the emailed link: exchanges the token for a session cookie
+export async function GET(request: Request) {
+  const context = requestContext(request);
+  try {
+    const token = new URL(request.url).searchParams.get('token');
+    const email = token ? await consumeMagicLinkToken(token) : null;
+
+    if (!email) {
+      return NextResponse.redirect(new URL('/?signin=expired', request.url));
+    }
+
+    const user = await findOrCreateUser(email);
+    const response = NextResponse.redirect(new URL('/', request.url));
+    setSessionCookie(response, await createSession(user.id));
+    return response;
+  } catch (error) {
+    return errorResponse(error, context);
+  }
+}
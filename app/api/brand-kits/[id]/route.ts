@@ -0,0 +1,36 @@
+// app/api/brand-kits/[id]/route.ts
+import { NextResponse } from 'next/server';
+import { deleteBrandKit, getBrandKit, updateBrandKit } from '@/lib/brand-kits';
+import { ApiError, validationError } from '@/lib/errors';
+import { withOwner } from '@/lib/owner';
+import { BrandKitInputSchema } from '@/lib/schemas';
+
+export const runtime = 'nodejs';
+
+type Params = { params: Promise<{ id: string }> };
+
+const notFound = () => new ApiError('NOT_FOUND', 'Brand kit not found');
+
+export const GET = withOwner<Params>(async (_request, owner, { params }) => {
+  const brandKit = await getBrandKit(owner, (await params).id);
+  if (!brandKit) throw notFound();
+  return NextResponse.json({ brandKit });
+});
+
+export const PUT = withOwner<Params>(async (request, owner, { params }) => {
+  const body = await request.json().catch(() => {
+    throw new ApiError('INVALID_JSON', 'Invalid JSON payload');
+  });
+  const validation = BrandKitInputSchema.safeParse(body);
+  if (!validation.success) throw validationError(validation.error);
+
+  const brandKit = await updateBrandKit(owner, (await params).id, validation.data);
+  if (!brandKit) throw notFound();
+  return NextResponse.json({ brandKit });
+});
+
+export const DELETE = withOwner<Params>(async (_request, owner, { params }) => {
+  const deleted = await deleteBrandKit(owner, (await params).id);
+  if (!deleted) throw notFound();
+  return NextResponse.json({ deleted: true });
+});
@@ -0,0 +1,22 @@
+// app/api/brand-kits/route.ts
+import { NextResponse } from 'next/server';
+import { createBrandKit, listBrandKits } from '@/lib/brand-kits';
+import { ApiError, validationError } from '@/lib/errors';
+import { withOwner } from '@/lib/owner';
+import { BrandKitInputSchema } from '@/lib/schemas';
+
+export const runtime = 'nodejs';
+
+export const GET = withOwner(async (_request, owner) => {
+  return NextResponse.json({ brandKits: await listBrandKits(owner) });
+});
+
+export const POST = withOwner(async (request, owner) => {
+  const body = await request.json().catch(() => {
+    throw new ApiError('INVALID_JSON', 'Invalid JSON payload');
+  });
+  const validation = BrandKitInputSchema.safeParse(body);
+  if (!validation.success) throw validationError(validation.error);
+
+  return NextResponse.json({ brandKit: await createBrandKit(owner, validation.data) }, { status: 201 });
+});
@@ -0,0 +1,26 @@
+// app/api/campaigns/[id]/items/route.ts
+// Attaches a brief, generator run or inspector run to a campaign. Generate
+// and inspect requests that carry a campaignId are attached automatically.
+import { NextResponse } from 'next/server';
+import { addCampaignItem, getCampaign } from '@/lib/campaigns';
+import { ApiError, validationError } from '@/lib/errors';
+import { withOwner } from '@/lib/owner';
+import { CampaignItemInputSchema } from '@/lib/schemas';
+
+export const runtime = 'nodejs';
+
+type Params = { params: Promise<{ id: string }> };
+
+export const POST = withOwner<Params>(async (request, owner, { params }) => {
+  const campaign = await getCampaign(owner, (await params).id);
+  if (!campaign) throw new ApiError('NOT_FOUND', 'Campaign not found');
+
+  const body = await request.json().catch(() => {
+    throw new ApiError('INVALID_JSON', 'Invalid JSON payload');
+  });
+  const validation = CampaignItemInputSchema.safeParse(body);
+  if (!validation.success) throw validationError(validation.error);
+
+  // A source the owner can't see is rejected as VALIDATION_FAILED
+  return NextResponse.json({ item: await addCampaignItem(campaign, validation.data) }, { status: 201 });
+});
@@ -0,0 +1,23 @@
+// app/api/campaigns/[id]/route.ts
+import { NextResponse } from 'next/server';
+import { deleteCampaign, getCampaign, listCampaignItems } from '@/lib/campaigns';
+import { ApiError } from '@/lib/errors';
+import { withOwner } from '@/lib/owner';
+
+export const runtime = 'nodejs';
+
+type Params = { params: Promise<{ id: string }> };
+
+const notFound = () => new ApiError('NOT_FOUND', 'Campaign not found');
+
+export const GET = withOwner<Params>(async (_request, owner, { params }) => {
+  const campaign = await getCampaign(owner, (await params).id);
+  if (!campaign) throw notFound();
+  return NextResponse.json({ campaign, items: await listCampaignItems(campaign.id) });
+});
+
+export const DELETE = withOwner<Params>(async (_request, owner, { params }) => {
+  const deleted = await deleteCampaign(owner, (await params).id);
+  if (!deleted) throw notFound();
+  return NextResponse.json({ deleted: true });
+});
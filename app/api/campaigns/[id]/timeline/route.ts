@@ -0,0 +1,15 @@
+// app/api/campaigns/[id]/timeline/route.ts
+import { NextResponse } from 'next/server';
+import { campaignTimeline, getCampaign, listCampaignItems } from '@/lib/campaigns';
+import { ApiError } from '@/lib/errors';
+import { withOwner } from '@/lib/owner';
+
+export const runtime = 'nodejs';
+
+type Params = { params: Promise<{ id: string }> };
+
+export const GET = withOwner<Params>(async (_request, owner, { params }) => {
+  const campaign = await getCampaign(owner, (await params).id);
+  if (!campaign) throw new ApiError('NOT_FOUND', 'Campaign not found');
+  return NextResponse.json({ campaign, timeline: campaignTimeline(await listCampaignItems(campaign.id)) });
+});
@@ -0,0 +1,22 @@
+// app/api/campaigns/route.ts
+import { NextResponse } from 'next/server';
+import { createCampaign, listCampaigns } from '@/lib/campaigns';
+import { ApiError, validationError } from '@/lib/errors';
+import { withOwner } from '@/lib/owner';
+import { CampaignInputSchema } from '@/lib/schemas';
+
+export const runtime = 'nodejs';
+
+export const GET = withOwner(async (_request, owner) => {
+  return NextResponse.json({ campaigns: await listCampaigns(owner) });
+});
+
+export const POST = withOwner(async (request, owner) => {
+  const body = await request.json().catch(() => {
+    throw new ApiError('INVALID_JSON', 'Invalid JSON payload');
+  });
+  const validation = CampaignInputSchema.safeParse(body);
+  if (!validation.success) throw validationError(validation.error);
+
+  return NextResponse.json({ campaign: await createCampaign(owner, validation.data) }, { status: 201 });
+});
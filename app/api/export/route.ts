@@ -0,0 +1,36 @@
+// app/api/export/route.ts
+import { NextResponse } from 'next/server';
+import { ApiError, errorResponse } from '@/lib/errors';
+import { exportAds } from '@/lib/export';
+import { requestContext } from '@/lib/logger';
+import { ExportAdsInputSchema } from '@/lib/schemas';
+
+export const runtime = 'edge';
+
+// Formatting only, no LLM call, so no API key or quota. Returns the file and
+// its warnings as JSON, or the raw file with ?download=1.
+export async function POST(request: Request) {
+  const context = requestContext(request);
+  try {
+    const body = await request.json().catch(() => {
+      throw new ApiError('INVALID_JSON', 'Invalid JSON payload');
+    });
+
+    const validation = ExportAdsInputSchema.safeParse(body);
+    if (!validation.success) return errorResponse(validation.error, context);
+
+    const file = exportAds(validation.data);
+    if (new URL(request.url).searchParams.get('download') === '1') {
+      return new Response(file.content, {
+        headers: {
+          'Content-Type': file.contentType,
+          'Content-Disposition': `attachment; filename="${file.filename}"`,
+          'X-Export-Warnings': String(file.warnings.length)
+        }
+      });
+    }
+    return NextResponse.json({ export: file });
+  } catch (error) {
+    return errorResponse(error, context);
+  }
+}
@@ -0,0 +1,46 @@
+// app/api/feedback/route.ts
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { ApiError, errorResponse } from '@/lib/errors';
+import { getResult, submitFeedback } from '@/lib/experiments';
+import { requestContext } from '@/lib/logger';
+
+export const runtime = 'nodejs';
+
+const FeedbackSchema = z.object({
+  resultId: z.string().uuid(),
+  rating: z.enum(["up", "down"]).optional(),
+  used: z.literal(true).optional(),
+  ctr: z.number().min(0).max(1).optional()
+}).refine(
+  f => f.rating !== undefined || f.used !== undefined || f.ctr !== undefined,
+  'Provide at least one of rating, used or ctr'
+);
+
+export async function POST(request: Request) {
+  const context = requestContext(request);
+  try {
+    const body = await request.json().catch(() => {
+      throw new ApiError('INVALID_JSON', 'Invalid JSON payload');
+    });
+
+    const validation = FeedbackSchema.safeParse(body);
+    if (!validation.success) return errorResponse(validation.error, context);
+    const { resultId, ...feedback } = validation.data;
+
+    const record = await getResult(resultId);
+    if (!record) throw new ApiError('NOT_FOUND', 'Result not found');
+
+    const duplicates = await submitFeedback(record, feedback);
+    if (duplicates.length) {
+      throw new ApiError('CONFLICT', `Feedback already recorded for: ${duplicates.join(', ')}`, {
+        details: { duplicates }
+      });
+    }
+
+    return NextResponse.json({ ok: true, resultId, experiment: record.experiment });
+
+  } catch (error) {
+    return errorResponse(error, context);
+  }
+}
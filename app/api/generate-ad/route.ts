@@ -1,180 +1,306 @@
 import { NextResponse } from 'next/server';
-import { Ratelimit } from '@upstash/ratelimit';
-import { kv } from '@vercel/kv';
-import OpenAI from 'openai';
 import { z } from 'zod';
+import { cacheKey, cacheMeta, lookup, type CacheDetails, type Flight } from '@/lib/cache';
+import { ApiError, errorBody, errorResponse, upstreamError, zodIssues } from '@/lib/errors';
+import {
+  completeStructured,
+  LLMSelectionSchema,
+  resolveLLM,
+  type CompletionRequest,
+  type CompletionUsage,
+  type LLMProvider
+} from '@/lib/llm';
+import { createArrayItemExtractor } from '@/lib/llm/json-stream';
+import { checkVariation, getBrandKit, type BrandCheck } from '@/lib/brand-kits';
+import { getCampaign, recordCampaignItem } from '@/lib/campaigns';
+import { assignArm, recordResult, type ExperimentArm } from '@/lib/experiments';
+import { recordHistory } from '@/lib/history';
+import type { RequestContext } from '@/lib/logger';
+import { resourceOwner } from '@/lib/owner';
+import { policyFor } from '@/lib/policies';
+import { generateAdPrompts, generationMaxTokens, generationNeeds } from '@/lib/prompts/generate-ad';
+import { withQuota, type Caller } from '@/lib/quota';
+import {
+  GenerateAdInputSchema,
+  generatedAdSchemasFor,
+  isGoogleFormat,
+  platformForFormat,
+  refineGenerateAdInput,
+  type AdVariation,
+  type GenerateAdInput,
+  type GeneratedAdSchemas
+} from '@/lib/schemas';
+import { encodeSSE, SSE_HEADERS, wantsEventStream } from '@/lib/sse';
+import { usageMeter } from '@/lib/usage';
 
-// Initialize OpenAI with error handling
-let openai: OpenAI;
-try {
-  openai = new OpenAI({ 
-    apiKey: process.env.OPENAI_API_KEY!,
-    timeout: 10000 // 10 second timeout
-  });
-} catch (error) {
-  console.error('OpenAI initialization failed:', error);
-  throw new Error('OpenAI client configuration error');
-}
-
-// Initialize rate limiter with fallback
-const ratelimit = new Ratelimit({
-  redis: kv,
-  limiter: Ratelimit.slidingWindow(3, '86400s'),
-  analytics: true,
-  prefix: 'adgen-ratelimit'
-});
+export const runtime = 'nodejs';
 
-export const runtime = 'edge';
-export const revalidate = 3600;
+const CACHE_TTL = 3600;
 
 // Enhanced validation schema
-const GenerateAdSchema = z.object({
-  targetAudience: z.string().min(10).max(100),
-  goal: z.string().min(10).max(100),
-  uniqueSellingPoint: z.string().min(10).max(200),
-  contextDescription: z.string().min(20).max(500),
-  brandVoice: z.enum(["Professional", "Friendly", "Witty", "Urgent", "Inspirational"]),
-  keyEmotion: z.enum(["FOMO", "Trust", "Excitement", "Curiosity", "Anger/Solve Pain"]),
-  competitors: z.string().max(100).optional(),
-  adFormat: z.enum(["Single Image", "Carousel", "Video", "Story"]),
-  industry: z.enum(["General", "Health", "Finance", "E-commerce", "SaaS", "Real Estate", "Other"]),
-  preferredCTA: z.enum(["Shop Now", "Learn More", "Get Offer", "Sign Up", "Book Now", "Claim Discount"]),
-  visualDirection: z.enum(["Lifestyle", "Product Close-Up", "Before/After", "User-Generated", "Infographic"])
+const GenerateAdSchema = GenerateAdInputSchema.extend({
+  llm: LLMSelectionSchema.optional(),
+  promptVersion: z.string().max(80).refine(generateAdPrompts.has, 'Unknown prompt version').optional(),
+  campaignId: z.string().uuid().optional()
+}).superRefine(refineGenerateAdInput).superRefine((input, ctx) => {
+  if (!input.promptVersion) return;
+  const issue = (message: string) => ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['promptVersion'], message });
+  const context = promptContextFor(input);
+  const { brandKit, structured } = generationNeeds(input);
+
+  // Same capability checks that keep experiment arms and pins off requests
+  // they can't serve
+  if (!promptFitsFormat(input.promptVersion, input.adFormat) || !generateAdPrompts.supports(input.promptVersion, context)) {
+    issue(`Prompt version does not produce ${input.adFormat} ads`);
+  } else if (!generateAdPrompts.supports(input.promptVersion, context, { brandKit })) {
+    issue('Prompt version does not support brand kits');
+  } else if (!generateAdPrompts.supports(input.promptVersion, context, { structured })) {
+    issue(`Prompt version does not produce ${input.adFormat} structure`);
+  }
 });
 
-export async function POST(request: Request) {
-  // Enhanced IP detection
-  const ip = request.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || '127.0.0.1';
-  
-  try {
-    // Rate limiting with better error handling
-    const { success, pending, reset } = await ratelimit.limit(`gen_${ip}`);
-    await pending; // Wait for rate limit calculation
-
-    if (!success) {
-      return NextResponse.json(
-        { 
-          error: 'Free limit reached!',
-          reset: new Date(reset).toISOString(),
-          upgradeUrl: '/pricing' 
-        },
-        { status: 429 }
-      );
-    }
+function promptContextFor(input: Pick<GenerateAdInput, 'adFormat' | 'industry'>) {
+  return { format: input.adFormat, industry: input.industry };
+}
+
+// Google formats need a template that asks for assets, and only those
+// templates produce them
+function promptFitsFormat(id: string, format: string): boolean {
+  const formats = generateAdPrompts.list().find(t => t.id === id)?.match.formats;
+  return isGoogleFormat(format) ? !!formats?.includes(format) : !formats?.some(isGoogleFormat);
+}
+
+export const POST = withQuota('generate-ad', handleGenerate);
 
+async function handleGenerate(request: Request, caller: Caller, context: RequestContext) {
+  const meter = usageMeter('generate-ad', caller, context);
+  try {
     // Validate input
     const body = await request.json().catch(() => {
-      throw new Error('Invalid JSON payload');
+      throw new ApiError('INVALID_JSON', 'Invalid JSON payload');
     });
     
-    const validated = GenerateAdSchema.parse(body);
+    const validation = GenerateAdSchema.safeParse(body);
+    if (!validation.success) return errorResponse(validation.error, context);
+    const validated = validation.data;
 
-    // Enhanced caching with checksum
-    const cacheKey = `gen-ad:${Buffer.from(JSON.stringify(validated)).toString('base64')}`;
-    const cached = await kv.get(cacheKey).catch(() => null);
-    
-    if (cached) {
-      return NextResponse.json(cached);
+    const brandKit = validated.brandKitId
+      ? await getBrandKit(resourceOwner(caller), validated.brandKitId)
+      : undefined;
+    if (brandKit === null) {
+      return errorResponse(new ApiError('NOT_FOUND', 'Brand kit not found'), context);
+    }
+    const campaign = validated.campaignId
+      ? await getCampaign(resourceOwner(caller), validated.campaignId)
+      : undefined;
+    if (campaign === null) {
+      return errorResponse(new ApiError('NOT_FOUND', 'Campaign not found'), context);
     }
+    // Banned words and required disclaimers are checked after generation
+    const brandCheck = brandKit ? (ad: AdVariation) => checkVariation(ad, brandKit) : undefined;
+
+    // Requests that pick their own model or prompt stay out of experiments, as
+    // do Google formats and any request an arm's pinned prompt can't serve
+    // (brand kits on pre-brand-kit prompts, card/script/frame structure)
+    const promptContext = promptContextFor(validated);
+    const needs = generationNeeds(validated);
+    const servable = (arm: ExperimentArm) => !arm.prompt || generateAdPrompts.supports(arm.prompt, promptContext, needs);
+    const assignment = validated.llm || validated.promptVersion || isGoogleFormat(validated.adFormat)
+      ? undefined
+      : assignArm('generate-ad', caller.id, servable);
+    const arm = assignment?.arm;
+    const experiment = assignment && { id: assignment.experiment, arm: assignment.arm.id };
+
+    const { provider, model } = validated.llm ? resolveLLM(validated.llm) : resolveLLM(arm, { trusted: true });
+    const prompt = generateAdPrompts.resolve(
+      { ...validated, brandKit },
+      promptContext,
+      validated.promptVersion ?? arm?.prompt,
+      needs
+    );
+    const temperature = arm?.temperature ?? 0.7;
+    const policy = policyFor(validated.industry, platformForFormat(validated.adFormat));
 
-    // Improved prompt engineering
-    const prompt = `
-    As a Meta ads expert, generate 3 ${validated.adFormat} ad variations with these specifications:
+    // Editing a brand kit invalidates its entries
+    const key = await cacheKey(
+      'generate-ad',
+      { ...validated, campaignId: undefined, brandKitUpdatedAt: brandKit?.updatedAt },
+      { prompt: prompt.id, policy: policy.id, provider: provider.name, model, temperature }
+    );
+    const found = await lookup<{ ads: AdVariation[] }>(key, CACHE_TTL);
+    const streaming = wantsEventStream(request);
     
-    Industry: ${validated.industry}
-    Target: ${validated.targetAudience}
-    Goal: ${validated.goal}
-    USP: ${validated.uniqueSellingPoint}
-    Voice: ${validated.brandVoice}
-    Emotion: ${validated.keyEmotion}
-    CTA: ${validated.preferredCTA}
-    Visual: ${validated.visualDirection}
+    // Records the result (plus history for signed-in callers and the campaign
+    // item when one was named) and builds meta
+    const finalize = async (ads: AdVariation[], details: CacheDetails) => {
+      const cache = details.cache as 'hit' | 'miss';
+      const resultId = await recordResult({
+        tool: 'generate-ad',
+        prompt: prompt.id,
+        model,
+        cache,
+        experiment
+      });
+      const meta = { ...details, prompt: prompt.id, policy: policy.id, brandKit: brandKit?.id, resultId, experiment };
+      const historyId = await recordHistory(caller.userId, {
+        tool: 'generate-ad',
+        input: validated,
+        output: { ads, brandCheck: brandCheck && ads.map(brandCheck) },
+        meta
+      });
+      const campaignItemId = await recordCampaignItem(campaign, {
+        type: 'generation',
+        brief: GenerateAdInputSchema.parse(validated),
+        ads
+      }, { ...meta, historyId });
+      return { ...meta, historyId, campaignItemId };
+    };
     
-    Requirements:
-    1. Strict compliance with ${validated.industry} advertising policies
-    2. Include implied social proof
-    3. Use ${validated.keyEmotion} psychological triggers
-    4. Output JSON format with: type, headline, primary_text, cta, visual_suggestion
-    5. Each variation should have distinct positioning
-    `;
-
-    // Robust OpenAI API call
-    const response = await openai.chat.completions.create({
-      model: "gpt-4",
-      messages: [
-        {
-          role: "system",
-          content: "You are an expert advertising copywriter specializing in performance marketing."
-        },
-        { 
-          role: "user", 
-          content: prompt 
-        }
-      ],
-      response_format: { type: "json_object" },
-      temperature: 0.7,
-      max_tokens: 1000,
-    }).catch(async (error) => {
-      console.error('OpenAI API error:', error);
-      throw new Error(`OpenAI request failed: ${error.message}`);
-    });
+    if (found.entry) {
+      const { ads } = found.entry.value;
+      await meter({ provider: provider.name, model, cache: 'hit', status: 'ok' });
+      const meta = await finalize(ads, cacheMeta({ ...found.entry, cache: 'hit' }));
+      return streaming
+        ? streamCachedAds(ads, meta, brandCheck)
+        : NextResponse.json({ ads, brandCheck: brandCheck && ads.map(brandCheck), meta });
+    }
+    const { flight } = found;
+
+    const schemas = generatedAdSchemasFor(validated, prompt);
+    const completion: CompletionRequest = {
+      tool: 'generate-ad',
+      model,
+      messages: prompt.messages,
+      json: true,
+      temperature,
+      maxTokens: generationMaxTokens(validated),
+    };
 
-    // Validate and parse response
-    const content = response.choices[0]?.message?.content;
-    if (!content) throw new Error('Empty response from OpenAI');
-
-    let parsed;
-    try {
-      parsed = JSON.parse(content);
-      if (!parsed.ads) throw new Error('Invalid response format');
-    } catch (e) {
-      console.error('Failed to parse OpenAI response:', content);
-      throw new Error('Received malformed ad data');
+    if (streaming) {
+      return streamGeneratedAds({ provider, completion, schemas, flight, finalize, brandCheck, meter, context });
     }
 
-    // Cache with error handling
-    await kv.set(cacheKey, { ads: parsed.ads }, { ex: 3600 })
-      .catch(e => console.warn('Cache set failed:', e));
+    // Robust LLM call, validated against the shared response schema
+    const response = await completeStructured(provider, completion, schemas.list).catch(async (error) => {
+      flight.abandon();
+      await meter({ provider: provider.name, model, cache: 'miss', status: 'error' });
+      throw upstreamError(error);
+    });
+    await meter({ provider: response.provider, model: response.model, usage: response.usage, cache: 'miss', status: 'ok' });
+    const { ads } = response.data;
+    const entry = await flight.complete({ ads }, {
+      provider: response.provider,
+      model: response.model,
+      tokens: response.usage?.totalTokens
+    });
 
     return NextResponse.json({ 
-      ads: parsed.ads,
-      meta: {
-        cache: 'miss',
-        model: 'gpt-4',
-        tokens: response.usage?.total_tokens
-      }
+      ads,
+      brandCheck: brandCheck && ads.map(brandCheck),
+      meta: await finalize(ads, cacheMeta({ ...entry, cache: 'miss' }))
     });
 
   } catch (error) {
-    console.error('Endpoint error:', error);
-
-    if (error instanceof z.ZodError) {
-      return NextResponse.json(
-        { 
-          error: "Validation failed",
-          issues: error.errors.map(e => ({
-            path: e.path.join('.'),
-            message: e.message
-          }))
-        },
-        { status: 400 }
-      );
+    return errorResponse(error, context);
+  }
+}
+
+// Streaming mode (Accept: text/event-stream). Emits a `variation` event per
+// ad as soon as its JSON object closes, then a `done` event with usage and
+// cache metadata, or an `error` event if the output can't be used.
+type StreamContext = {
+  provider: LLMProvider;
+  completion: CompletionRequest;
+  schemas: GeneratedAdSchemas;
+  flight: Flight<{ ads: AdVariation[] }>;
+  finalize: (ads: AdVariation[], details: CacheDetails) => Promise<Record<string, unknown>>;
+  brandCheck?: (ad: AdVariation) => BrandCheck;
+  meter: ReturnType<typeof usageMeter>;
+  context: RequestContext;
+};
+
+function streamGeneratedAds({ provider, completion, schemas, flight, finalize, brandCheck, meter, context }: StreamContext) {
+  const { requestId, log } = context;
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const extractor = createArrayItemExtractor();
+      const ads: AdVariation[] = [];
+      const rejected: unknown[] = [];
+      let usage: CompletionUsage | undefined;
+      // Identical requests wait on this flight until the ads are cached
+      let landed = false;
+      let status: 'ok' | 'error' = 'error';
+
+      try {
+        for await (const chunk of provider.stream(completion)) {
+          if (chunk.usage) usage = chunk.usage;
+
+          for (const item of extractor.push(chunk.delta)) {
+            const validation = schemas.item.safeParse(item);
+            if (validation.success) {
+              ads.push(validation.data);
+              controller.enqueue(encodeSSE({
+                event: 'variation',
+                data: { index: ads.length - 1, ad: validation.data, brandCheck: brandCheck?.(validation.data) }
+              }));
+            } else {
+              rejected.push(item);
+            }
+          }
+        }
+
+        const result = schemas.list.safeParse({ ads });
+        if (!result.success) {
+          log.error('Malformed streamed output', { provider: provider.name, rejected });
+          const malformed = new ApiError('UPSTREAM_MALFORMED', 'Received malformed ad data', {
+            details: { issues: zodIssues(result.error) }
+          });
+          controller.enqueue(encodeSSE({ event: 'error', data: errorBody(malformed, requestId) }));
+          return;
+        }
+
+        const entry = await flight.complete({ ads }, {
+          provider: provider.name,
+          model: completion.model,
+          tokens: usage?.totalTokens
+        });
+        landed = true;
+        status = 'ok';
+
+        controller.enqueue(encodeSSE({
+          event: 'done',
+          data: { meta: await finalize(ads, cacheMeta({ ...entry, cache: 'miss' })) }
+        }));
+      } catch (error) {
+        log.error('LLM stream failed', { error, provider: provider.name });
+        controller.enqueue(encodeSSE({ event: 'error', data: errorBody(upstreamError(error), requestId) }));
+      } finally {
+        if (!landed) flight.abandon();
+        await meter({
+          provider: provider.name,
+          model: completion.model ?? provider.defaultModel,
+          usage,
+          cache: 'miss',
+          status
+        });
+        controller.close();
+      }
     }
+  });
 
-    return NextResponse.json(
-      { 
-        error: error instanceof Error ? error.message : 'Generation failed',
-        code: error instanceof Error ? error.name : 'UNKNOWN_ERROR'
-      },
-      { status: 500 }
-    );
-  }
+  return new Response(stream, { headers: SSE_HEADERS });
+}
+
+function streamCachedAds(ads: AdVariation[], meta: Record<string, unknown>, brandCheck?: (ad: AdVariation) => BrandCheck) {
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      ads.forEach((ad, index) => {
+        controller.enqueue(encodeSSE({ event: 'variation', data: { index, ad, brandCheck: brandCheck?.(ad) } }));
+      });
+      controller.enqueue(encodeSSE({ event: 'done', data: { meta } }));
+      controller.close();
+    }
+  });
+
+  return new Response(stream, { headers: SSE_HEADERS });
 }
-// Only use edge for API routes, not pages
-// app/api/route.ts
-// export const runtime = 'edge'; // Good for APIs
-
-// app/page.tsx
-// No runtime export → defaults to Node.js runtime
-console.log("OPENAI_API_KEY is loaded:", !!process.env.OPENAI_API_KEY);
-console.log("KV_REST_API_URL is:", process.env.KV_REST_API_URL);
@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server';
+import { ApiError, errorResponse, upstreamError } from '@/lib/errors';
+import { imagePrompt, ImageSelectionSchema, resolveImageProvider } from '@/lib/images';
+import type { RequestContext } from '@/lib/logger';
+import { withQuota, type Caller } from '@/lib/quota';
+import { aspectRatioForFormat, GenerateImageInputSchema, refineGenerateImageInput } from '@/lib/schemas';
+import { usageMeter } from '@/lib/usage';
+
+export const runtime = 'nodejs';
+
+const GenerateImageSchema = GenerateImageInputSchema.extend({
+  image: ImageSelectionSchema.optional()
+}).superRefine(refineGenerateImageInput);
+
+export const POST = withQuota('generate-image', handleGenerateImage);
+
+// Drafts are returned inline and not saved to history, since rendered
+// images are far larger than the text results history keeps
+async function handleGenerateImage(request: Request, caller: Caller, context: RequestContext) {
+  const meter = usageMeter('generate-image', caller, context);
+  try {
+    const body = await request.json().catch(() => {
+      throw new ApiError('INVALID_JSON', 'Invalid JSON payload');
+    });
+
+    const validation = GenerateImageSchema.safeParse(body);
+    if (!validation.success) return errorResponse(validation.error, context);
+    const validated = validation.data;
+    const { provider, model } = resolveImageProvider(validated.image);
+    const aspectRatio = validated.aspectRatio ?? aspectRatioForFormat(validated.adFormat);
+    const prompt = imagePrompt(validated);
+
+    const result = await provider.generate({
+      prompt,
+      aspectRatio,
+      count: validated.count,
+      scene: validated.visualSuggestion,
+      headline: validated.headline,
+      visualDirection: validated.visualDirection,
+      model
+    }).catch(async (error) => {
+      await meter({ provider: provider.name, model, status: 'error' });
+      throw upstreamError(error, 'image');
+    });
+    await meter({ provider: result.provider, model: result.model, images: result.images.length, status: 'ok' });
+    if (!result.images.length) {
+      throw new ApiError('UPSTREAM_ERROR', 'No images generated');
+    }
+
+    return NextResponse.json({
+      images: result.images,
+      meta: {
+        provider: result.provider,
+        model: result.model,
+        aspectRatio,
+        prompt
+      }
+    });
+
+  } catch (error) {
+    return errorResponse(error, context);
+  }
+}
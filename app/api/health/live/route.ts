@@ -0,0 +1,14 @@
+// app/api/health/live/route.ts
+import { NextResponse } from 'next/server';
+import { canViewHealthDetails, liveness, redactReport } from '@/lib/health';
+
+export const runtime = 'edge';
+
+// No dependency checks, so a slow backend never restarts a healthy instance
+export async function GET(request: Request) {
+  const report = liveness();
+  return NextResponse.json(
+    canViewHealthDetails(request) ? report : redactReport(report),
+    { headers: { 'Cache-Control': 'no-store' } }
+  );
+}
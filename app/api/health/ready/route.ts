@@ -0,0 +1,15 @@
+// app/api/health/ready/route.ts
+import { NextResponse } from 'next/server';
+import { canViewHealthDetails, readiness, redactReport } from '@/lib/health';
+
+export const runtime = 'nodejs';
+
+// 503 when any dependency fails; the body names it only for callers with
+// HEALTH_TOKEN or ADMIN_TOKEN
+export async function GET(request: Request) {
+  const report = await readiness();
+  return NextResponse.json(
+    canViewHealthDetails(request) ? report : redactReport(report),
+    { status: report.status === 'ok' ? 200 : 503, headers: { 'Cache-Control': 'no-store' } }
+  );
+}
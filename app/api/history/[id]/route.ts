@@ -0,0 +1,41 @@
+// app/api/history/[id]/route.ts
+import { NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
+import { ApiError, errorResponse } from '@/lib/errors';
+import { deleteHistory, getHistory } from '@/lib/history';
+import { requestContext } from '@/lib/logger';
+
+export const runtime = 'nodejs';
+
+type Params = { params: Promise<{ id: string }> };
+
+const signInRequired = () => new ApiError('UNAUTHORIZED', 'Sign in required');
+const notFound = () => new ApiError('NOT_FOUND', 'History entry not found');
+
+export async function GET(request: Request, { params }: Params) {
+  const context = requestContext(request);
+  try {
+    const user = await getSessionUser(request);
+    if (!user) throw signInRequired();
+
+    const entry = await getHistory(user.id, (await params).id);
+    if (!entry) throw notFound();
+    return NextResponse.json({ entry });
+  } catch (error) {
+    return errorResponse(error, context);
+  }
+}
+
+export async function DELETE(request: Request, { params }: Params) {
+  const context = requestContext(request);
+  try {
+    const user = await getSessionUser(request);
+    if (!user) throw signInRequired();
+
+    const deleted = await deleteHistory(user.id, (await params).id);
+    if (!deleted) throw notFound();
+    return NextResponse.json({ deleted: true });
+  } catch (error) {
+    return errorResponse(error, context);
+  }
+}
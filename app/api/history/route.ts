@@ -0,0 +1,24 @@
+// app/api/history/route.ts
+import { NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth';
+import { ApiError, errorResponse } from '@/lib/errors';
+import { listHistory } from '@/lib/history';
+import { requestContext } from '@/lib/logger';
+
+export const runtime = 'nodejs';
+
+export async function GET(request: Request) {
+  const context = requestContext(request);
+  try {
+    const user = await getSessionUser(request);
+    if (!user) throw new ApiError('UNAUTHORIZED', 'Sign in required');
+
+    const params = new URL(request.url).searchParams;
+    const limit = Math.min(Number(params.get('limit')) || 20, 100);
+    const before = Number(params.get('before')) || undefined;
+
+    return NextResponse.json(await listHistory(user.id, { limit, before }));
+  } catch (error) {
+    return errorResponse(error, context);
+  }
+}
@@ -1,206 +1,163 @@
 import { NextResponse } from 'next/server';
-import { Ratelimit } from '@upstash/ratelimit';
-import { kv } from '@vercel/kv';
-import OpenAI from 'openai';
 import { z } from 'zod';
-
-// Initialize OpenAI with error handling
-let openai: OpenAI;
-try {
-  openai = new OpenAI({ 
-    apiKey: process.env.OPENAI_API_KEY!,
-    timeout: 10000 // 10 second timeout
-  });
-} catch (error) {
-  console.error('OpenAI initialization failed:', error);
-  throw new Error('OpenAI client configuration error');
-}
-
-// Initialize rate limiter with analytics
-const ratelimit = new Ratelimit({
-  redis: kv,
-  limiter: Ratelimit.slidingWindow(3, '86400s'),
-  analytics: true,
-  prefix: 'adinsp-ratelimit'
-});
-
-export const runtime = 'edge';
-export const revalidate = 86400; // 24-hour cache
+import { cached, cacheKey, cacheMeta, type CacheDetails } from '@/lib/cache';
+import { ApiError, errorResponse, upstreamError } from '@/lib/errors';
+import { completeStructured, LLMSelectionSchema, resolveLLM } from '@/lib/llm';
+import { assignArm, recordResult, type ExperimentArm } from '@/lib/experiments';
+import { checkBrandKit, getBrandKit } from '@/lib/brand-kits';
+import { getCampaign, recordCampaignItem } from '@/lib/campaigns';
+import { recordHistory } from '@/lib/history';
+import { lintAd, lintReport } from '@/lib/lint';
+import type { RequestContext } from '@/lib/logger';
+import { resourceOwner } from '@/lib/owner';
+import { citesKnownRules, policyFor } from '@/lib/policies';
+import { inspectAdPrompts } from '@/lib/prompts/inspect-ad';
+import { withQuota, type Caller } from '@/lib/quota';
+import {
+  AdAnalysisSchema,
+  CampaignItemSourceSchema,
+  InspectAdInputSchema,
+  refineInspectAdInput,
+  type AdAnalysis
+} from '@/lib/schemas';
+import { usageMeter } from '@/lib/usage';
+
+export const runtime = 'nodejs';
+
+const CACHE_TTL = 86400; // 24 hours
 
 // Enhanced validation schema
-const InspectAdSchema = z.object({
-  headline: z.string().min(5).max(120),
-  body: z.string().min(10).max(500),
-  cta: z.string().min(2).max(50),
-  offerDescription: z.string().min(10).max(500),
-  websiteOrBrand: z.string().max(50).optional(),
-  adType: z.enum(["facebook", "instagram", "google-search", "google-display"]),
-  industry: z.enum(["General", "Health", "Finance", "E-commerce", "SaaS", "Real Estate", "Other"])
-});
-
-export async function POST(request: Request) {
-  // Enhanced IP detection
-  const ip = request.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || '127.0.0.1';
-  
+const InspectAdSchema = InspectAdInputSchema.extend({
+  llm: LLMSelectionSchema.optional(),
+  promptVersion: z.string().max(80).refine(inspectAdPrompts.has, 'Unknown prompt version').optional(),
+  campaignId: z.string().uuid().optional(),
+  // The generated variation being inspected, for the campaign timeline
+  campaignSource: CampaignItemSourceSchema.optional()
+}).superRefine(refineInspectAdInput);
+
+export const POST = withQuota('inspect-ad', handleInspect);
+
+async function handleInspect(request: Request, caller: Caller, context: RequestContext) {
+  const meter = usageMeter('inspect-ad', caller, context);
   try {
-    // Rate limiting with better error handling
-    const { success, pending, reset } = await ratelimit.limit(`insp_${ip}`);
-    await pending;
-
-    if (!success) {
-      return NextResponse.json(
-        { 
-          error: 'Analysis limit reached!',
-          reset: new Date(reset).toISOString(),
-          upgradeUrl: '/pricing'
-        },
-        { status: 429 }
-      );
-    }
-
     // Validate input with safeParse
     const body = await request.json().catch(() => {
-      throw new Error('Invalid JSON payload');
+      throw new ApiError('INVALID_JSON', 'Invalid JSON payload');
     });
     
     const validation = InspectAdSchema.safeParse(body);
-    if (!validation.success) {
-      return NextResponse.json(
-        { 
-          error: "Validation failed",
-          issues: validation.error.errors.map(e => ({
-            path: e.path.join('.'),
-            message: e.message
-          }))
-        },
-        { status: 400 }
-      );
-    }
+    if (!validation.success) return errorResponse(validation.error, context);
     const validated = validation.data;
 
-    // Enhanced caching with checksum
-    const cacheKey = `inspect:${Buffer.from(JSON.stringify(validated)).toString('base64')}`;
-    const cached = await kv.get(cacheKey).catch(() => null);
-    
-    if (cached) {
-      return NextResponse.json({
-        ...cached,
-        meta: { cache: 'hit' }
-      });
+    const brandKit = validated.brandKitId
+      ? await getBrandKit(resourceOwner(caller), validated.brandKitId)
+      : undefined;
+    if (brandKit === null) {
+      return errorResponse(new ApiError('NOT_FOUND', 'Brand kit not found'), context);
     }
 
-    // Improved prompt engineering
-    const prompt = `
-    As a senior ${validated.adType} ad consultant, analyze this ad with these strict guidelines:
-
-    **Ad Components:**
-    - Headline: ${validated.headline}
-    - Body: ${validated.body}
-    - CTA: ${validated.cta}
-    - Offer: ${validated.offerDescription}
-    - Brand: ${validated.websiteOrBrand || 'Not specified'}
-    - Industry: ${validated.industry}
-    - Platform: ${validated.adType}
-
-    **Evaluation Framework:**
-    1. Grade each component (A-F):
-       - Headline (20%): Attention, clarity, length, emotional hook
-       - Body (40%): Structure, benefit-focused, pain point addressing
-       - CTA (20%): Action clarity, urgency, visibility
-       - Offer (20%): Value proposition, differentiation
-
-    2. Compliance Check:
-       - ${validated.industry}-specific regulations
-       - ${validated.adType} platform policies
-       - Truth-in-advertising standards
-
-    3. Performance Prediction:
-       - Predicted CTR range (Low/Medium/High)
-       - Conversion likelihood
-       - Attention score (1-10)
+    const campaign = validated.campaignId
+      ? await getCampaign(resourceOwner(caller), validated.campaignId)
+      : undefined;
+    if (campaign === null) {
+      return errorResponse(new ApiError('NOT_FOUND', 'Campaign not found'), context);
+    }
 
-    4. Required Output (JSON):
-    {
-      grade: string,
-      headlineGrade: string,
-      bodyGrade: string,
-      ctaGrade: string,
-      summary: string,
-      suggestions: string[],
-      predictedCTR: string,
-      attentionScore: number,
-      complianceCheck: string,
-      rewrite?: string
-    }`;
+    // Deterministic platform and brand kit checks run first and are never cached
+    const lint = lintReport([
+      ...lintAd(validated).findings,
+      ...(brandKit ? checkBrandKit({ headline: validated.headline, body: validated.body, cta: validated.cta }, brandKit) : [])
+    ]);
+
+    // Requests that pick their own model or prompt stay out of experiments, as
+    // do brand kit requests when an arm's pinned prompt predates brand kits
+    const promptContext = { format: validated.adType, industry: validated.industry };
+    const needs = { brandKit: !!brandKit };
+    const servable = (arm: ExperimentArm) => !arm.prompt || inspectAdPrompts.supports(arm.prompt, promptContext, needs);
+    const assignment = validated.llm || validated.promptVersion
+      ? undefined
+      : assignArm('inspect-ad', caller.id, servable);
+    const arm = assignment?.arm;
+    const experiment = assignment && { id: assignment.experiment, arm: assignment.arm.id };
+
+    const { provider, model } = validated.llm ? resolveLLM(validated.llm) : resolveLLM(arm, { trusted: true });
+    const prompt = inspectAdPrompts.resolve(
+      { ...validated, brandKit },
+      promptContext,
+      validated.promptVersion ?? arm?.prompt,
+      needs
+    );
+    const temperature = arm?.temperature ?? 0.3; // Lower temp for more consistent analysis
+    const policy = policyFor(validated.industry, validated.adType);
+
+    // Editing a brand kit invalidates its entries
+    const key = await cacheKey(
+      'inspect-ad',
+      { ...validated, campaignId: undefined, campaignSource: undefined, brandKitUpdatedAt: brandKit?.updatedAt },
+      { prompt: prompt.id, policy: policy.id, provider: provider.name, model, temperature }
+    );
 
-    // Robust OpenAI API call
-    const response = await openai.chat.completions.create({
-      model: "gpt-4",
-      messages: [
-        {
-          role: "system",
-          content: "You are a paid media expert specializing in performance ad analysis."
-        },
-        { 
-          role: "user", 
-          content: prompt 
+    // Records the result (plus history for signed-in callers and the campaign
+    // item when one was named) and builds meta
+    const finalize = async (analysis: AdAnalysis, details: CacheDetails) => {
+      const resultId = await recordResult({
+        tool: 'inspect-ad',
+        prompt: prompt.id,
+        model,
+        cache: details.cache as 'hit' | 'miss',
+        experiment
+      });
+      const meta = { ...details, prompt: prompt.id, policy: policy.id, brandKit: brandKit?.id, resultId, experiment };
+      const historyId = await recordHistory(caller.userId, {
+        tool: 'inspect-ad',
+        input: validated,
+        output: { analysis, lint },
+        meta
+      });
+      const campaignItemId = await recordCampaignItem(campaign, {
+        type: 'inspection',
+        input: InspectAdInputSchema.parse(validated),
+        analysis,
+        source: validated.campaignSource
+      }, { ...meta, historyId });
+      return { ...meta, historyId, campaignItemId };
+    };
+
+    // Robust LLM call, validated against the shared analysis schema
+    const result = await cached(key, CACHE_TTL, async () => {
+      const response = await completeStructured(provider, {
+        tool: 'inspect-ad',
+        model,
+        messages: prompt.messages,
+        temperature,
+        maxTokens: 1500,
+      }, AdAnalysisSchema.superRefine(citesKnownRules(policy))).catch(async (error) => {
+        await meter({ provider: provider.name, model, cache: 'miss', status: 'error' });
+        throw upstreamError(error);
+      });
+      await meter({ provider: response.provider, model: response.model, usage: response.usage, cache: 'miss', status: 'ok' });
+      return {
+        value: { analysis: response.data },
+        details: {
+          provider: response.provider,
+          model: response.model,
+          tokens: response.usage?.totalTokens,
+          analyzedAt: new Date().toISOString()
         }
-      ],
-      response_format: { type: "json_object" },
-      temperature: 0.3, // Lower temp for more consistent analysis
-      max_tokens: 1500,
-    }).catch(async (error) => {
-      console.error('OpenAI API error:', error);
-      throw new Error(`Analysis failed: ${error.message}`);
+      };
     });
-
-    // Validate and parse response
-    const content = response.choices[0]?.message?.content;
-    if (!content) throw new Error('Empty response from OpenAI');
-
-    let analysis;
-    try {
-      analysis = JSON.parse(content);
-      if (!analysis.grade || !analysis.suggestions) {
-        throw new Error('Invalid analysis format');
-      }
-    } catch (e) {
-      console.error('Failed to parse analysis:', content);
-      throw new Error('Received malformed analysis data');
+    const { analysis } = result.value;
+    if (result.cache === 'hit') {
+      await meter({ provider: provider.name, model, cache: 'hit', status: 'ok' });
     }
 
-    // Cache with error handling (24 hours)
-    await kv.set(cacheKey, { analysis }, { ex: 86400 })
-      .catch(e => console.warn('Cache set failed:', e));
-
     return NextResponse.json({ 
       analysis,
-      meta: {
-        cache: 'miss',
-        model: 'gpt-4',
-        tokens: response.usage?.total_tokens,
-        analyzedAt: new Date().toISOString()
-      }
+      lint,
+      meta: await finalize(analysis, cacheMeta(result))
     });
 
   } catch (error) {
-    console.error('Inspection error:', error);
-
-    return NextResponse.json(
-      { 
-        error: error instanceof Error ? error.message : 'Analysis failed',
-        code: error instanceof Error ? error.name : 'UNKNOWN_ERROR',
-        stack: process.env.NODE_ENV === 'development' && error instanceof Error ? error.stack : undefined
-      },
-      { status: 500 }
-    );
+    return errorResponse(error, context);
   }
 }
-// Only use edge for API routes, not pages
-// app/api/route.ts
-// export const runtime = 'edge'; // Good for APIs
-
-// app/page.tsx
-// No runtime export → defaults to Node.js runtime
-console.log("OPENAI_API_KEY is loaded:", !!process.env.OPENAI_API_KEY);
-console.log("KV_REST_API_URL is:", process.env.KV_REST_API_URL);
@@ -0,0 +1,34 @@
+// app/api/jobs/[id]/report/route.ts
+import { NextResponse } from 'next/server';
+import { ApiError, errorResponse } from '@/lib/errors';
+import { buildAuditReport, getJob, renderAuditHtml } from '@/lib/jobs';
+import { requestContext } from '@/lib/logger';
+import { identifyCaller } from '@/lib/quota';
+
+export const runtime = 'nodejs';
+
+type Params = { params: Promise<{ id: string }> };
+
+// Audit report for a bulk inspection job: JSON by default, ?format=html for
+// the printable version
+export async function GET(request: Request, { params }: Params) {
+  const context = requestContext(request);
+  try {
+    const caller = await identifyCaller(request);
+    const job = await getJob(caller.id, (await params).id);
+    if (!job) throw new ApiError('NOT_FOUND', 'Job not found');
+    if (job.tool !== 'inspect-ad') {
+      throw new ApiError('VALIDATION_FAILED', 'Audit reports are only available for inspection jobs');
+    }
+
+    const report = buildAuditReport(job);
+    if (new URL(request.url).searchParams.get('format') === 'html') {
+      return new Response(renderAuditHtml(report), {
+        headers: { 'Content-Type': 'text/html; charset=utf-8' }
+      });
+    }
+    return NextResponse.json({ report });
+  } catch (error) {
+    return errorResponse(error, context);
+  }
+}
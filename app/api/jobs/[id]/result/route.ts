@@ -0,0 +1,48 @@
+// app/api/jobs/[id]/result/route.ts
+import { NextResponse } from 'next/server';
+import { ApiError, errorResponse } from '@/lib/errors';
+import { getJob, jobResultCsv, summarizeJob } from '@/lib/jobs';
+import { requestContext } from '@/lib/logger';
+import { identifyCaller } from '@/lib/quota';
+
+export const runtime = 'nodejs';
+
+type Params = { params: Promise<{ id: string }> };
+
+// Downloadable results: ?format=csv (default) or ?format=json. Available while
+// the job runs too, with whatever rows have finished.
+export async function GET(request: Request, { params }: Params) {
+  const context = requestContext(request);
+  try {
+    const caller = await identifyCaller(request);
+    const job = await getJob(caller.id, (await params).id);
+    if (!job) throw new ApiError('NOT_FOUND', 'Job not found');
+
+    const format = new URL(request.url).searchParams.get('format') ?? 'csv';
+    if (format === 'json') {
+      return NextResponse.json(
+        {
+          job: summarizeJob(job),
+          rows: job.rows.map(({ row, status, input, output, issues, error, code }) => ({
+            row, status, input, output, issues, error, code
+          }))
+        },
+        { headers: { 'Content-Disposition': `attachment; filename="job-${job.id}.json"` } }
+      );
+    }
+    if (format !== 'csv') {
+      throw new ApiError('VALIDATION_FAILED', 'Format must be csv or json', {
+        details: { issues: [{ path: 'format', message: 'Use csv or json' }] }
+      });
+    }
+
+    return new Response(jobResultCsv(job), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="job-${job.id}.csv"`
+      }
+    });
+  } catch (error) {
+    return errorResponse(error, context);
+  }
+}
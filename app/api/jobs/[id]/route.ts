@@ -0,0 +1,32 @@
+// app/api/jobs/[id]/route.ts
+import { after, NextResponse } from 'next/server';
+import { ApiError, errorResponse } from '@/lib/errors';
+import { getJob, hasPendingRows, jobProgress, processJob, summarizeJob } from '@/lib/jobs';
+import { requestContext } from '@/lib/logger';
+import { identifyCaller } from '@/lib/quota';
+
+export const runtime = 'nodejs';
+
+type Params = { params: Promise<{ id: string }> };
+
+// Job status with per-row progress. Polling also resumes a job whose runner
+// stopped at its time budget or died.
+export async function GET(request: Request, { params }: Params) {
+  const context = requestContext(request);
+  try {
+    const caller = await identifyCaller(request);
+    const job = await getJob(caller.id, (await params).id);
+    if (!job) throw new ApiError('NOT_FOUND', 'Job not found');
+
+    if (hasPendingRows(job)) after(() => processJob(job.id, context.log));
+
+    return NextResponse.json({
+      job: summarizeJob(job),
+      rows: jobProgress(job),
+      resultUrl: `/api/jobs/${job.id}/result`,
+      ...(job.tool === 'inspect-ad' && { reportUrl: `/api/jobs/${job.id}/report` })
+    });
+  } catch (error) {
+    return errorResponse(error, context);
+  }
+}
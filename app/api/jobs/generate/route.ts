@@ -0,0 +1,9 @@
+// app/api/jobs/generate/route.ts
+// Bulk generation: one row per brief, using /api/generate-ad field names.
+import { handleJobUpload } from '@/lib/jobs/upload';
+
+export const runtime = 'nodejs';
+
+export async function POST(request: Request) {
+  return handleJobUpload(request, 'generate-ad');
+}
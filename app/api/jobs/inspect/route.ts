@@ -0,0 +1,10 @@
+// app/api/jobs/inspect/route.ts
+// Bulk inspection (ad audit): one row per existing ad with headline, body,
+// cta, offer and platform columns, plus optional industry and id.
+import { handleJobUpload } from '@/lib/jobs/upload';
+
+export const runtime = 'nodejs';
+
+export async function POST(request: Request) {
+  return handleJobUpload(request, 'inspect-ad');
+}
@@ -0,0 +1,25 @@
+// app/api/lint-ad/route.ts
+import { NextResponse } from 'next/server';
+import { ApiError, errorResponse } from '@/lib/errors';
+import { lintAd } from '@/lib/lint';
+import { requestContext } from '@/lib/logger';
+import { InspectAdInputSchema, refineInspectAdInput } from '@/lib/schemas';
+
+export const runtime = 'edge';
+
+// Rule-based checks only: no LLM call, no API key and no rate limit needed
+export async function POST(request: Request) {
+  const context = requestContext(request);
+  try {
+    const body = await request.json().catch(() => {
+      throw new ApiError('INVALID_JSON', 'Invalid JSON payload');
+    });
+
+    const validation = InspectAdInputSchema.superRefine(refineInspectAdInput).safeParse(body);
+    if (!validation.success) return errorResponse(validation.error, context);
+
+    return NextResponse.json({ lint: lintAd(validation.data) });
+  } catch (error) {
+    return errorResponse(error, context);
+  }
+}
@@ -0,0 +1,126 @@
+import { NextResponse } from 'next/server';
+import { cached, cacheKey } from '@/lib/cache';
+import { ApiError, errorBody, errorResponse, upstreamError } from '@/lib/errors';
+import { recordHistory } from '@/lib/history';
+import { completeStructured, LLMSelectionSchema, resolveLLM } from '@/lib/llm';
+import type { RequestContext } from '@/lib/logger';
+import { policyFor } from '@/lib/policies';
+import { generationMaxTokens } from '@/lib/prompts/generate-ad';
+import { localizeAdPrompts } from '@/lib/prompts/localize-ad';
+import { withQuota, type Caller } from '@/lib/quota';
+import { LocalizeAdInputSchema, localizedAdSchemaFor, platformForFormat } from '@/lib/schemas';
+import { usageMeter } from '@/lib/usage';
+
+export const runtime = 'nodejs';
+
+const CACHE_TTL = 86400;
+
+const LocalizeAdSchema = LocalizeAdInputSchema.extend({
+  llm: LLMSelectionSchema.optional()
+});
+
+export const POST = withQuota('localize-ad', handleLocalize);
+
+// One call adapts the variation into every requested locale in parallel.
+// A locale that fails is reported on its own without failing the others.
+async function handleLocalize(request: Request, caller: Caller, context: RequestContext) {
+  const { log } = context;
+  const meter = usageMeter('localize-ad', caller, context);
+  try {
+    const body = await request.json().catch(() => {
+      throw new ApiError('INVALID_JSON', 'Invalid JSON payload');
+    });
+
+    const validation = LocalizeAdSchema.safeParse(body);
+    if (!validation.success) return errorResponse(validation.error, context);
+    const validated = validation.data;
+    const { provider, model } = resolveLLM(validated.llm);
+    const policy = policyFor(validated.industry, platformForFormat(validated.adFormat));
+    const temperature = 0.5;
+    const failures: ApiError[] = [];
+
+    // Each locale is cached on its own, so adding a locale to an earlier
+    // request only pays for the new one
+    const localizations = await Promise.all(validated.locales.map(async locale => {
+      const prompt = localizeAdPrompts.resolve(
+        { ...validated, locale },
+        { format: validated.adFormat, industry: validated.industry }
+      );
+      try {
+        const key = await cacheKey(
+          'localize-ad',
+          {
+            variation: validated.variation,
+            sourceLocale: validated.sourceLocale,
+            adFormat: validated.adFormat,
+            industry: validated.industry,
+            locale
+          },
+          { prompt: prompt.id, policy: policy.id, provider: provider.name, model, temperature }
+        );
+        const result = await cached(key, CACHE_TTL, async () => {
+          const response = await completeStructured(provider, {
+            tool: 'localize-ad',
+            model,
+            messages: prompt.messages,
+            json: true,
+            temperature,
+            maxTokens: generationMaxTokens({ adFormat: validated.adFormat, differentiate: !!validated.variation.counters })
+          }, localizedAdSchemaFor(validated, locale));
+          await meter({ provider: response.provider, model: response.model, usage: response.usage, cache: 'miss', status: 'ok' });
+          return { value: response.data, details: { tokens: response.usage?.totalTokens } };
+        });
+        if (result.cache === 'hit') {
+          await meter({ provider: provider.name, model, cache: 'hit', status: 'ok' });
+        }
+        return {
+          locale,
+          ...result.value,
+          prompt: prompt.id,
+          cache: result.cache,
+          tokens: result.cache === 'miss' ? result.details.tokens as number | undefined : undefined
+        };
+      } catch (error) {
+        log.error('Localization failed', { error, locale });
+        await meter({ provider: provider.name, model, cache: 'miss', status: 'error' });
+        const failure = upstreamError(error);
+        failures.push(failure);
+        return { locale, prompt: prompt.id, ...errorBody(failure) };
+      }
+    }));
+
+    if (failures.length === localizations.length) {
+      // Nothing to show, so the first failure decides the status and retry hint
+      const [first] = failures;
+      throw new ApiError(first.code, 'Localization failed for every locale', {
+        retryAfter: first.retryAfter,
+        retryable: first.retryable,
+        details: { localizations }
+      });
+    }
+
+    const meta = {
+      provider: provider.name,
+      model,
+      tokens: localizations.reduce((sum, l) => sum + ('tokens' in l ? l.tokens ?? 0 : 0), 0),
+      policy: policy.id
+    };
+    const historyId = await recordHistory(caller.userId, {
+      tool: 'localize-ad',
+      input: {
+        headline: validated.variation.headline,
+        locales: validated.locales.join(', '),
+        sourceLocale: validated.sourceLocale,
+        adFormat: validated.adFormat,
+        industry: validated.industry
+      },
+      output: { localizations },
+      meta
+    });
+
+    return NextResponse.json({ localizations, meta: { ...meta, historyId } });
+
+  } catch (error) {
+    return errorResponse(error, context);
+  }
+}
@@ -0,0 +1,19 @@
+// app/api/prompts/route.ts
+import { NextResponse } from 'next/server';
+import { generateAdPrompts } from '@/lib/prompts/generate-ad';
+import { inspectAdPrompts } from '@/lib/prompts/inspect-ad';
+import { localizeAdPrompts } from '@/lib/prompts/localize-ad';
+import { refineAdPrompts } from '@/lib/prompts/refine-ad';
+
+// Lists registered prompt versions so results can be compared by meta.prompt
+export async function GET() {
+  return NextResponse.json({
+    templates: [
+      ...generateAdPrompts.list(),
+      ...inspectAdPrompts.list(),
+      ...refineAdPrompts.list(),
+      ...localizeAdPrompts.list()
+    ],
+    pins: process.env.PROMPT_PINS || null
+  });
+}
@@ -0,0 +1,24 @@
+// app/api/quota/route.ts
+import { NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/errors';
+import { requestContext } from '@/lib/logger';
+import { identifyCaller, quotaStatus, quotaTools } from '@/lib/quota';
+
+export const runtime = 'nodejs';
+
+// Remaining quota for the caller (API key or IP) without consuming any
+export async function GET(request: Request) {
+  const context = requestContext(request);
+  try {
+    const caller = await identifyCaller(request);
+    const statuses = await Promise.all(quotaTools.map(tool => quotaStatus(caller, tool)));
+
+    return NextResponse.json({
+      plan: caller.plan,
+      keyId: caller.keyId,
+      tools: Object.fromEntries(statuses.map(({ tool, daily, monthly }) => [tool, { daily, monthly }]))
+    });
+  } catch (error) {
+    return errorResponse(error, context);
+  }
+}
@@ -0,0 +1,23 @@
+// app/api/refine-ad/[chainId]/route.ts
+import { NextResponse } from 'next/server';
+import { ApiError, errorResponse } from '@/lib/errors';
+import { requestContext } from '@/lib/logger';
+import { identifyCaller } from '@/lib/quota';
+import { getRefineChain, reachedTarget } from '@/lib/refine';
+
+export const runtime = 'nodejs';
+
+type Params = { params: Promise<{ chainId: string }> };
+
+// Every retained iteration of a refine chain, for the caller that started it
+export async function GET(request: Request, { params }: Params) {
+  const context = requestContext(request);
+  try {
+    const caller = await identifyCaller(request);
+    const chain = await getRefineChain(caller.id, (await params).chainId);
+    if (!chain) throw new ApiError('NOT_FOUND', 'Refine chain not found');
+    return NextResponse.json({ chain, reachedTarget: reachedTarget(chain) });
+  } catch (error) {
+    return errorResponse(error, context);
+  }
+}
@@ -0,0 +1,132 @@
+import { NextResponse } from 'next/server';
+import { getBrandKit } from '@/lib/brand-kits';
+import { ApiError, errorResponse, upstreamError } from '@/lib/errors';
+import { recordHistory } from '@/lib/history';
+import { addUsage, LLMSelectionSchema, resolveLLM, type CompletionUsage } from '@/lib/llm';
+import type { RequestContext } from '@/lib/logger';
+import { resourceOwner } from '@/lib/owner';
+import { policyFor } from '@/lib/policies';
+import { withQuota, type Caller } from '@/lib/quota';
+import {
+  getRefineChain,
+  latestIteration,
+  MAX_REFINE_ITERATIONS,
+  newRefineChain,
+  reachedTarget,
+  refineIteration,
+  saveRefineChain
+} from '@/lib/refine';
+import { formatForAd, RefineAdInputSchema, refineRefineAdInput } from '@/lib/schemas';
+import { usageMeter } from '@/lib/usage';
+
+export const runtime = 'nodejs';
+
+const RefineAdSchema = RefineAdInputSchema.extend({
+  llm: LLMSelectionSchema.optional()
+}).superRefine(refineRefineAdInput);
+
+export const POST = withQuota('refine-ad', handleRefine);
+
+// One request runs up to `maxIterations` refine + re-inspect rounds, stopping
+// early at the target grade. Send the returned chainId to keep going.
+async function handleRefine(request: Request, caller: Caller, context: RequestContext) {
+  const meter = usageMeter('refine-ad', caller, context);
+  try {
+    const body = await request.json().catch(() => {
+      throw new ApiError('INVALID_JSON', 'Invalid JSON payload');
+    });
+
+    const validation = RefineAdSchema.safeParse(body);
+    if (!validation.success) return errorResponse(validation.error, context);
+    const validated = validation.data;
+
+    // Continuing a chain keeps its original context and target grade
+    const chain = validated.chainId
+      ? await getRefineChain(caller.id, validated.chainId)
+      : newRefineChain(
+          caller.id,
+          {
+            adType: validated.adType,
+            adFormat: validated.adFormat ?? formatForAd(validated.adType, validated.variation!),
+            industry: validated.industry,
+            locale: validated.locale,
+            offerDescription: validated.offerDescription!,
+            brandKitId: validated.brandKitId
+          },
+          validated.targetGrade,
+          {
+            variation: validated.variation!,
+            analysis: validated.analysis,
+            suggestions: validated.suggestions ?? validated.analysis!.suggestions
+          }
+        );
+    if (!chain) {
+      return errorResponse(new ApiError('NOT_FOUND', 'Refine chain not found'), context);
+    }
+
+    const brandKit = chain.context.brandKitId
+      ? await getBrandKit(resourceOwner(caller), chain.context.brandKitId)
+      : undefined;
+    if (brandKit === null) {
+      return errorResponse(new ApiError('NOT_FOUND', 'Brand kit not found'), context);
+    }
+
+    const refinements = () => chain.iterations.length - 1;
+    if (!reachedTarget(chain) && refinements() >= MAX_REFINE_ITERATIONS) {
+      return errorResponse(new ApiError('CONFLICT', `Refine chains stop after ${MAX_REFINE_ITERATIONS} iterations`, {
+        details: { chainId: chain.id }
+      }), context);
+    }
+
+    const { provider, model } = resolveLLM(validated.llm);
+    let usage: CompletionUsage = {};
+
+    // Saved up front and after every round so a failed round keeps earlier progress
+    if (!validated.chainId) await saveRefineChain(chain);
+    for (let round = 0; round < validated.maxIterations; round++) {
+      if (reachedTarget(chain) || refinements() >= MAX_REFINE_ITERATIONS) break;
+
+      const { iteration, usage: used } = await refineIteration(chain, { provider, model, brandKit }).catch(async (error) => {
+        await meter({ provider: provider.name, model, usage, status: 'error' });
+        throw upstreamError(error);
+      });
+      chain.iterations.push(iteration);
+      chain.updatedAt = iteration.createdAt;
+      usage = addUsage(usage, used);
+      await saveRefineChain(chain);
+    }
+    await meter({ provider: provider.name, model, usage, status: 'ok' });
+
+    const latest = latestIteration(chain);
+    const meta = {
+      provider: provider.name,
+      model,
+      tokens: usage.totalTokens ?? 0,
+      prompts: latest.prompts,
+      policy: policyFor(chain.context.industry, chain.context.adType).id,
+      brandKit: brandKit?.id
+    };
+    const historyId = await recordHistory(caller.userId, {
+      tool: 'refine-ad',
+      input: {
+        chainId: chain.id,
+        headline: chain.iterations[0].variation.headline,
+        targetGrade: chain.targetGrade,
+        ...chain.context
+      },
+      output: { chain },
+      meta
+    });
+
+    return NextResponse.json({
+      chainId: chain.id,
+      reachedTarget: reachedTarget(chain),
+      latest,
+      chain,
+      meta: { ...meta, historyId }
+    });
+
+  } catch (error) {
+    return errorResponse(error, context);
+  }
+}
@@ -1,7 +1,14 @@
 "use client";
 
-import ErrorBoundary from "next/dist/client/components/error-boundary";
-import { useState, useRef } from "react";
+import { useState, useRef, useEffect, useCallback } from "react";
+import { AdAnalysisSchema, AdVariationSchema, GeneratedAdsSchema, platformForFormat, type AdAnalysis, type AdAsset, type AdVariation, type BrandKit, type Campaign, type CarouselCard, type GenerateAdInput, type StoryFrame, type VideoScript } from "@/lib/schemas";
+import type { RefineChain } from "@/lib/refine";
+import { readSSE } from "@/lib/sse";
+import type { ExportWarning } from "@/lib/export";
+import type { GeneratedImage } from "@/lib/images";
+import type { LintFinding, LintReport } from "@/lib/lint";
+import { localeCodes, locales } from "@/lib/locales";
+import { errorMessage } from "@/lib/error-messages";
 
 // Legal content moved to separate file
 const TermsAndConditions = {
@@ -29,7 +36,8 @@ const TermsAndConditions = {
   Our grading system provides suggestions only. Platform policies change frequently - always check current guidelines.
 
   2. **Data Handling**
-  - Ad content is processed for analysis but not stored permanently
+  - Ad content is processed for analysis and not stored, unless you are signed in
+  - Signed-in users' inspections are saved to their history until deleted
   - We don't claim ownership of submitted ads
   `,
 
@@ -37,8 +45,9 @@ const TermsAndConditions = {
   **Privacy Policy**
 
   1. **Data Collection**
-  - We store only necessary account information
-  - Ad content is analyzed but not stored long-term
+  - Accounts store only your email address
+  - When signed in, your generation and inspection inputs, results and metadata are saved to your history
+  - You can delete any history entry at any time; anonymous requests are not saved
 
   2. **Third Parties**
   - We use OpenAI for content generation
@@ -53,26 +62,41 @@ const PlatformDisclaimers = {
   general: "All trademarks belong to their respective owners"
 };
 
-type AdVariation = {
-  type: string;
-  headline: string;
-  primary_text: string;
-  cta: string;
-  visual_suggestion?: string;
+type SessionUser = {
+  id: string;
+  email: string;
 };
 
-type AdAnalysis = {
-  grade: string;
-  headlineGrade: string;
-  bodyGrade: string;
-  ctaGrade: string;
-  summary: string;
-  suggestions: string;
-  rewrite?: string;
-  complianceCheck: string;
+type HistorySummary = {
+  id: string;
+  tool: "generate-ad" | "inspect-ad" | "refine-ad" | "localize-ad";
+  title: string;
+  createdAt: string;
+};
+
+// The generated variation loaded into the inspector, if any
+type InspectSource = {
+  ad: AdVariation;
+  adIndex: number;
+};
+
+// One locale's result from /api/localize-ad
+type Localization = {
+  locale: string;
+  variation?: AdVariation;
+  notes?: string[];
+  // Failed locales carry the API's error body
+  error?: string;
+  code?: string;
+};
+
+type BrandCheck = {
+  passed: boolean;
+  findings: LintFinding[];
 };
 
 type FormData = {
+  brandKitId: string;
   targetAudience: string;
   goal: string;
   uniqueSellingPoint: string;
@@ -80,8 +104,10 @@ type FormData = {
   brandVoice: string;
   keyEmotion: string;
   competitors: string;
+  differentiate: boolean;
   adFormat: string;
   industry: string;
+  locale: string;
   preferredCTA: string;
   visualDirection: string;
 };
@@ -89,6 +115,7 @@ type FormData = {
 export default function Home() {
   // Ad Generator State
   const [formData, setFormData] = useState<FormData>({
+    brandKitId: "",
     targetAudience: "",
     goal: "",
     uniqueSellingPoint: "",
@@ -96,8 +123,10 @@ export default function Home() {
     brandVoice: "Professional",
     keyEmotion: "FOMO",
     competitors: "",
+    differentiate: false,
     adFormat: "Single Image",
     industry: "General",
+    locale: "en-US",
     preferredCTA: "Shop Now",
     visualDirection: "Lifestyle"
   });
@@ -112,13 +141,40 @@ export default function Home() {
   });
   const [adType, setAdType] = useState("facebook");
   const [previousAnalysisInput, setPreviousAnalysisInput] = useState("");
+  const [inspectSource, setInspectSource] = useState<InspectSource | null>(null);
+  const [refineChain, setRefineChain] = useState<RefineChain | null>(null);
+  const [refineTarget, setRefineTarget] = useState("A-");
+  const [loadingRefine, setLoadingRefine] = useState(false);
 
   // Shared State
   const [generatedAds, setGeneratedAds] = useState<AdVariation[]>([]);
+  const [brandChecks, setBrandChecks] = useState<(BrandCheck | undefined)[]>([]);
+  const [exportFormat, setExportFormat] = useState("meta-csv");
+  const [exportWarnings, setExportWarnings] = useState<ExportWarning[]>([]);
+  const [localizeLocales, setLocalizeLocales] = useState<string[]>([]);
+  const [localizations, setLocalizations] = useState<Localization[]>([]);
+  const [loadingLocalize, setLoadingLocalize] = useState(false);
+  const [creatives, setCreatives] = useState<Record<number, GeneratedImage[]>>({});
+  const [loadingCreative, setLoadingCreative] = useState<number | null>(null);
   const [adAnalysis, setAdAnalysis] = useState<AdAnalysis | null>(null);
+  const [lintReport, setLintReport] = useState<LintReport | null>(null);
+  const [loadingLint, setLoadingLint] = useState(false);
   const [loadingGen, setLoadingGen] = useState(false);
   const [loadingInspect, setLoadingInspect] = useState(false);
   const [error, setError] = useState("");
+  const [genResultId, setGenResultId] = useState<string | null>(null);
+  const [genCampaignItemId, setGenCampaignItemId] = useState<string | null>(null);
+  const [inspectResultId, setInspectResultId] = useState<string | null>(null);
+  // Account & history state
+  const [user, setUser] = useState<SessionUser | null>(null);
+  const [signInEmail, setSignInEmail] = useState("");
+  const [signInMessage, setSignInMessage] = useState("");
+  const [history, setHistory] = useState<HistorySummary[]>([]);
+  const [brandKits, setBrandKits] = useState<BrandKit[]>([]);
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [campaignId, setCampaignId] = useState("");
+  const [remaining, setRemaining] = useState<{ generator?: string; inspector?: string; refiner?: string; localizer?: string; images?: string }>({});
+  const [feedbackSent, setFeedbackSent] = useState<Record<string, string[]>>({});
 
   // Separate terms acceptance for each tool
   const [acceptedTermsGen, setAcceptedTermsGen] = useState(false);
@@ -128,23 +184,56 @@ export default function Home() {
   // Options
   const brandVoices = ["Professional", "Friendly", "Witty", "Urgent", "Inspirational"];
   const keyEmotions = ["FOMO", "Trust", "Excitement", "Curiosity", "Anger/Solve Pain"];
-  const adFormats = ["Single Image", "Carousel", "Video", "Story"];
+  const adFormats = ["Single Image", "Carousel", "Video", "Story", "Google Search", "Google Display"];
   const industries = ["General", "Health", "Finance", "E-commerce", "SaaS", "Real Estate", "Other"];
   const preferredCTAs = ["Shop Now", "Learn More", "Get Offer", "Sign Up", "Book Now", "Claim Discount"];
   const visualDirections = ["Lifestyle", "Product Close-Up", "Before/After", "User-Generated", "Infographic"];
   const adTypes = ["facebook", "instagram", "google-search", "google-display"];
 
+  const loadHistory = useCallback(async () => {
+    const response = await fetch("/api/history");
+    if (response.ok) setHistory((await response.json()).entries);
+  }, []);
+
+  const loadBrandKits = useCallback(async () => {
+    const response = await fetch("/api/brand-kits");
+    if (response.ok) setBrandKits((await response.json()).brandKits);
+  }, []);
+
+  const loadCampaigns = useCallback(async () => {
+    const response = await fetch("/api/campaigns");
+    if (response.ok) setCampaigns((await response.json()).campaigns);
+  }, []);
+
+  useEffect(() => {
+    fetch("/api/auth/session")
+      .then(response => response.json())
+      .then(data => {
+        setUser(data.user ?? null);
+        if (data.user) {
+          loadHistory();
+          loadBrandKits();
+          loadCampaigns();
+        }
+      })
+      .catch(() => setUser(null));
+  }, [loadHistory, loadBrandKits, loadCampaigns]);
+
   // Refs for scroll to results
   const generatorResultsRef = useRef<HTMLDivElement>(null);
   const inspectorResultsRef = useRef<HTMLDivElement>(null);
+  const inspectorFormRef = useRef<HTMLDivElement>(null);
 
   // Handlers
   const handleAdGenChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     setFormData({ ...formData, [e.target.name]: e.target.value });
   };
 
+  // Hand-edited copy is no longer the generated variation or the chain's latest
   const handleAdInspectChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     setAdInput({ ...adInput, [e.target.name]: e.target.value });
+    setInspectSource(null);
+    setRefineChain(null);
   };
 
   const handleAdGenSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
@@ -153,40 +242,194 @@ export default function Home() {
     
     setLoadingGen(true);
     setGeneratedAds([]);
+    setBrandChecks([]);
+    setExportWarnings([]);
+    setLocalizations([]);
+    setCreatives({});
+    setGenResultId(null);
+    setGenCampaignItemId(null);
     setError("");
     
     try {
       const response = await fetch("/api/generate-ad", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(formData)
+        headers: {
+          "Content-Type": "application/json",
+          Accept: "text/event-stream"
+        },
+        // With a brand kit, blank USP and business fields are filled from the kit
+        body: JSON.stringify({
+          ...formData,
+          brandKitId: formData.brandKitId || undefined,
+          campaignId: campaignId || undefined,
+          uniqueSellingPoint: formData.uniqueSellingPoint || undefined,
+          contextDescription: formData.contextDescription || undefined,
+          differentiate: formData.differentiate && !!formData.competitors.trim()
+        })
       });
-      
-      const data = await response.json();
-      if (data.ads) {
-        setGeneratedAds(data.ads);
-        generatorResultsRef.current?.scrollIntoView({ behavior: "smooth" });
-      } else {
-        throw new Error(data.error || "No ads generated");
+      const remainingGen = response.headers.get("X-RateLimit-Remaining");
+      if (remainingGen !== null) setRemaining(prev => ({ ...prev, generator: remainingGen }));
+
+      // Errors raised before streaming starts (validation, rate limit) are plain JSON
+      if (!response.headers.get("content-type")?.includes("text/event-stream")) {
+        const data = await response.json();
+        const result = GeneratedAdsSchema.safeParse(data);
+        if (!result.success) throw new Error(errorMessage(data, "No ads generated"));
+        setGeneratedAds(result.data.ads);
+        setBrandChecks(data.brandCheck ?? []);
+        setGenResultId(data.meta?.resultId ?? null);
+        setGenCampaignItemId(data.meta?.campaignItemId ?? null);
+        return;
       }
+
+      let received = 0;
+      await readSSE(response, ({ event, data }) => {
+        if (event === "variation") {
+          const variation = data as { ad: unknown; brandCheck?: BrandCheck };
+          const ad = AdVariationSchema.parse(variation.ad);
+          setGeneratedAds(prev => [...prev, ad]);
+          setBrandChecks(prev => [...prev, variation.brandCheck]);
+          if (received++ === 0) {
+            generatorResultsRef.current?.scrollIntoView({ behavior: "smooth" });
+          }
+        } else if (event === "done") {
+          const { meta } = data as { meta?: { resultId?: string; campaignItemId?: string } };
+          setGenResultId(meta?.resultId ?? null);
+          setGenCampaignItemId(meta?.campaignItemId ?? null);
+        } else if (event === "error") {
+          throw new Error(errorMessage(data, "No ads generated"));
+        }
+      });
     } catch (error) {
       setError(error instanceof Error ? error.message : "Failed to generate ads");
     } finally {
       setLoadingGen(false);
+      if (user) loadHistory();
     }
   };
 
   const handleAdInspectSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    await inspectAd(adInput, adType, inspectSource);
+  };
+
+  // Downloads the generated variations in the chosen upload format
+  const handleExport = async () => {
+    setExportWarnings([]);
+    const campaign = campaigns.find(c => c.id === campaignId);
+    const response = await fetch("/api/export", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ format: exportFormat, ads: generatedAds, campaignName: campaign?.name, locale: formData.locale })
+    });
+    const data = await response.json();
+    if (!response.ok) return setError(errorMessage(data, "Export failed"));
+
+    const url = URL.createObjectURL(new Blob([data.export.content], { type: data.export.contentType }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = data.export.filename;
+    link.click();
+    URL.revokeObjectURL(url);
+    setExportWarnings(data.export.warnings);
+  };
+
+  // Renders a creative draft from the variation's visual suggestion at the
+  // format's aspect ratio
+  const handleDraftCreative = async (ad: AdVariation, index: number) => {
+    if (!ad.visual_suggestion) return;
+    setLoadingCreative(index);
+    setError("");
+
+    try {
+      const response = await fetch("/api/generate-image", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          visualSuggestion: ad.visual_suggestion,
+          headline: ad.assets?.headlines[0]?.text ?? ad.headline,
+          visualDirection: formData.visualDirection,
+          adFormat: formData.adFormat
+        })
+      });
+      const remainingImages = response.headers.get("X-RateLimit-Remaining");
+      if (remainingImages !== null) setRemaining(prev => ({ ...prev, images: remainingImages }));
+
+      const data = await response.json();
+      if (!data.images) throw new Error(errorMessage(data, "Image generation failed"));
+      setCreatives(prev => ({ ...prev, [index]: data.images }));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Image generation failed");
+    } finally {
+      setLoadingCreative(null);
+    }
+  };
+
+  // Adapts one variation into the chosen locales in a single call
+  const handleLocalize = async (ad: AdVariation) => {
+    if (!localizeLocales.length) return setError("Choose at least one locale to localize into");
+    setLoadingLocalize(true);
+    setLocalizations([]);
+    setError("");
+
+    try {
+      const response = await fetch("/api/localize-ad", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          variation: ad,
+          locales: localizeLocales,
+          sourceLocale: formData.locale,
+          adFormat: formData.adFormat,
+          industry: formData.industry
+        })
+      });
+      const remainingLocalize = response.headers.get("X-RateLimit-Remaining");
+      if (remainingLocalize !== null) setRemaining(prev => ({ ...prev, localizer: remainingLocalize }));
+
+      const data = await response.json();
+      if (!data.localizations) throw new Error(errorMessage(data, "Localization failed"));
+      setLocalizations(data.localizations);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Localization failed");
+    } finally {
+      setLoadingLocalize(false);
+      if (user) loadHistory();
+    }
+  };
+
+  // Loads a generated variation into the inspector and analyzes it right away
+  const handleInspectVariation = async (ad: AdVariation, adIndex: number) => {
+    const fields = {
+      ...adInput,
+      headline: ad.headline,
+      body: ad.primary_text,
+      cta: ad.cta,
+      offerDescription: adInput.offerDescription || formData.contextDescription || formData.uniqueSellingPoint
+    };
+    const source = { ad, adIndex };
+    const platform = platformForFormat(formData.adFormat as GenerateAdInput["adFormat"]);
+    setAdInput(fields);
+    setAdType(platform);
+    setInspectSource(source);
+    setRefineChain(null);
+    inspectorFormRef.current?.scrollIntoView({ behavior: "smooth" });
+    await inspectAd(fields, platform, source);
+  };
+
+  const inspectAd = async (fields: typeof adInput, type: string, source: InspectSource | null) => {
     if (!acceptedTermsInspect) return setError("Please accept the inspector terms");
 
-    const currentInput = JSON.stringify({ ...adInput, adType });
+    const currentInput = JSON.stringify({ ...fields, adType: type });
     if (currentInput === previousAnalysisInput) {
       return setError("Please modify some fields to get a new analysis");
     }
 
     setLoadingInspect(true);
     setAdAnalysis(null);
+    setLintReport(null);
+    setInspectResultId(null);
+    setRefineChain(null);
     setError("");
     
     try {
@@ -194,24 +437,121 @@ export default function Home() {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          ...adInput,
-          adType,
-          industry: formData.industry
+          ...fields,
+          adType: type,
+          industry: formData.industry,
+          locale: formData.locale,
+          brandKitId: formData.brandKitId || undefined,
+          campaignId: campaignId || undefined,
+          campaignSource: source && genCampaignItemId
+            ? { itemId: genCampaignItemId, adIndex: source.adIndex }
+            : undefined
         })
       });
+      const remainingInspect = response.headers.get("X-RateLimit-Remaining");
+      if (remainingInspect !== null) setRemaining(prev => ({ ...prev, inspector: remainingInspect }));
       
       const data = await response.json();
-      if (data.analysis) {
-        setAdAnalysis(data.analysis);
+      const result = AdAnalysisSchema.safeParse(data.analysis);
+      if (result.success) {
+        setAdAnalysis(result.data);
+        setLintReport(data.lint ?? null);
+        setInspectResultId(data.meta?.resultId ?? null);
         setPreviousAnalysisInput(currentInput);
         inspectorResultsRef.current?.scrollIntoView({ behavior: "smooth" });
       } else {
-        throw new Error(data.error || "No analysis generated");
+        throw new Error(errorMessage(data, "No analysis generated"));
       }
     } catch (error) {
       setError(error instanceof Error ? error.message : "Failed to analyze ad");
     } finally {
       setLoadingInspect(false);
+      if (user) loadHistory();
+    }
+  };
+
+  // Rewrites the inspected ad with the analysis suggestions and re-grades it;
+  // repeat to continue the same chain until the target grade is reached
+  const handleRefine = async () => {
+    if (!adAnalysis) return;
+    setLoadingRefine(true);
+    setError("");
+
+    try {
+      // A generated variation is refined whole, keeping its Google assets or
+      // format structure, unless its copy was edited in the inspector
+      const source = inspectSource?.ad;
+      const unedited = source && source.headline === adInput.headline
+        && source.primary_text === adInput.body && source.cta === adInput.cta;
+      const start = {
+        variation: unedited ? source : {
+          type: source?.type ?? "Manual",
+          headline: adInput.headline,
+          primary_text: adInput.body,
+          cta: adInput.cta,
+          visual_suggestion: source?.visual_suggestion
+        },
+        analysis: adAnalysis,
+        offerDescription: adInput.offerDescription,
+        adType,
+        adFormat: unedited ? formData.adFormat : undefined,
+        industry: formData.industry,
+        locale: formData.locale,
+        brandKitId: formData.brandKitId || undefined,
+        targetGrade: refineTarget
+      };
+      const response = await fetch("/api/refine-ad", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(refineChain ? { chainId: refineChain.id } : start)
+      });
+      const remainingRefine = response.headers.get("X-RateLimit-Remaining");
+      if (remainingRefine !== null) setRemaining(prev => ({ ...prev, refiner: remainingRefine }));
+
+      const data = await response.json();
+      if (!response.ok) throw new Error(errorMessage(data, "Refinement failed"));
+
+      const chain: RefineChain = data.chain;
+      const { variation, analysis } = data.latest;
+      const fields = { ...adInput, headline: variation.headline, body: variation.primary_text, cta: variation.cta };
+      setRefineChain(chain);
+      setAdInput(fields);
+      if (analysis) setAdAnalysis(AdAnalysisSchema.parse(analysis));
+      setLintReport(null);
+      setInspectResultId(null);
+      setPreviousAnalysisInput(JSON.stringify({ ...fields, adType }));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Refinement failed");
+    } finally {
+      setLoadingRefine(false);
+      if (user) loadHistory();
+    }
+  };
+
+  // Rule-based checks only, no AI call
+  const handleQuickCheck = async () => {
+    setLoadingLint(true);
+    setError("");
+
+    try {
+      const response = await fetch("/api/lint-ad", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...adInput,
+          adType,
+          industry: formData.industry,
+          locale: formData.locale
+        })
+      });
+
+      const data = await response.json();
+      if (!data.lint) throw new Error(errorMessage(data, "Quick check failed"));
+      setLintReport(data.lint);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Quick check failed");
+    } finally {
+      setLoadingLint(false);
     }
   };
 
@@ -244,6 +584,239 @@ export default function Home() {
     </div>
   );
 
+  const handleSignIn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSignInMessage("");
+    try {
+      const response = await fetch("/api/auth/magic-link", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email: signInEmail })
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(errorMessage(data, "Sign-in failed"));
+      setSignInMessage(data.url ? `Local sign-in link: ${data.url}` : "Check your email for a sign-in link.");
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Sign-in failed");
+    }
+  };
+
+  const handleSignOut = async () => {
+    await fetch("/api/auth/sign-out", { method: "POST" });
+    setUser(null);
+    setHistory([]);
+    setCampaigns([]);
+    setCampaignId("");
+  };
+
+  const handleNewCampaign = async () => {
+    const name = window.prompt("Campaign name");
+    if (!name?.trim()) return;
+
+    const response = await fetch("/api/campaigns", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name: name.trim() })
+    });
+    const data = await response.json();
+    if (!response.ok) return setError(errorMessage(data, "Could not create campaign"));
+    setCampaigns(prev => [data.campaign, ...prev]);
+    setCampaignId(data.campaign.id);
+  };
+
+  const openHistoryEntry = async (id: string) => {
+    try {
+      const response = await fetch(`/api/history/${id}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(errorMessage(data, "Could not load entry"));
+
+      const { entry } = data;
+      // Drop request-only options so reopening doesn't pin a model, prompt or campaign
+      const { llm: _llm, promptVersion: _promptVersion, campaignId: _campaignId, ...savedInput } = entry.input;
+      if (entry.tool === "generate-ad") {
+        setFormData(prev => ({ ...prev, brandKitId: "", ...savedInput }));
+        setGeneratedAds(GeneratedAdsSchema.parse(entry.output).ads);
+        setBrandChecks(entry.output.brandCheck ?? []);
+        setGenResultId(entry.meta?.resultId ?? null);
+        setGenCampaignItemId(null);
+        setLocalizations([]);
+        setCreatives({});
+      } else if (entry.tool === "localize-ad") {
+        setFormData(prev => ({
+          ...prev,
+          adFormat: savedInput.adFormat,
+          industry: savedInput.industry,
+          locale: savedInput.sourceLocale ?? prev.locale
+        }));
+        setLocalizations(entry.output.localizations);
+      } else if (entry.tool === "refine-ad") {
+        const chain: RefineChain = entry.output.chain;
+        const latest = chain.iterations[chain.iterations.length - 1];
+        setAdInput(prev => ({
+          ...prev,
+          headline: latest.variation.headline,
+          body: latest.variation.primary_text,
+          cta: latest.variation.cta,
+          offerDescription: chain.context.offerDescription
+        }));
+        setAdType(chain.context.adType);
+        setFormData(prev => ({
+          ...prev,
+          industry: chain.context.industry,
+          locale: chain.context.locale ?? "en-US",
+          brandKitId: chain.context.brandKitId ?? ""
+        }));
+        setAdAnalysis(latest.analysis ?? null);
+        setLintReport(null);
+        setInspectResultId(null);
+        setRefineTarget(chain.targetGrade);
+        setRefineChain(chain);
+      } else {
+        const { adType: savedType, industry, brandKitId = "", locale = "en-US", ...adFields } = savedInput;
+        setAdInput(prev => ({ ...prev, ...adFields }));
+        setAdType(savedType);
+        setFormData(prev => ({ ...prev, industry, brandKitId, locale }));
+        setAdAnalysis(AdAnalysisSchema.parse(entry.output.analysis));
+        setLintReport(entry.output.lint ?? null);
+        setInspectResultId(entry.meta?.resultId ?? null);
+        setInspectSource(null);
+        setRefineChain(null);
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Could not load entry");
+    }
+  };
+
+  const deleteHistoryEntry = async (id: string) => {
+    const response = await fetch(`/api/history/${id}`, { method: "DELETE" });
+    if (response.ok) setHistory(prev => prev.filter(entry => entry.id !== id));
+  };
+
+  const sendFeedback = async (resultId: string, feedback: { rating?: "up" | "down"; used?: true }) => {
+    try {
+      const response = await fetch("/api/feedback", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ resultId, ...feedback })
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(errorMessage(data, "Feedback failed"));
+      }
+      setFeedbackSent(prev => ({
+        ...prev,
+        [resultId]: [...(prev[resultId] ?? []), ...Object.keys(feedback)]
+      }));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to send feedback");
+    }
+  };
+
+  // Google asset list with pinned positions
+  const AssetList = ({ title, assets }: { title: string; assets: AdAsset[] }) => (
+    <div>
+      <p className="font-medium">{title}:</p>
+      <ul className="list-disc pl-4">
+        {assets.map((asset, i) => (
+          <li key={i}>
+            {asset.text}
+            {asset.pinned && <span className="ml-1 text-xs text-gray-500">(pinned to {asset.pinned})</span>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+
+  // Carousel cards in swipe order
+  const CarouselCards = ({ cards }: { cards: CarouselCard[] }) => (
+    <div className="flex gap-2 overflow-x-auto pb-2 mb-3">
+      {cards.map((card, i) => (
+        <div key={i} className="min-w-[10rem] max-w-[10rem] border rounded bg-white p-2 text-xs">
+          <div className="h-16 mb-2 rounded bg-gray-100 text-gray-500 p-1 overflow-hidden">{card.visual}</div>
+          <p className="font-semibold">{card.headline}</p>
+          <p className="text-gray-600">{card.description}</p>
+        </div>
+      ))}
+    </div>
+  );
+
+  // Video storyboard: hook, then one row per timestamped scene
+  const VideoStoryboard = ({ script }: { script: VideoScript }) => (
+    <div className="mb-3 text-xs">
+      <p className="mb-1"><span className="font-medium">Hook:</span> {script.hook} <span className="text-gray-500">({script.durationSeconds}s)</span></p>
+      <table className="w-full border-collapse">
+        <thead>
+          <tr className="bg-gray-100 text-left">
+            <th className="border p-1">Time</th>
+            <th className="border p-1">Visual</th>
+            <th className="border p-1">On-screen text</th>
+            <th className="border p-1">Voiceover</th>
+          </tr>
+        </thead>
+        <tbody>
+          {script.scenes.map((scene, i) => (
+            <tr key={i} className="align-top">
+              <td className="border p-1 whitespace-nowrap">{scene.start}–{scene.end}s</td>
+              <td className="border p-1">{scene.visual}</td>
+              <td className="border p-1">{scene.onScreenText}</td>
+              <td className="border p-1">{scene.voiceover}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+
+  // Story frames as a row of 9:16 tiles
+  const StoryFrames = ({ frames }: { frames: StoryFrame[] }) => (
+    <div className="flex gap-2 overflow-x-auto pb-2 mb-3">
+      {frames.map((frame, i) => (
+        <div key={i} className="min-w-[6rem] max-w-[6rem] aspect-[9/16] border rounded bg-gray-900 text-white p-2 text-xs flex flex-col justify-between">
+          <span className="text-gray-400">{i + 1} · {frame.durationSeconds}s</span>
+          <span className="text-gray-300">{frame.visual}</span>
+          {frame.text && <span className="font-semibold">{frame.text}</span>}
+        </div>
+      ))}
+    </div>
+  );
+
+  // Feedback buttons component
+  const FeedbackButtons = ({ resultId, allowUsed }: { resultId: string; allowUsed?: boolean }) => {
+    const sent = feedbackSent[resultId] ?? [];
+    return (
+      <div className="flex items-center space-x-2 text-sm">
+        <button
+          type="button"
+          disabled={sent.includes("rating")}
+          onClick={() => sendFeedback(resultId, { rating: "up" })}
+          className="px-2 py-1 border rounded disabled:opacity-50"
+          aria-label="Helpful"
+        >
+          👍
+        </button>
+        <button
+          type="button"
+          disabled={sent.includes("rating")}
+          onClick={() => sendFeedback(resultId, { rating: "down" })}
+          className="px-2 py-1 border rounded disabled:opacity-50"
+          aria-label="Not helpful"
+        >
+          👎
+        </button>
+        {allowUsed && (
+          <button
+            type="button"
+            disabled={sent.includes("used")}
+            onClick={() => sendFeedback(resultId, { used: true })}
+            className="px-2 py-1 border rounded disabled:opacity-50"
+          >
+            {sent.includes("used") ? "Marked as used" : "I used this ad"}
+          </button>
+        )}
+      </div>
+    );
+  };
+
   // Terms checkbox component
   const TermsCheckbox = ({ tool }: { tool: 'generator' | 'inspector' }) => (
     <div className="flex items-center space-x-2 mb-4">
@@ -284,6 +857,45 @@ export default function Home() {
         AI-Powered Advertising Tools for Higher Conversions
       </p>
 
+      {/* Account bar */}
+      <div className="flex justify-end items-center mb-6 text-sm">
+        {user ? (
+          <div className="flex items-center space-x-3">
+            <label className="text-gray-600">
+              Campaign:{" "}
+              <select
+                value={campaignId}
+                onChange={(e) => setCampaignId(e.target.value)}
+                className="p-1 border rounded"
+              >
+                <option value="">None</option>
+                {campaigns.map(campaign => (
+                  <option key={campaign.id} value={campaign.id}>{campaign.name}</option>
+                ))}
+              </select>
+            </label>
+            <button onClick={handleNewCampaign} className="text-blue-600 underline">New campaign</button>
+            <span className="text-gray-600">Signed in as {user.email}</span>
+            <button onClick={handleSignOut} className="text-blue-600 underline">Sign out</button>
+          </div>
+        ) : (
+          <form onSubmit={handleSignIn} className="flex items-center space-x-2">
+            <input
+              type="email"
+              value={signInEmail}
+              onChange={(e) => setSignInEmail(e.target.value)}
+              placeholder="you@example.com"
+              className="p-1.5 border rounded"
+              required
+            />
+            <button type="submit" className="bg-gray-800 text-white px-3 py-1.5 rounded">
+              Email me a sign-in link
+            </button>
+          </form>
+        )}
+      </div>
+      {signInMessage && <p className="text-right text-xs text-gray-600 -mt-4 mb-6 break-all">{signInMessage}</p>}
+
       {error && (
         <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-4 mb-6">
           <p>{error}</p>
@@ -333,13 +945,30 @@ export default function Home() {
                     onChange={handleAdGenChange}
                     placeholder="What makes you different?"
                     className="w-full p-2 border rounded focus:ring-2 focus:ring-blue-500"
-                    required
+                    required={!formData.brandKitId}
                   />
                 </div>
               </div>
               
               {/* Right Column */}
               <div className="space-y-3">
+                {brandKits.length > 0 && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Brand Kit</label>
+                    <select
+                      name="brandKitId"
+                      value={formData.brandKitId}
+                      onChange={handleAdGenChange}
+                      className="w-full p-2 border rounded focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="">None</option>
+                      {brandKits.map(kit => (
+                        <option key={kit.id} value={kit.id}>{kit.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">Brand Voice</label>
                   <select
@@ -381,6 +1010,20 @@ export default function Home() {
                     ))}
                   </select>
                 </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Language</label>
+                  <select
+                    name="locale"
+                    value={formData.locale}
+                    onChange={handleAdGenChange}
+                    className="w-full p-2 border rounded focus:ring-2 focus:ring-blue-500"
+                  >
+                    {localeCodes.map(code => (
+                      <option key={code} value={code}>{locales[code].language} ({locales[code].region})</option>
+                    ))}
+                  </select>
+                </div>
               </div>
             </div>
             
@@ -394,13 +1037,78 @@ export default function Home() {
                 className="w-full p-2 border rounded focus:ring-2 focus:ring-blue-500"
                 rows={3}
                 maxLength={500}
-                required
+                required={!formData.brandKitId}
               />
               <p className="text-xs text-gray-500 text-right mt-1">
                 {500 - formData.contextDescription.length} characters remaining
               </p>
             </div>
             
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Ad Format</label>
+                <select
+                  name="adFormat"
+                  value={formData.adFormat}
+                  onChange={handleAdGenChange}
+                  className="w-full p-2 border rounded focus:ring-2 focus:ring-blue-500"
+                >
+                  {adFormats.map(format => (
+                    <option key={format} value={format}>{format}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Preferred CTA</label>
+                <select
+                  name="preferredCTA"
+                  value={formData.preferredCTA}
+                  onChange={handleAdGenChange}
+                  className="w-full p-2 border rounded focus:ring-2 focus:ring-blue-500"
+                >
+                  {preferredCTAs.map(cta => (
+                    <option key={cta} value={cta}>{cta}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Visual Direction</label>
+                <select
+                  name="visualDirection"
+                  value={formData.visualDirection}
+                  onChange={handleAdGenChange}
+                  className="w-full p-2 border rounded focus:ring-2 focus:ring-blue-500"
+                >
+                  {visualDirections.map(visual => (
+                    <option key={visual} value={visual}>{visual}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Competitors</label>
+              <input
+                type="text"
+                name="competitors"
+                value={formData.competitors}
+                onChange={handleAdGenChange}
+                placeholder="E.g., Brand A, Brand B"
+                className="w-full p-2 border rounded focus:ring-2 focus:ring-blue-500"
+                maxLength={100}
+              />
+              <label className="flex items-center space-x-2 mt-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={formData.differentiate && !!formData.competitors.trim()}
+                  onChange={() => setFormData({ ...formData, differentiate: !formData.differentiate })}
+                  disabled={!formData.competitors.trim()}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500"
+                />
+                <span>Differentiate against competitors</span>
+              </label>
+            </div>
+            
             <TermsCheckbox tool="generator" />
             
             <button 
@@ -418,11 +1126,60 @@ export default function Home() {
                 </span>
               ) : "Generate Professional Ads"}
             </button>
+            {remaining.generator !== undefined && (
+              <p className="text-xs text-gray-500 text-center">{remaining.generator} generations left today</p>
+            )}
           </form>
           
           {generatedAds.length > 0 && (
             <div ref={generatorResultsRef} className="mt-6 space-y-6">
-              <h3 className="text-xl font-bold">Your AI-Generated Ads</h3>
+              <div className="flex items-center justify-between">
+                <h3 className="text-xl font-bold">Your AI-Generated Ads</h3>
+                {genResultId && <FeedbackButtons resultId={genResultId} allowUsed />}
+              </div>
+              <div className="flex items-center gap-2">
+                <select
+                  value={exportFormat}
+                  onChange={(e) => setExportFormat(e.target.value)}
+                  className="p-1 border rounded text-sm"
+                >
+                  <option value="meta-csv">Meta Ads Manager CSV</option>
+                  <option value="google-ads-csv">Google Ads Editor CSV</option>
+                  <option value="json">JSON</option>
+                  <option value="markdown">Markdown</option>
+                </select>
+                <button
+                  type="button"
+                  onClick={handleExport}
+                  disabled={loadingGen}
+                  className="text-sm bg-gray-200 hover:bg-gray-300 px-3 py-1 rounded disabled:opacity-50"
+                >
+                  Export
+                </button>
+              </div>
+              {exportWarnings.length > 0 && (
+                <ul className="text-xs text-yellow-700 list-disc pl-4">
+                  {exportWarnings.map((warning, i) => (
+                    <li key={i}>Ad #{warning.ad}: {warning.message}</li>
+                  ))}
+                </ul>
+              )}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Localize into (up to 5)</label>
+                <select
+                  multiple
+                  value={localizeLocales}
+                  onChange={(e) => setLocalizeLocales(Array.from(e.target.selectedOptions, option => option.value).slice(0, 5))}
+                  className="w-full p-1 border rounded text-sm h-24"
+                >
+                  {localeCodes.filter(code => code !== formData.locale).map(code => (
+                    <option key={code} value={code}>{locales[code].language} ({locales[code].region})</option>
+                  ))}
+                </select>
+                {remaining.localizer !== undefined && (
+                  <p className="text-xs text-gray-500 mt-1">{remaining.localizer} localizations left today</p>
+                )}
+              </div>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 {generatedAds.map((ad, index) => (
                   <div key={index} className="border rounded-lg p-4 bg-gray-50">
@@ -432,8 +1189,22 @@ export default function Home() {
                       </span>
                       <span className="text-xs text-gray-500">Ad #{index + 1}</span>
                     </div>
-                    <h4 className="font-bold mb-2">{ad.headline}</h4>
-                    <p className="text-sm mb-3 whitespace-pre-line">{ad.primary_text}</p>
+                    {ad.assets ? (
+                      <div className="text-sm mb-3 space-y-2">
+                        <AssetList title="Headlines" assets={ad.assets.headlines} />
+                        {ad.assets.longHeadline && <p><span className="font-medium">Long headline:</span> {ad.assets.longHeadline}</p>}
+                        <AssetList title="Descriptions" assets={ad.assets.descriptions} />
+                        {ad.assets.businessName && <p><span className="font-medium">Business name:</span> {ad.assets.businessName}</p>}
+                      </div>
+                    ) : (
+                      <>
+                        <h4 className="font-bold mb-2">{ad.headline}</h4>
+                        <p className="text-sm mb-3 whitespace-pre-line">{ad.primary_text}</p>
+                        {ad.cards && <CarouselCards cards={ad.cards} />}
+                        {ad.script && <VideoStoryboard script={ad.script} />}
+                        {ad.frames && <StoryFrames frames={ad.frames} />}
+                      </>
+                    )}
                     <div className="bg-blue-100 text-blue-800 text-xs px-2 py-1 rounded inline-block">
                       {ad.cta}
                     </div>
@@ -441,8 +1212,94 @@ export default function Home() {
                       <div className="mt-3 pt-3 border-t">
                         <p className="text-xs font-medium text-gray-700">Visual Suggestion:</p>
                         <p className="text-xs text-gray-600">{ad.visual_suggestion}</p>
+                        {creatives[index]?.map((image, i) => (
+                          <img
+                            key={i}
+                            src={image.url}
+                            alt={`Creative draft ${i + 1} for ad #${index + 1}`}
+                            width={image.width}
+                            height={image.height}
+                            className="mt-2 w-full h-auto rounded border"
+                          />
+                        ))}
+                        {formData.adFormat !== "Google Search" && (
+                          <button
+                            type="button"
+                            onClick={() => handleDraftCreative(ad, index)}
+                            disabled={loadingCreative !== null}
+                            className="mt-2 text-xs text-blue-600 underline disabled:text-gray-400"
+                          >
+                            {loadingCreative === index ? "Drafting..." : creatives[index] ? "Redraft creative" : "Draft creative"}
+                          </button>
+                        )}
+                        {creatives[index] && remaining.images !== undefined && (
+                          <p className="text-xs text-gray-500">{remaining.images} image drafts left today</p>
+                        )}
+                      </div>
+                    )}
+                    {ad.counters && (
+                      <div className="mt-3 pt-3 border-t">
+                        <p className="text-xs font-medium text-gray-700">
+                          Counters {ad.counters.competitor}: &ldquo;{ad.counters.claim}&rdquo;
+                        </p>
+                        <p className="text-xs text-gray-600">{ad.counters.rationale}</p>
                       </div>
                     )}
+                    {brandChecks[index] && !brandChecks[index]!.passed && (
+                      <div className="mt-3 pt-3 border-t">
+                        <p className="text-xs font-medium text-red-700">Brand kit issues:</p>
+                        <ul className="text-xs text-red-600 list-disc pl-4">
+                          {brandChecks[index]!.findings.map((finding, i) => (
+                            <li key={i}>{finding.message}</li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => handleInspectVariation(ad, index)}
+                      disabled={loadingInspect}
+                      className="mt-3 text-xs text-blue-600 underline disabled:text-gray-400"
+                    >
+                      Inspect this ad
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleLocalize(ad)}
+                      disabled={loadingLocalize || !localizeLocales.length}
+                      className="mt-3 ml-4 text-xs text-blue-600 underline disabled:text-gray-400"
+                    >
+                      {loadingLocalize ? "Localizing..." : "Localize this ad"}
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {localizations.length > 0 && (
+            <div className="mt-6 space-y-4">
+              <h3 className="text-xl font-bold">Localized Versions</h3>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {localizations.map(localization => (
+                  <div key={localization.locale} className="border rounded-lg p-4 bg-gray-50">
+                    <span className="inline-block bg-purple-100 text-purple-800 text-xs px-2 py-1 rounded mb-2">
+                      {localization.locale}
+                    </span>
+                    {localization.variation ? (
+                      <>
+                        <h4 className="font-bold text-lg mb-2">{localization.variation.headline}</h4>
+                        <p className="mb-3 whitespace-pre-line">{localization.variation.primary_text}</p>
+                        <p className="font-medium">CTA: <span className="text-blue-600">{localization.variation.cta}</span></p>
+                        {localization.notes && localization.notes.length > 0 && (
+                          <ul className="mt-2 text-xs text-gray-600 list-disc pl-4">
+                            {localization.notes.map((note, i) => <li key={i}>{note}</li>)}
+                          </ul>
+                        )}
+                      </>
+                    ) : (
+                      <p className="text-sm text-red-600">{errorMessage(localization, "Translation failed")}</p>
+                    )}
                   </div>
                 ))}
               </div>
@@ -451,7 +1308,7 @@ export default function Home() {
         </div>
 
         {/* Ad Inspector */}
-        <div className="p-6 border rounded-lg shadow-md bg-white">
+        <div ref={inspectorFormRef} className="p-6 border rounded-lg shadow-md bg-white">
           <h2 className="text-2xl font-semibold mb-3">🔍 Ad Inspector</h2>
           <form onSubmit={handleAdInspectSubmit} className="space-y-4">
             <div>
@@ -552,11 +1409,58 @@ export default function Home() {
                 </span>
               ) : "Analyze My Ad"}
             </button>
+            {remaining.inspector !== undefined && (
+              <p className="text-xs text-gray-500 text-center">{remaining.inspector} analyses left today</p>
+            )}
+
+            <button
+              type="button"
+              onClick={handleQuickCheck}
+              disabled={loadingLint}
+              className="w-full border border-green-600 text-green-700 font-medium py-2 px-4 rounded disabled:opacity-50"
+            >
+              {loadingLint ? "Checking..." : "Quick Check (no AI)"}
+            </button>
           </form>
+
+          {lintReport && (
+            <div className="mt-6 bg-gray-50 p-4 rounded-lg">
+              <div className="flex items-center justify-between mb-2">
+                <h4 className="font-semibold">Platform &amp; Policy Checks</h4>
+                <span className={`text-sm font-medium ${lintReport.passed ? 'text-green-600' : 'text-red-600'}`}>
+                  {lintReport.counts.error} errors · {lintReport.counts.warning} warnings
+                </span>
+              </div>
+              {lintReport.findings.length === 0 ? (
+                <p className="text-sm text-gray-600">No issues found.</p>
+              ) : (
+                <ul className="text-sm space-y-1">
+                  {lintReport.findings.map((finding, index) => (
+                    <li key={index} className="flex items-start space-x-2">
+                      <span className={`text-xs px-1.5 py-0.5 rounded ${
+                        finding.severity === 'error' ? 'bg-red-100 text-red-800' :
+                        finding.severity === 'warning' ? 'bg-yellow-100 text-yellow-800' :
+                        'bg-blue-100 text-blue-800'
+                      }`}>
+                        {finding.severity}
+                      </span>
+                      <span>
+                        <span className="font-medium">{finding.field}:</span> {finding.message}
+                        {finding.match && <span className="text-gray-500"> (&ldquo;{finding.match}&rdquo;)</span>}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
           
           {adAnalysis && (
             <div ref={inspectorResultsRef} className="mt-6 space-y-4">
-              <h3 className="text-xl font-bold">Ad Analysis Results</h3>
+              <div className="flex items-center justify-between">
+                <h3 className="text-xl font-bold">Ad Analysis Results</h3>
+                {inspectResultId && <FeedbackButtons resultId={inspectResultId} />}
+              </div>
               
               <div className="bg-gray-50 p-4 rounded-lg">
                 <div className="flex items-center justify-between mb-3">
@@ -617,7 +1521,11 @@ export default function Home() {
                   
                   <div>
                     <p className="font-medium text-gray-800">Suggestions:</p>
-                    <p className="text-sm">{adAnalysis.suggestions}</p>
+                    <ul className="text-sm list-disc pl-5 space-y-1">
+                      {adAnalysis.suggestions.map((suggestion, index) => (
+                        <li key={index}>{suggestion}</li>
+                      ))}
+                    </ul>
                   </div>
                   
                   {adAnalysis.rewrite && (
@@ -630,8 +1538,79 @@ export default function Home() {
                   )}
                   
                   <div className="pt-2 border-t">
-                    <p className="font-medium text-gray-800">Compliance Check:</p>
-                    <p className="text-sm">{adAnalysis.complianceCheck}</p>
+                    <div className="flex items-center justify-between">
+                      <p className="font-medium text-gray-800">Compliance Check:</p>
+                      <span className={`text-xs font-semibold uppercase ${
+                        adAnalysis.complianceCheck.status === 'pass' ? 'text-green-600' :
+                        adAnalysis.complianceCheck.status === 'warning' ? 'text-yellow-600' :
+                        'text-red-600'
+                      }`}>
+                        {adAnalysis.complianceCheck.status}
+                      </span>
+                    </div>
+                    {adAnalysis.complianceCheck.violations.length > 0 && (
+                      <ul className="text-sm space-y-2 mt-2">
+                        {adAnalysis.complianceCheck.violations.map((violation, index) => (
+                          <li key={index}>
+                            <code className="text-xs bg-gray-200 px-1 rounded">{violation.ruleId}</code>{' '}
+                            {violation.explanation}
+                            {violation.excerpt && (
+                              <span className="text-gray-500"> (&ldquo;{violation.excerpt}&rdquo;)</span>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    {adAnalysis.complianceCheck.notes && (
+                      <p className="text-sm mt-2">{adAnalysis.complianceCheck.notes}</p>
+                    )}
+                  </div>
+
+                  <div className="pt-2 border-t space-y-2">
+                    <div className="flex items-center space-x-2">
+                      <label className="text-sm text-gray-700">Target grade</label>
+                      <select
+                        value={refineTarget}
+                        onChange={(e) => setRefineTarget(e.target.value)}
+                        disabled={!!refineChain}
+                        className="p-1 border rounded text-sm"
+                      >
+                        {["A+", "A", "A-", "B+", "B"].map(grade => (
+                          <option key={grade} value={grade}>{grade}</option>
+                        ))}
+                      </select>
+                      <button
+                        type="button"
+                        onClick={handleRefine}
+                        disabled={loadingRefine}
+                        className="bg-purple-600 text-white text-sm px-3 py-1.5 rounded disabled:bg-gray-400"
+                      >
+                        {loadingRefine ? "Refining..." : refineChain ? "Refine again" : "Refine with these suggestions"}
+                      </button>
+                    </div>
+                    {remaining.refiner !== undefined && (
+                      <p className="text-xs text-gray-500">{remaining.refiner} refinements left today</p>
+                    )}
+                    {refineChain && (
+                      <ol className="text-sm space-y-2">
+                        {refineChain.iterations.map(iteration => (
+                          <li key={iteration.index}>
+                            <span className="font-medium">
+                              {iteration.index === 0 ? "Original" : `Round ${iteration.index}`}
+                              {iteration.analysis && ` (${iteration.analysis.grade})`}:
+                            </span>{" "}
+                            {iteration.variation.headline}
+                            {iteration.changes && (
+                              <ul className="text-xs text-gray-600 list-disc pl-5">
+                                {iteration.changes.map((change, i) => (
+                                  <li key={i}>{change}</li>
+                                ))}
+                              </ul>
+                            )}
+                          </li>
+                        ))}
+                      </ol>
+                    )}
                   </div>
                 </div>
               </div>
@@ -640,6 +1619,36 @@ export default function Home() {
         </div>
       </div>
 
+      {/* History panel */}
+      {user && (
+        <div className="mt-8 p-6 border rounded-lg shadow-md bg-white">
+          <h2 className="text-2xl font-semibold mb-3">🕘 History</h2>
+          {history.length === 0 ? (
+            <p className="text-sm text-gray-600">Your generations and inspections will appear here.</p>
+          ) : (
+            <ul className="divide-y">
+              {history.map(entry => (
+                <li key={entry.id} className="py-2 flex items-center justify-between text-sm">
+                  <div>
+                    <span className={`text-xs px-2 py-0.5 rounded mr-2 ${
+                      entry.tool === "generate-ad" ? "bg-blue-100 text-blue-800" : "bg-green-100 text-green-800"
+                    }`}>
+                      {entry.tool === "generate-ad" ? "Generator" : "Inspector"}
+                    </span>
+                    {entry.title}
+                    <span className="text-xs text-gray-500 ml-2">{new Date(entry.createdAt).toLocaleString()}</span>
+                  </div>
+                  <div className="space-x-3">
+                    <button onClick={() => openHistoryEntry(entry.id)} className="text-blue-600 underline">Open</button>
+                    <button onClick={() => deleteHistoryEntry(entry.id)} className="text-red-600 underline">Delete</button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
       {/* Platform disclaimers in footer */}
       <footer className="mt-12 text-center text-xs text-gray-500">
         <p>{PlatformDisclaimers.meta}</p>
@@ -652,35 +1661,3 @@ export default function Home() {
     </main>
   );
 }
-// components/AdGeneratorForm.tsx
-const handleSubmit = async (formData: any) => {
-  try {
-    const res = await fetch('/api/generate-ad', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify(formData),
-      credentials: 'same-origin' // Important for cookies
-    });
-
-    if (!res.ok) {
-      const error = await res.text();
-      throw new Error(error || 'Request failed');
-    }
-
-    const data = await res.json();
-    setAds(data.ads);
-  } catch (error: any) {
-    console.error('Fetch error:', error);
-    setError(error.message);
-  }
-};
-function setAds(ads: any) {
-  throw new Error("Function not implemented.");
-}
-
-function setError(message: any) {
-  throw new Error("Function not implemented.");
-}
-
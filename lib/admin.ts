@@ -0,0 +1,15 @@
+// lib/admin.ts
+// Admin endpoints require `Authorization: Bearer $ADMIN_TOKEN`. With no
+// token configured every admin request is refused.
+import { ApiError, errorResponse } from '@/lib/errors';
+import { requestContext } from '@/lib/logger';
+
+export function isAdminRequest(request: Request): boolean {
+  const token = process.env.ADMIN_TOKEN;
+  if (!token) return false;
+  return request.headers.get('authorization') === `Bearer ${token}`;
+}
+
+export function adminUnauthorized(request: Request) {
+  return errorResponse(new ApiError('UNAUTHORIZED', 'Unauthorized'), requestContext(request));
+}
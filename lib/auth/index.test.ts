@@ -0,0 +1,29 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { appUrl } from '.';
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+// A forged Host header arrives as the request URL's origin
+const forged = new Request('https://attacker.example/api/auth/magic-link', { method: 'POST' });
+
+describe('appUrl', () => {
+  it('ignores the request host when APP_URL is set', () => {
+    vi.stubEnv('APP_URL', 'https://ads.example.com');
+    expect(appUrl(forged)).toBe('https://ads.example.com');
+  });
+
+  it('falls back to NEXT_PUBLIC_APP_URL', () => {
+    vi.stubEnv('NEXT_PUBLIC_APP_URL', 'https://ads.example.com');
+    expect(appUrl(forged)).toBe('https://ads.example.com');
+  });
+
+  it('refuses to build links without a configured URL outside development', () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    expect(() => appUrl(forged)).toThrow(/APP_URL/);
+
+    vi.stubEnv('NODE_ENV', 'development');
+    expect(appUrl(forged)).toBe('https://attacker.example');
+  });
+});
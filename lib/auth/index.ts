@@ -0,0 +1,113 @@
+// lib/auth/index.ts
+// Passwordless accounts: a single-use magic link creates a KV-backed
+// session whose opaque token lives in an HttpOnly cookie.
+import type { NextResponse } from 'next/server';
+import { storage } from '@/lib/storage';
+
+export { getMailer } from './mailer';
+
+export type User = {
+  id: string;
+  email: string;
+  createdAt: string;
+};
+
+type Session = {
+  userId: string;
+  createdAt: string;
+};
+
+export const SESSION_COOKIE = 'dfy_session';
+const SESSION_TTL = 60 * 60 * 24 * 30; // 30 days
+const MAGIC_LINK_TTL = 60 * 15; // 15 minutes
+
+function randomToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export async function createMagicLinkToken(email: string): Promise<string> {
+  const token = randomToken();
+  await storage.set(`magic:${token}`, normalizeEmail(email), { ex: MAGIC_LINK_TTL });
+  return token;
+}
+
+// Sign-in links point at APP_URL (or NEXT_PUBLIC_APP_URL), never at the request's
+// Host header: a forged Host would mail the victim a token for another
+// site. Only development and tests fall back to the request's origin.
+export function appUrl(request: Request): string {
+  const configured = process.env.APP_URL || process.env.NEXT_PUBLIC_APP_URL;
+  if (configured) return configured;
+  if (process.env.NODE_ENV !== 'development' && process.env.NODE_ENV !== 'test') {
+    throw new Error('APP_URL is not configured; sign-in links need it');
+  }
+  return new URL(request.url).origin;
+}
+
+// Single use: the token is deleted as it is read
+export async function consumeMagicLinkToken(token: string): Promise<string | null> {
+  return storage.getdel<string>(`magic:${token}`);
+}
+
+export async function findOrCreateUser(email: string): Promise<User> {
+  const normalized = normalizeEmail(email);
+  const existingId = await storage.get<string>(`user-email:${normalized}`);
+  if (existingId) {
+    const existing = await storage.get<User>(`user:${existingId}`);
+    if (existing) return existing;
+  }
+
+  const user: User = { id: crypto.randomUUID(), email: normalized, createdAt: new Date().toISOString() };
+  await Promise.all([
+    storage.set(`user:${user.id}`, user),
+    storage.set(`user-email:${normalized}`, user.id)
+  ]);
+  return user;
+}
+
+export async function createSession(userId: string): Promise<string> {
+  const token = randomToken();
+  const session: Session = { userId, createdAt: new Date().toISOString() };
+  await storage.set(`session:${token}`, session, { ex: SESSION_TTL });
+  return token;
+}
+
+export async function deleteSession(token: string): Promise<void> {
+  await storage.del(`session:${token}`);
+}
+
+export function getCookie(request: Request, name: string): string | null {
+  const cookies = request.headers.get('cookie') ?? '';
+  for (const part of cookies.split(';')) {
+    const [key, ...value] = part.trim().split('=');
+    if (key === name) return decodeURIComponent(value.join('='));
+  }
+  return null;
+}
+
+export async function getSessionUser(request: Request): Promise<User | null> {
+  const token = getCookie(request, SESSION_COOKIE);
+  if (!token) return null;
+
+  const session = await storage.get<Session>(`session:${token}`);
+  if (!session) return null;
+  return storage.get<User>(`user:${session.userId}`);
+}
+
+export function setSessionCookie(response: NextResponse, token: string) {
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: SESSION_TTL
+  });
+}
+
+export function clearSessionCookie(response: NextResponse) {
+  response.cookies.set(SESSION_COOKIE, '', { path: '/', maxAge: 0 });
+}
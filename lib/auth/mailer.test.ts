@@ -0,0 +1,30 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getMailer } from './mailer';
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe('getMailer', () => {
+  it('logs that a link was issued without the token or the address', async () => {
+    const write = vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.stubEnv('LOG_LEVEL', 'info');
+
+    await getMailer().sendMagicLink('ada@example.com', 'http://localhost:3000/api/auth/verify?token=abc123');
+
+    const output = write.mock.calls.flat().join('\n');
+    expect(output).toContain('Sign-in link issued');
+    expect(output).toContain('token=redacted');
+    expect(output).not.toContain('abc123');
+    expect(output).not.toContain('ada@example.com');
+  });
+
+  it('refuses the log mailer outside development', () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    expect(() => getMailer()).toThrow(/development only/);
+
+    vi.stubEnv('AUTH_EMAIL_PROVIDER', 'resend');
+    expect(getMailer().name).toBe('resend');
+  });
+});
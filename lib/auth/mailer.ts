@@ -0,0 +1,55 @@
+// lib/auth/mailer.ts
+// Delivers sign-in links. AUTH_EMAIL_PROVIDER=resend sends real email; the
+// default `log` provider only logs that a link was issued, with the token
+// redacted, and is refused outside development and tests. Set
+// AUTH_EXPOSE_LINKS=1 to read the link from the API response locally.
+import { logger } from '@/lib/logger';
+
+export type Mailer = {
+  name: string;
+  sendMagicLink(email: string, url: string): Promise<void>;
+};
+
+// A logged link would sign in whoever reads the logs
+function redactToken(url: string): string {
+  const link = new URL(url);
+  if (link.searchParams.has('token')) link.searchParams.set('token', 'redacted');
+  return link.toString();
+}
+
+const logMailer: Mailer = {
+  name: 'log',
+  async sendMagicLink(email, url) {
+    logger.info('Sign-in link issued', { email, link: redactToken(url) });
+  }
+};
+
+const resendMailer: Mailer = {
+  name: 'resend',
+  async sendMagicLink(email, url) {
+    const response = await fetch('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${process.env.RESEND_API_KEY}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        from: process.env.AUTH_EMAIL_FROM || 'DFY Ad Toolkit <login@example.com>',
+        to: email,
+        subject: 'Your DFY Ad Toolkit sign-in link',
+        text: `Sign in to DFY Ad Toolkit:\n\n${url}\n\nThis link expires in 15 minutes. If you didn't request it, ignore this email.`
+      })
+    });
+    if (!response.ok) {
+      throw new Error(`Email delivery failed (${response.status})`);
+    }
+  }
+};
+
+export function getMailer(): Mailer {
+  if (process.env.AUTH_EMAIL_PROVIDER === 'resend') return resendMailer;
+  if (process.env.NODE_ENV !== 'development' && process.env.NODE_ENV !== 'test') {
+    throw new Error('The log mailer is for development only; set AUTH_EMAIL_PROVIDER=resend');
+  }
+  return logMailer;
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import type { AdVariation } from '@/lib/schemas';
+import { checkBrandKit, checkVariation } from './check';
+
+const kit = { bannedWords: ['guaranteed'], disclaimers: [] };
+
+const ad: AdVariation = {
+  type: 'Benefit-led',
+  headline: 'Save 5 hours a week',
+  primary_text: 'Automate the busywork.',
+  cta: 'Learn More'
+};
+
+describe('checkBrandKit', () => {
+  it('matches banned words on word boundaries only', () => {
+    expect(checkBrandKit({ headline: 'Results guaranteed!' }, kit)).toHaveLength(1);
+    expect(checkBrandKit({ headline: 'Unguaranteedness' }, kit)).toEqual([]);
+  });
+
+  it('requires each disclaimer somewhere in the copy', () => {
+    const findings = checkBrandKit({ body: 'Terms  APPLY.' }, { bannedWords: [], disclaimers: ['Terms apply', 'No refunds'] });
+    expect(findings.map(f => f.match)).toEqual(['No refunds']);
+  });
+});
+
+describe('checkVariation', () => {
+  it('passes clean copy', () => {
+    expect(checkVariation(ad, kit)).toEqual({ passed: true, findings: [] });
+  });
+
+  it('finds banned words in carousel cards', () => {
+    const carousel = {
+      ...ad,
+      cards: [
+        { headline: 'Fast setup', description: 'Results guaranteed', visual: 'Dashboard' },
+        { headline: 'Guaranteed savings', description: 'Try it free', visual: 'Team' }
+      ]
+    };
+    const check = checkVariation(carousel, kit);
+    expect(check.passed).toBe(false);
+    expect(check.findings.map(f => [f.field, f.path])).toEqual([
+      ['body', 'cards.0.description'],
+      ['headline', 'cards.1.headline']
+    ]);
+    expect(check.findings[0].message).toBe('Uses banned word "guaranteed" in card 1 description');
+  });
+
+  it('finds banned words in video hooks, on-screen text and voiceovers', () => {
+    const video = {
+      ...ad,
+      script: {
+        hook: 'Guaranteed to save time?',
+        durationSeconds: 10,
+        scenes: [
+          { start: 0, end: 5, visual: 'Desk', onScreenText: 'Save time' },
+          { start: 5, end: 10, visual: 'Logo', voiceover: 'Results are guaranteed.' }
+        ]
+      }
+    };
+    expect(checkVariation(video, kit).findings.map(f => f.path)).toEqual(['script.hook', 'script.scenes.1.voiceover']);
+  });
+
+  it('finds banned words in story frames and accepts disclaimers placed there', () => {
+    const story = {
+      ...ad,
+      frames: [
+        { durationSeconds: 5, visual: 'Inbox', text: 'Guaranteed inbox zero' },
+        { durationSeconds: 5, visual: 'Logo', text: 'Terms apply' }
+      ]
+    };
+    const check = checkVariation(story, { bannedWords: ['guaranteed'], disclaimers: ['Terms apply'] });
+    expect(check.findings.map(f => [f.ruleId, f.path])).toEqual([['brand.banned-word', 'frames.0.text']]);
+  });
+});
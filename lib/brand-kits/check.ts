@@ -0,0 +1,100 @@
+// lib/brand-kits/check.ts
+// Deterministic post-check of copy against a brand kit, reported in the
+// same finding format as the ad linter.
+import type { LintFinding, LintField } from '@/lib/lint';
+import type { AdVariation, BrandKit } from '@/lib/schemas';
+
+type Copy = Partial<Record<LintField, string>>;
+
+export type BrandCheck = {
+  passed: boolean;
+  findings: LintFinding[];
+};
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+// A piece of copy to check. Structured copy (carousel cards, video scripts,
+// story frames) carries its path and a label for messages.
+type Segment = {
+  field: LintField;
+  text?: string;
+  path?: string;
+  label?: string;
+};
+
+function checkSegments(segments: Segment[], kit: Pick<BrandKit, 'bannedWords' | 'disclaimers'>): LintFinding[] {
+  const findings: LintFinding[] = [];
+
+  for (const word of kit.bannedWords) {
+    const pattern = new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(word)}(?=$|[^\\p{L}\\p{N}])`, 'iu');
+    for (const { field, text, path, label } of segments) {
+      if (text && pattern.test(text)) {
+        findings.push({
+          ruleId: 'brand.banned-word',
+          severity: 'error',
+          field,
+          message: `Uses banned word "${word}"${label ? ` in ${label}` : ''}`,
+          match: word,
+          ...(path && { path })
+        });
+      }
+    }
+  }
+
+  // Disclaimers may sit in any field but must appear verbatim (ignoring case and spacing)
+  const allCopy = normalize(segments.map(segment => segment.text ?? '').join(' '));
+  for (const disclaimer of kit.disclaimers) {
+    if (!allCopy.includes(normalize(disclaimer))) {
+      findings.push({
+        ruleId: 'brand.missing-disclaimer',
+        severity: 'error',
+        field: 'body',
+        message: `Missing required disclaimer "${disclaimer}"`,
+        match: disclaimer
+      });
+    }
+  }
+
+  return findings;
+}
+
+export function checkBrandKit(copy: Copy, kit: Pick<BrandKit, 'bannedWords' | 'disclaimers'>): LintFinding[] {
+  return checkSegments((Object.keys(copy) as LintField[]).map(field => ({ field, text: copy[field] })), kit);
+}
+
+// Carousel cards, video scripts and story frames, each read as the headline
+// or body copy it stands in for
+function structuredSegments(ad: AdVariation): Segment[] {
+  const cards = (ad.cards ?? []).flatMap((card, i): Segment[] => [
+    { field: 'headline', text: card.headline, path: `cards.${i}.headline`, label: `card ${i + 1} headline` },
+    { field: 'body', text: card.description, path: `cards.${i}.description`, label: `card ${i + 1} description` }
+  ]);
+  const script: Segment[] = ad.script ? [
+    { field: 'headline', text: ad.script.hook, path: 'script.hook', label: 'video hook' },
+    ...ad.script.scenes.flatMap((scene, i): Segment[] => [
+      { field: 'body', text: scene.onScreenText, path: `script.scenes.${i}.onScreenText`, label: `scene ${i + 1} on-screen text` },
+      { field: 'body', text: scene.voiceover, path: `script.scenes.${i}.voiceover`, label: `scene ${i + 1} voiceover` }
+    ])
+  ] : [];
+  const frames = (ad.frames ?? []).map((frame, i): Segment => (
+    { field: 'body', text: frame.text, path: `frames.${i}.text`, label: `story frame ${i + 1}` }
+  ));
+  return [...cards, ...script, ...frames];
+}
+
+// Generated variations are reported per ad; the copy is returned unchanged
+export function checkVariation(ad: AdVariation, kit: Pick<BrandKit, 'bannedWords' | 'disclaimers'>): BrandCheck {
+  const findings = checkSegments([
+    { field: 'headline', text: ad.headline },
+    { field: 'body', text: ad.primary_text },
+    { field: 'cta', text: ad.cta },
+    ...structuredSegments(ad)
+  ], kit);
+  return { passed: !findings.some(f => f.severity === 'error'), findings };
+}
@@ -0,0 +1,57 @@
+// lib/brand-kits/index.ts
+// Brand kits persist voice, sample copy, disclaimers, banned words and
+// product facts so requests can reference them by ID. Kits are scoped to a
+// resource owner (see lib/owner.ts).
+import type { BrandKit, BrandKitInput } from '@/lib/schemas';
+import { storage } from '@/lib/storage';
+
+export { checkBrandKit, checkVariation, type BrandCheck } from './check';
+
+function indexKey(owner: string) {
+  return `brand-kits:${owner}`;
+}
+
+export async function createBrandKit(owner: string, input: BrandKitInput): Promise<BrandKit> {
+  const now = new Date().toISOString();
+  const kit: BrandKit = { ...input, id: crypto.randomUUID(), owner, createdAt: now, updatedAt: now };
+  await Promise.all([
+    storage.set(`brand-kit:${kit.id}`, kit),
+    storage.sadd(indexKey(owner), kit.id)
+  ]);
+  return kit;
+}
+
+export async function listBrandKits(owner: string): Promise<BrandKit[]> {
+  const ids = await storage.smembers(indexKey(owner));
+  const kits = await Promise.all(ids.map(id => storage.get<BrandKit>(`brand-kit:${id}`)));
+  return kits
+    .filter((kit): kit is BrandKit => !!kit)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Kits are only visible to their owner; anyone else gets null
+export async function getBrandKit(owner: string | null, id: string): Promise<BrandKit | null> {
+  if (!owner) return null;
+  const kit = await storage.get<BrandKit>(`brand-kit:${id}`);
+  return kit?.owner === owner ? kit : null;
+}
+
+export async function updateBrandKit(owner: string, id: string, input: BrandKitInput): Promise<BrandKit | null> {
+  const existing = await getBrandKit(owner, id);
+  if (!existing) return null;
+
+  const kit: BrandKit = { ...existing, ...input, updatedAt: new Date().toISOString() };
+  await storage.set(`brand-kit:${id}`, kit);
+  return kit;
+}
+
+export async function deleteBrandKit(owner: string, id: string): Promise<boolean> {
+  const existing = await getBrandKit(owner, id);
+  if (!existing) return false;
+
+  await Promise.all([
+    storage.del(`brand-kit:${id}`),
+    storage.srem(indexKey(owner), id)
+  ]);
+  return true;
+}
@@ -0,0 +1,127 @@
+import { describe, expect, it, vi } from 'vitest';
+import { storage } from '@/lib/storage';
+import { cached, cacheKey, cacheMeta, lookup, normalize, purgeCache } from './cache';
+
+const uniqueKey = () => cacheKey('generate-ad', { id: crypto.randomUUID() }, {});
+
+describe('normalize', () => {
+  it('sorts keys, drops undefined fields and collapses whitespace but keeps line breaks', () => {
+    expect(normalize({ b: '  two   words ', a: [' x\r\n y '], c: undefined })).toEqual({ a: ['x\ny'], b: 'two words' });
+  });
+});
+
+describe('cacheKey', () => {
+  it('ignores field order and stray whitespace', async () => {
+    const a = await cacheKey('inspect-ad', { headline: 'Run  faster', body: 'Shoes' }, { model: 'gpt-4o' });
+    const b = await cacheKey('inspect-ad', { body: ' Shoes', headline: 'Run faster ' }, { model: 'gpt-4o' });
+    expect(a).toBe(b);
+    expect(a).toMatch(/^cache:inspect-ad:[0-9a-f]{64}$/);
+  });
+
+  it('changes with the generator version', async () => {
+    const input = { headline: 'Run faster' };
+    expect(await cacheKey('inspect-ad', input, { model: 'gpt-4o' }))
+      .not.toBe(await cacheKey('inspect-ad', input, { model: 'gpt-4o-mini' }));
+  });
+});
+
+describe('cached', () => {
+  it('computes on a miss and replays the entry on a hit', async () => {
+    const key = await uniqueKey();
+    const compute = vi.fn(async () => ({ value: 'ads', details: { model: 'm', tokens: 12 } }));
+
+    const miss = await cached(key, 60, compute);
+    const hit = await cached(key, 60, compute);
+
+    expect(miss).toMatchObject({ value: 'ads', cache: 'miss' });
+    expect(hit).toMatchObject({ value: 'ads', cache: 'hit', cachedAt: miss.cachedAt });
+    expect(compute).toHaveBeenCalledTimes(1);
+    expect(cacheMeta(hit)).toEqual({ model: 'm', cache: 'hit', cachedAt: miss.cachedAt });
+    expect(cacheMeta(miss)).toMatchObject({ tokens: 12, cache: 'miss' });
+  });
+
+  it('shares one computation between identical requests in flight', async () => {
+    const key = await uniqueKey();
+    let release!: () => void;
+    const gate = new Promise<void>(resolve => { release = resolve; });
+    const compute = vi.fn(async () => {
+      await gate;
+      return { value: 42, details: {} };
+    });
+
+    const results = Promise.all([cached(key, 60, compute), cached(key, 60, compute), cached(key, 60, compute)]);
+    release();
+
+    expect((await results).map(r => r.cache)).toEqual(['miss', 'hit', 'hit']);
+    expect(compute).toHaveBeenCalledTimes(1);
+  });
+
+  it('lets the next request compute when the leader fails', async () => {
+    const key = await uniqueKey();
+    const failing = cached(key, 60, async () => { throw new Error('upstream down'); });
+    const waiting = cached(key, 60, async () => ({ value: 'second', details: {} }));
+
+    await expect(failing).rejects.toThrow('upstream down');
+    expect(await waiting).toMatchObject({ value: 'second', cache: 'miss' });
+    expect(await storage.get(`lock:${key}`)).toBeNull();
+  });
+
+  it('waits for another instance holding the lock instead of computing', async () => {
+    const key = await uniqueKey();
+    await storage.set(`lock:${key}`, 1, { nx: true, ex: 60 });
+    setTimeout(() => {
+      void storage.set(key, { value: 'remote', details: {}, cachedAt: new Date().toISOString() });
+    }, 100);
+
+    const compute = vi.fn(async () => ({ value: 'local', details: {} }));
+    expect(await cached(key, 60, compute)).toMatchObject({ value: 'remote', cache: 'hit' });
+    expect(compute).not.toHaveBeenCalled();
+  });
+});
+
+describe('lookup', () => {
+  it('hands out a flight on a miss and serves its entry afterwards', async () => {
+    const key = await uniqueKey();
+    const first = await lookup<string>(key, 60);
+    expect(first.entry).toBeUndefined();
+
+    await first.flight!.complete('streamed', { provider: 'fixture' });
+    expect((await lookup<string>(key, 60)).entry).toMatchObject({ value: 'streamed', details: { provider: 'fixture' } });
+  });
+
+  it("stops waiting for a stalled leader without releasing the leader's lock", async () => {
+    const key = await uniqueKey();
+    await storage.set(`lock:${key}`, 'leader-token', { nx: true, ex: 60 });
+    vi.useFakeTimers();
+    try {
+      const pending = lookup<string>(key, 60);
+      await vi.advanceTimersByTimeAsync(21000);
+      const { flight } = await pending;
+
+      await flight!.complete('follower', {});
+      expect(await storage.get(`lock:${key}`)).toBe('leader-token');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe('purgeCache', () => {
+  it("deletes one tool's entries and nothing else", async () => {
+    const ad = await cacheKey('localize-ad', { n: 1 }, {});
+    const other = await cacheKey('inspect-ad', { n: 1 }, {});
+    await storage.set(ad, { value: 1, details: {}, cachedAt: '' });
+    await storage.set(other, { value: 1, details: {}, cachedAt: '' });
+
+    expect(await purgeCache({ tool: 'localize-ad' })).toBe(1);
+    expect(await storage.get(ad)).toBeNull();
+    expect(await storage.get(other)).not.toBeNull();
+  });
+
+  it('deletes by key prefix', async () => {
+    const key = await cacheKey('inspect-ad', { n: 2 }, {});
+    await storage.set(key, { value: 1, details: {}, cachedAt: '' });
+    expect(await purgeCache({ prefix: key.slice(0, 'cache:inspect-ad:'.length + 8) })).toBeGreaterThanOrEqual(1);
+    expect(await storage.get(key)).toBeNull();
+  });
+});
@@ -0,0 +1,195 @@
+// lib/cache.ts
+// Response cache for the LLM routes. Keys are SHA-256 digests of the
+// normalized input plus everything else that changes the output (prompt,
+// policy, provider, model, temperature), so reordered fields and stray
+// whitespace still hit. Identical requests in flight share one LLM call:
+// in-process through a promise map, across instances through a storage lock.
+import { logger } from '@/lib/logger';
+import { storage } from '@/lib/storage';
+
+export const cachedTools = ["generate-ad", "inspect-ad", "localize-ad"] as const;
+export type CachedTool = typeof cachedTools[number];
+
+export type CacheStatus = 'hit' | 'miss';
+
+// What produced the value (provider, model, tokens), replayed as meta on hits
+export type CacheDetails = Record<string, unknown>;
+
+export type CacheEntry<T> = {
+  value: T;
+  details: CacheDetails;
+  cachedAt: string;
+};
+
+export type CacheResult<T> = CacheEntry<T> & { cache: CacheStatus };
+
+// Bump to orphan every entry after changing how keys are derived
+const KEY_VERSION = 1;
+const LOCK_SECONDS = 60;
+const POLL_MS = 250;
+const MAX_WAIT_MS = 20000;
+
+// Sorted object keys, undefined fields dropped, and strings trimmed with
+// runs of spaces collapsed. Line breaks are kept since they change the ad.
+export function normalize(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return value.replace(/\r\n?/g, '\n').replace(/[ \t]+/g, ' ').replace(/ ?\n ?/g, '\n').trim();
+  }
+  if (Array.isArray(value)) return value.map(normalize);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value).sort()
+        .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+        .map(key => [key, normalize((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
+
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// `version` holds whatever identifies the generator besides the input:
+// prompt and policy IDs, provider, model, temperature
+export async function cacheKey(tool: CachedTool, input: unknown, version: Record<string, unknown>): Promise<string> {
+  const digest = await sha256(JSON.stringify(normalize({ v: KEY_VERSION, input, version })));
+  return `cache:${tool}:${digest}`;
+}
+
+// Storage failures never fail the request: reads miss, locks are granted and
+// writes are skipped, so every request computes its own value
+async function readEntry<T>(key: string): Promise<CacheEntry<T> | null> {
+  try {
+    return await storage.get<CacheEntry<T>>(key);
+  } catch (error) {
+    logger.warn('Cache get failed', { error, key });
+    return null;
+  }
+}
+
+// The lock holds the flight's token so only its owner releases it
+async function tryLock(key: string, token: string): Promise<boolean> {
+  try {
+    return await storage.set(`lock:${key}`, token, { nx: true, ex: LOCK_SECONDS }) !== null;
+  } catch {
+    return true;
+  }
+}
+
+// A follower that gave up waiting never held the lock, and a slow leader's
+// lock may have expired and been taken, so delete only our own
+async function unlock(key: string, token: string) {
+  try {
+    await storage.delIfEquals(`lock:${key}`, token);
+  } catch {
+    // Expires on its own after LOCK_SECONDS
+  }
+}
+
+const inFlight = new Map<string, Promise<CacheEntry<unknown> | null>>();
+
+// The caller computing a value. Waiting requests get the entry on complete,
+// or go looking again if the flight is abandoned.
+export type Flight<T> = {
+  complete(value: T, details: CacheDetails): Promise<CacheEntry<T>>;
+  abandon(): void;
+};
+
+// Registered synchronously so identical requests in this isolate queue
+// behind it even while it is still checking storage
+function startFlight<T>(key: string, ttl: number) {
+  const token = crypto.randomUUID();
+  let settle!: (entry: CacheEntry<T> | null) => void;
+  inFlight.set(key, new Promise(resolve => { settle = resolve; }));
+
+  const land = (entry: CacheEntry<T> | null) => {
+    inFlight.delete(key);
+    settle(entry);
+  };
+
+  const flight: Flight<T> = {
+    async complete(value, details) {
+      const entry = { value, details, cachedAt: new Date().toISOString() };
+      try {
+        await storage.set(key, entry, { ex: ttl });
+      } catch (error) {
+        logger.warn('Cache set failed', { error, key });
+      }
+      land(entry);
+      void unlock(key, token);
+      return entry;
+    },
+    abandon() {
+      land(null);
+      void unlock(key, token);
+    }
+  };
+  return { flight, land, token };
+}
+
+export type CacheLookup<T> =
+  | { entry: CacheEntry<T>; flight?: undefined }
+  | { entry?: undefined; flight: Flight<T> };
+
+// Returns the cached entry, waiting for an identical request already in
+// flight, or a Flight the caller must complete or abandon. Callers that
+// stream their result use this directly; others use `cached`.
+export async function lookup<T>(key: string, ttl: number): Promise<CacheLookup<T>> {
+  for (let pending = inFlight.get(key); pending; pending = inFlight.get(key)) {
+    const entry = await pending as CacheEntry<T> | null;
+    if (entry) return { entry };
+  }
+
+  const { flight, land, token } = startFlight<T>(key, ttl);
+  for (let waited = 0; ; waited += POLL_MS) {
+    const entry = await readEntry<T>(key);
+    if (entry) {
+      land(entry);
+      return { entry };
+    }
+    // Another instance holds the lock; poll for its result, then give up
+    // waiting so a crashed leader can't stall requests
+    if (waited >= MAX_WAIT_MS || await tryLock(key, token)) return { flight };
+    await new Promise(resolve => setTimeout(resolve, POLL_MS));
+  }
+}
+
+export async function cached<T>(
+  key: string,
+  ttl: number,
+  compute: () => Promise<{ value: T; details: CacheDetails }>
+): Promise<CacheResult<T>> {
+  const found = await lookup<T>(key, ttl);
+  if (found.entry) return { ...found.entry, cache: 'hit' };
+
+  try {
+    const { value, details } = await compute();
+    return { ...await found.flight.complete(value, details), cache: 'miss' };
+  } catch (error) {
+    found.flight.abandon();
+    throw error;
+  }
+}
+
+// Cache fields for a response's meta. A hit spent no tokens on this
+// request, so the original count is left out.
+export function cacheMeta(result: CacheResult<unknown>): CacheDetails {
+  const { tokens: _tokens, ...details } = result.details;
+  return { ...(result.cache === 'hit' ? details : result.details), cache: result.cache, cachedAt: result.cachedAt };
+}
+
+// Deletes every entry for a tool, or every key under a prefix such as
+// `cache:inspect-ad:3fa2`. Returns the number of entries removed.
+export async function purgeCache(target: { tool: CachedTool } | { prefix: string }): Promise<number> {
+  const match = 'tool' in target ? `cache:${target.tool}:*` : `${target.prefix}*`;
+  let cursor = '0';
+  let deleted = 0;
+  do {
+    const [next, keys] = await storage.scan(cursor, { match, count: 500 });
+    cursor = String(next);
+    if (keys.length) deleted += await storage.del(...keys);
+  } while (cursor !== '0');
+  return deleted;
+}
@@ -0,0 +1,163 @@
+// lib/campaigns.ts
+// Campaigns group briefs, generator runs and inspector runs so a user can
+// follow copy from first draft to final inspection. Campaigns live under
+// campaign:<id>, indexed per owner in a sorted set; their items are appended
+// to the campaign-items:<id> list, which is the timeline order.
+import { ApiError } from '@/lib/errors';
+import { logger } from '@/lib/logger';
+import type { Campaign, CampaignInput, CampaignItem, CampaignItemInput } from '@/lib/schemas';
+import { storage } from '@/lib/storage';
+
+export class InvalidCampaignSourceError extends ApiError {
+  constructor(message = 'Source must reference a generation item and ad in this campaign') {
+    super('VALIDATION_FAILED', message, { details: { issues: [{ path: 'source', message }] } });
+    this.name = 'InvalidCampaignSourceError';
+  }
+}
+
+export type TimelineCopy = {
+  headline: string;
+  body: string;
+  cta: string;
+};
+
+export type TimelineEntry = {
+  itemId: string;
+  type: CampaignItem['type'];
+  createdAt: string;
+  title: string;
+  copy: TimelineCopy[];
+  grade?: string;
+  source?: { itemId: string; adIndex: number };
+  // Fields the inspected copy changed relative to its source variation
+  changed?: (keyof TimelineCopy)[];
+};
+
+function indexKey(owner: string) {
+  return `campaigns:${owner}`;
+}
+
+function itemsKey(campaignId: string) {
+  return `campaign-items:${campaignId}`;
+}
+
+export async function createCampaign(owner: string, input: CampaignInput): Promise<Campaign> {
+  const now = Date.now();
+  const createdAt = new Date(now).toISOString();
+  const campaign: Campaign = { ...input, id: crypto.randomUUID(), owner, createdAt, updatedAt: createdAt };
+  await Promise.all([
+    storage.set(`campaign:${campaign.id}`, campaign),
+    storage.zadd(indexKey(owner), { score: now, member: campaign.id })
+  ]);
+  return campaign;
+}
+
+// Newest first
+export async function listCampaigns(owner: string): Promise<Campaign[]> {
+  const ids = await storage.zrange(indexKey(owner), 0, -1, { rev: true });
+  const campaigns = await Promise.all(ids.map(id => storage.get<Campaign>(`campaign:${id}`)));
+  return campaigns.filter((c): c is Campaign => !!c);
+}
+
+// Campaigns are only visible to their owner; anyone else gets null
+export async function getCampaign(owner: string | null, id: string): Promise<Campaign | null> {
+  if (!owner) return null;
+  const campaign = await storage.get<Campaign>(`campaign:${id}`);
+  return campaign?.owner === owner ? campaign : null;
+}
+
+export async function deleteCampaign(owner: string, id: string): Promise<boolean> {
+  const campaign = await getCampaign(owner, id);
+  if (!campaign) return false;
+  await Promise.all([
+    storage.del(`campaign:${id}`, itemsKey(id)),
+    storage.zrem(indexKey(owner), id)
+  ]);
+  return true;
+}
+
+export async function listCampaignItems(campaignId: string): Promise<CampaignItem[]> {
+  return storage.lrange<CampaignItem>(itemsKey(campaignId), 0, -1);
+}
+
+export async function addCampaignItem(
+  campaign: Campaign,
+  input: CampaignItemInput,
+  meta?: Record<string, unknown>
+): Promise<CampaignItem> {
+  if (input.type === 'inspection' && input.source) {
+    const { itemId, adIndex } = input.source;
+    const source = (await listCampaignItems(campaign.id)).find(item => item.id === itemId);
+    if (source?.type !== 'generation' || adIndex >= source.ads.length) {
+      throw new InvalidCampaignSourceError();
+    }
+  }
+
+  const createdAt = new Date().toISOString();
+  const item: CampaignItem = { ...input, id: crypto.randomUUID(), campaignId: campaign.id, createdAt, meta };
+  await Promise.all([
+    storage.rpush(itemsKey(campaign.id), item),
+    storage.set(`campaign:${campaign.id}`, { ...campaign, updatedAt: createdAt })
+  ]);
+  return item;
+}
+
+// Route helper: a failed campaign write must never fail the request that
+// produced the result.
+export async function recordCampaignItem(
+  campaign: Campaign | undefined,
+  input: CampaignItemInput,
+  meta?: Record<string, unknown>
+): Promise<string | undefined> {
+  if (!campaign) return undefined;
+  return addCampaignItem(campaign, input, meta)
+    .then(item => item.id)
+    .catch(error => {
+      logger.warn('Campaign item save failed', { error, campaignId: campaign.id });
+      return undefined;
+    });
+}
+
+// Condensed, chronological view of how the campaign's copy evolved
+export function campaignTimeline(items: CampaignItem[]): TimelineEntry[] {
+  const byId = new Map(items.map(item => [item.id, item]));
+
+  return items.map(item => {
+    const base = { itemId: item.id, type: item.type, createdAt: item.createdAt };
+
+    switch (item.type) {
+      case 'brief':
+        return {
+          ...base,
+          title: `${item.brief.adFormat} brief for ${item.brief.targetAudience}`,
+          copy: []
+        };
+
+      case 'generation':
+        return {
+          ...base,
+          title: `Generated ${item.ads.length} variations`,
+          copy: item.ads.map(ad => ({ headline: ad.headline, body: ad.primary_text, cta: ad.cta }))
+        };
+
+      case 'inspection': {
+        const copy = { headline: item.input.headline, body: item.input.body, cta: item.input.cta };
+        const source = item.source && byId.get(item.source.itemId);
+        const original = source?.type === 'generation' ? source.ads[item.source!.adIndex] : undefined;
+        const changed = original
+          ? (['headline', 'body', 'cta'] as const).filter(field =>
+              copy[field] !== (field === 'body' ? original.primary_text : original[field]))
+          : undefined;
+
+        return {
+          ...base,
+          title: `Inspected "${item.input.headline}"`,
+          copy: [copy],
+          grade: item.analysis.grade,
+          source: item.source,
+          changed
+        };
+      }
+    }
+  });
+}
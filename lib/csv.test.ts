@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv, parseCsvRecords, toCsv } from './csv';
+
+describe('parseCsv', () => {
+  it('reads quoted fields with commas, quotes and newlines', () => {
+    const text = 'a,b,c\n"x, y","say ""hi""","line 1\nline 2"\n';
+    expect(parseCsv(text)).toEqual([
+      ['a', 'b', 'c'],
+      ['x, y', 'say "hi"', 'line 1\nline 2']
+    ]);
+  });
+
+  it('accepts CRLF line endings and a missing final newline', () => {
+    expect(parseCsv('a,b\r\n1,2\r\n3,4')).toEqual([['a', 'b'], ['1', '2'], ['3', '4']]);
+  });
+
+  it('keeps empty cells and drops blank lines', () => {
+    expect(parseCsv('a,,c\n\n ,\n1,2,3\n')).toEqual([['a', '', 'c'], ['1', '2', '3']]);
+  });
+});
+
+describe('parseCsvRecords', () => {
+  it('keys rows by the trimmed header and omits empty cells', () => {
+    const text = '\uFEFFproduct , audience,tone\nShoes, runners ,\n';
+    expect(parseCsvRecords(text)).toEqual([{ product: 'Shoes', audience: 'runners' }]);
+  });
+
+  it('returns no records for empty input', () => {
+    expect(parseCsvRecords('')).toEqual([]);
+  });
+});
+
+describe('toCsv', () => {
+  it('quotes only the fields that need it', () => {
+    expect(toCsv(['a', 'b'], [['plain', 'with, comma'], ['say "hi"', null]]))
+      .toBe('a,b\r\nplain,"with, comma"\r\n"say ""hi""",\r\n');
+  });
+
+  it('neutralizes formula-like text cells when asked', () => {
+    const row = ['=HYPERLINK("http://x")', '+1', '-2', '@SUM(A1)', 'safe', -3];
+    expect(toCsv(['a'], [row], { neutralizeFormulas: true }))
+      .toBe('a\r\n"\'=HYPERLINK(""http://x"")",\'+1,\'-2,\'@SUM(A1),safe,-3\r\n');
+    expect(toCsv(['a'], [['=1+1']])).toBe('a\r\n=1+1\r\n');
+  });
+
+  it('round-trips through parseCsv', () => {
+    const rows = [['one', 'two, three'], ['multi\nline', '"quoted"']];
+    expect(parseCsv(toCsv(['x', 'y'], rows))).toEqual([['x', 'y'], ...rows]);
+  });
+});
@@ -0,0 +1,86 @@
+// lib/csv.ts
+// Minimal RFC 4180 CSV reading and writing: quoted fields, escaped quotes,
+// embedded commas and newlines. Enough for brief uploads and result files.
+
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines carry no data
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+}
+
+// First row is the header; each later row becomes an object keyed by it.
+// Empty cells are omitted so optional fields stay undefined.
+export function parseCsvRecords(text: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ''));
+  if (!header) return [];
+  const keys = header.map(h => h.trim());
+
+  return rows.map(cells => {
+    const record: Record<string, string> = {};
+    keys.forEach((key, i) => {
+      const value = cells[i]?.trim();
+      if (key && value) record[key] = value;
+    });
+    return record;
+  });
+}
+
+type CsvOptions = {
+  // Prefix text cells a spreadsheet would run as a formula with a quote.
+  // Off for import templates, whose cells the ad platform reads verbatim.
+  neutralizeFormulas?: boolean;
+};
+
+const FORMULA = /^[=+\-@\t\r]/;
+
+function escapeField(value: unknown, { neutralizeFormulas }: CsvOptions): string {
+  let text = value === undefined || value === null ? '' : String(value);
+  if (neutralizeFormulas && typeof value === 'string' && FORMULA.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(header: string[], rows: unknown[][], options: CsvOptions = {}): string {
+  return [header, ...rows]
+    .map(row => row.map(value => escapeField(value, options)).join(','))
+    .join('\r\n') + '\r\n';
+}
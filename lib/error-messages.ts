@@ -0,0 +1,65 @@
+// lib/error-messages.ts
+// What the UI tells people when a request fails, keyed by the API's error
+// codes. The server's own message is only shown where it carries specifics
+// worth reading (what wasn't found, which quota ran out).
+import type { ErrorBody, ErrorCode } from '@/lib/errors';
+
+const messages: Record<ErrorCode, string> = {
+  VALIDATION_FAILED: "Please check the highlighted fields.",
+  INVALID_JSON: "The request couldn't be read. Refresh the page and try again.",
+  UNAUTHORIZED: "Sign in or use an API key to continue.",
+  INVALID_API_KEY: "Your API key is invalid or has been revoked.",
+  NOT_FOUND: "That item no longer exists.",
+  CONFLICT: "That change conflicts with the current state.",
+  MODEL_NOT_ALLOWED: "That model isn't available. Choose another one.",
+  QUOTA_EXCEEDED: "You've reached your plan's limit.",
+  RATE_LIMITED: "The AI service is busy right now.",
+  TOO_MANY_REQUESTS: "Too many requests.",
+  UPSTREAM_ERROR: "The AI service ran into a problem.",
+  UPSTREAM_MALFORMED: "The AI returned a response we couldn't use.",
+  UPSTREAM_TIMEOUT: "The AI service took too long to respond.",
+  SERVICE_UNAVAILABLE: "The service is temporarily unavailable.",
+  INTERNAL_ERROR: "Something went wrong on our side."
+};
+
+// Codes whose server message is more useful than the generic one
+const specificCodes = new Set<ErrorCode>([
+  'VALIDATION_FAILED', 'NOT_FOUND', 'CONFLICT', 'QUOTA_EXCEEDED', 'TOO_MANY_REQUESTS', 'MODEL_NOT_ALLOWED'
+]);
+
+export function isErrorBody(value: unknown): value is ErrorBody {
+  return typeof value === 'object' && value !== null
+    && typeof (value as ErrorBody).code === 'string' && (value as ErrorBody).code in messages;
+}
+
+function waitText(seconds: number): string {
+  if (seconds < 90) return `${seconds} seconds`;
+  if (seconds < 90 * 60) return `${Math.round(seconds / 60)} minutes`;
+  return `${Math.round(seconds / 3600)} hours`;
+}
+
+// A user-facing sentence for any error payload; `fallback` covers bodies
+// that aren't from this API (network failures, proxies)
+export function errorMessage(body: unknown, fallback: string): string {
+  if (!isErrorBody(body)) return fallback;
+
+  let message = specificCodes.has(body.code) ? body.error : messages[body.code];
+  if (body.code === 'VALIDATION_FAILED' && body.issues?.length) {
+    const [first] = body.issues;
+    message = `${first.path ? `${first.path}: ` : ''}${first.message}`;
+  }
+
+  // Server messages are often bare phrases
+  if (!/[.!?]$/.test(message)) message += '.';
+
+  if (body.retryAfter !== undefined && (body.retryable || body.code === 'QUOTA_EXCEEDED')) {
+    message += ` Try again in ${waitText(body.retryAfter)}.`;
+  } else if (body.retryable) {
+    message += ' Please try again.';
+  }
+  // Quoting the ID lets support find the request in the logs
+  if (body.requestId && (body.retryable || body.code === 'INTERNAL_ERROR')) {
+    message += ` (Reference: ${body.requestId})`;
+  }
+  return message;
+}
@@ -0,0 +1,186 @@
+// lib/errors.ts
+// One error model for every route. Each failure has a stable code with a
+// fixed HTTP status and a retry hint; clients branch on `code` (the UI's
+// wording lives in lib/error-messages.ts), while `error` is for humans and
+// may change. Anything that isn't an ApiError is reported as INTERNAL_ERROR
+// without its message, so internals never reach the response.
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import type { RequestContext } from '@/lib/logger';
+
+export const errorCodes = [
+  "VALIDATION_FAILED",
+  "INVALID_JSON",
+  "UNAUTHORIZED",
+  "INVALID_API_KEY",
+  "NOT_FOUND",
+  "CONFLICT",
+  "MODEL_NOT_ALLOWED",
+  "QUOTA_EXCEEDED",
+  "RATE_LIMITED",
+  "TOO_MANY_REQUESTS",
+  "UPSTREAM_ERROR",
+  "UPSTREAM_MALFORMED",
+  "UPSTREAM_TIMEOUT",
+  "SERVICE_UNAVAILABLE",
+  "INTERNAL_ERROR"
+] as const;
+export type ErrorCode = typeof errorCodes[number];
+
+export const errorStatus: Record<ErrorCode, number> = {
+  VALIDATION_FAILED: 400,
+  INVALID_JSON: 400,
+  UNAUTHORIZED: 401,
+  INVALID_API_KEY: 401,
+  NOT_FOUND: 404,
+  CONFLICT: 409,
+  MODEL_NOT_ALLOWED: 400,
+  // Plan quota; retryAfter is the window reset
+  QUOTA_EXCEEDED: 429,
+  // The LLM or image provider is throttling us
+  RATE_LIMITED: 429,
+  // The caller is sending too fast, e.g. sign-in links; not a plan quota
+  TOO_MANY_REQUESTS: 429,
+  UPSTREAM_ERROR: 502,
+  UPSTREAM_MALFORMED: 502,
+  UPSTREAM_TIMEOUT: 504,
+  SERVICE_UNAVAILABLE: 503,
+  INTERNAL_ERROR: 500
+};
+
+// The same request may succeed if sent again (after retryAfter, when set)
+const retryableCodes = new Set<ErrorCode>([
+  'RATE_LIMITED', 'TOO_MANY_REQUESTS', 'UPSTREAM_ERROR', 'UPSTREAM_MALFORMED', 'UPSTREAM_TIMEOUT', 'SERVICE_UNAVAILABLE'
+]);
+
+export type ErrorIssue = {
+  path: string;
+  message: string;
+};
+
+export type ErrorBody = {
+  error: string;
+  code: ErrorCode;
+  retryable: boolean;
+  // Seconds
+  retryAfter?: number;
+  issues?: ErrorIssue[];
+  requestId?: string;
+  [detail: string]: unknown;
+};
+
+type ApiErrorOptions = {
+  retryAfter?: number;
+  // Overrides the code's default, e.g. an upstream 400 won't go away
+  retryable?: boolean;
+  // Extra body fields such as `issues` or `plan`
+  details?: Record<string, unknown>;
+  cause?: unknown;
+};
+
+export class ApiError extends Error {
+  readonly code: ErrorCode;
+  readonly status: number;
+  readonly retryable: boolean;
+  readonly retryAfter?: number;
+  readonly details: Record<string, unknown>;
+
+  constructor(code: ErrorCode, message: string, { retryAfter, retryable, details = {}, cause }: ApiErrorOptions = {}) {
+    super(message, { cause });
+    this.name = 'ApiError';
+    this.code = code;
+    this.status = errorStatus[code];
+    this.retryable = retryable ?? retryableCodes.has(code);
+    this.retryAfter = retryAfter;
+    this.details = details;
+  }
+}
+
+export function zodIssues(error: z.ZodError, prefix: (string | number)[] = []): ErrorIssue[] {
+  return error.errors.map(e => ({
+    path: [...prefix, ...e.path].join('.'),
+    message: e.message
+  }));
+}
+
+export function validationError(error: z.ZodError, prefix?: (string | number)[]): ApiError {
+  return new ApiError('VALIDATION_FAILED', 'Validation failed', { details: { issues: zodIssues(error, prefix) } });
+}
+
+const TIMEOUT = /timeout|timed out|aborted/i;
+
+// Seconds from a provider's Retry-After header; SDKs expose headers either
+// as a Headers object or a plain record
+function retryAfterHeader(error: unknown): number | undefined {
+  const headers = (error as { headers?: Headers | Record<string, string> } | null)?.headers;
+  const value = headers instanceof Headers ? headers.get('retry-after') : headers?.['retry-after'];
+  const seconds = Number(value);
+  return value && Number.isFinite(seconds) && seconds >= 0 ? Math.ceil(seconds) : undefined;
+}
+
+// Classifies a failed call to an LLM or image backend. SDK errors carry the
+// upstream status; dropped connections and timeouts only say so in words.
+export function upstreamError(error: unknown, service = 'LLM'): ApiError {
+  if (error instanceof ApiError) return error;
+  const status = (error as { status?: unknown } | null)?.status;
+  const text = error instanceof Error ? `${error.name} ${error.message}` : '';
+
+  if (status === 429) {
+    return new ApiError('RATE_LIMITED', `The ${service} provider is rate limiting requests`, {
+      retryAfter: retryAfterHeader(error) ?? 20,
+      cause: error
+    });
+  }
+  if (status === 408 || TIMEOUT.test(text)) {
+    return new ApiError('UPSTREAM_TIMEOUT', `The ${service} provider timed out`, { retryAfter: 5, cause: error });
+  }
+  // Other 4xx responses mean our request or credentials are wrong
+  const clientError = typeof status === 'number' && status < 500;
+  return new ApiError('UPSTREAM_ERROR', `${service} request failed${typeof status === 'number' ? ` (${status})` : ''}`, {
+    retryable: !clientError,
+    retryAfter: clientError ? undefined : 5,
+    cause: error
+  });
+}
+
+export function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) return error;
+  if (error instanceof z.ZodError) return validationError(error);
+  return new ApiError('INTERNAL_ERROR', 'Something went wrong', { cause: error });
+}
+
+// Also used for error events on streams and per-item failures, which can't
+// carry an HTTP status of their own
+export function errorBody(error: ApiError, requestId?: string): ErrorBody {
+  return {
+    error: error.message,
+    code: error.code,
+    retryable: error.retryable,
+    retryAfter: error.retryAfter,
+    ...error.details,
+    requestId
+  };
+}
+
+// Logs the failure (server faults as errors, rejected requests as info) and
+// builds the response, with Retry-After when there's a hint
+export function errorResponse(
+  error: unknown,
+  { requestId, log }: Pick<RequestContext, 'requestId' | 'log'>,
+  headers: Record<string, string> = {}
+): Response {
+  const apiError = toApiError(error);
+  if (apiError.status >= 500) {
+    log.error('Request failed', { code: apiError.code, error: apiError.cause ?? apiError });
+  } else {
+    log.info('Request rejected', { code: apiError.code, message: apiError.message });
+  }
+
+  return NextResponse.json(errorBody(apiError, requestId), {
+    status: apiError.status,
+    headers: {
+      ...headers,
+      ...(apiError.retryAfter !== undefined && { 'Retry-After': String(apiError.retryAfter) })
+    }
+  });
+}
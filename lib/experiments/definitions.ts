@@ -0,0 +1,50 @@
+// lib/experiments/definitions.ts
+// Experiments are declared here and switched on with the EXPERIMENTS env
+// var (comma-separated IDs). Only one experiment per tool can be active.
+import type { LLMTool, ProviderName } from '@/lib/llm';
+
+export type ExperimentArm = {
+  id: string;
+  weight: number;
+  prompt?: string;
+  provider?: ProviderName;
+  model?: string;
+  temperature?: number;
+};
+
+export type Experiment = {
+  id: string;
+  tool: LLMTool;
+  description: string;
+  arms: ExperimentArm[];
+};
+
+export const experiments: Experiment[] = [
+  {
+    id: 'gen-prompt-v2',
+    tool: 'generate-ad',
+    description: 'Full-brief prompt (v2) against the original prompt (v1)',
+    arms: [
+      { id: 'control', weight: 1, prompt: 'generate-ad/default@1' },
+      { id: 'full-brief', weight: 1, prompt: 'generate-ad/default@2' }
+    ]
+  },
+  {
+    id: 'gen-temperature',
+    tool: 'generate-ad',
+    description: 'Default temperature against more conservative sampling',
+    arms: [
+      { id: 'control', weight: 1 },
+      { id: 'temp-0.4', weight: 1, temperature: 0.4 }
+    ]
+  },
+  {
+    id: 'insp-model',
+    tool: 'inspect-ad',
+    description: 'Default inspector model against gpt-4o-mini',
+    arms: [
+      { id: 'control', weight: 1 },
+      { id: 'gpt-4o-mini', weight: 1, provider: 'openai', model: 'gpt-4o-mini' }
+    ]
+  }
+];
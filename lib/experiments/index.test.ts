@@ -0,0 +1,82 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { generateAdPrompts } from '@/lib/prompts/generate-ad';
+import { assignArm, experimentReport, experiments, getResult, recordResult, submitFeedback, type ExperimentArm } from '.';
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+const servable = (format: string, needs: { brandKit?: boolean; structured?: boolean }) =>
+  (arm: ExperimentArm) => !arm.prompt || generateAdPrompts.supports(arm.prompt, { format, industry: 'General' }, needs);
+
+describe('assignArm', () => {
+  it('sticks the same subject to the same arm', () => {
+    vi.stubEnv('EXPERIMENTS', 'gen-prompt-v2');
+    const first = assignArm('generate-ad', 'ip:203.0.113.7');
+    expect(first?.experiment).toBe('gen-prompt-v2');
+    expect(assignArm('generate-ad', 'ip:203.0.113.7')).toEqual(first);
+  });
+
+  it('returns nothing when no experiment is active for the tool', () => {
+    expect(assignArm('generate-ad', 'ip:203.0.113.7')).toBeUndefined();
+  });
+
+  it('keeps brand kit requests off prompts that ignore the kit', () => {
+    vi.stubEnv('EXPERIMENTS', 'gen-prompt-v2');
+    expect(assignArm('generate-ad', 'ip:203.0.113.7', servable('Single Image', { brandKit: true }))).toBeUndefined();
+    expect(assignArm('generate-ad', 'ip:203.0.113.7', servable('Single Image', {}))).toBeDefined();
+  });
+
+  it('keeps structured formats off prompts that return flat copy', () => {
+    vi.stubEnv('EXPERIMENTS', 'gen-prompt-v2');
+    for (const format of ['Carousel', 'Video', 'Story']) {
+      expect(assignArm('generate-ad', 'ip:203.0.113.7', servable(format, { structured: true }))).toBeUndefined();
+    }
+  });
+
+  it('still assigns arms that pin no prompt', () => {
+    vi.stubEnv('EXPERIMENTS', 'gen-temperature');
+    expect(assignArm('generate-ad', 'ip:203.0.113.7', servable('Carousel', { brandKit: true, structured: true })))
+      .toBeDefined();
+  });
+});
+
+describe('prompt support', () => {
+  it('matches capabilities the request needs', () => {
+    const context = { format: 'Carousel', industry: 'General' };
+    expect(generateAdPrompts.supports('generate-ad/default@5', context, { brandKit: true, structured: true })).toBe(true);
+    expect(generateAdPrompts.supports('generate-ad/default@4', context, { brandKit: true, structured: true })).toBe(false);
+    expect(generateAdPrompts.supports('generate-ad/motion@4', context, {})).toBe(false);
+    expect(generateAdPrompts.supports('generate-ad/default@9', context, {})).toBe(false);
+  });
+});
+
+describe('submitFeedback', () => {
+  const result = (experiment?: { id: string; arm: string }) =>
+    recordResult({ tool: 'generate-ad', prompt: 'generate-ad/default@1', model: 'fixture-v1', cache: 'miss', experiment });
+
+  it('counts concurrent duplicate votes once', async () => {
+    const experiment = experiments.find(e => e.id === 'gen-prompt-v2')!;
+    const before = await experimentReport(experiment);
+    const id = await result({ id: experiment.id, arm: experiment.arms[0].id });
+    const record = (await getResult(id))!;
+
+    const results = await Promise.all([1, 2, 3].map(() => submitFeedback(record, { rating: 'up' })));
+
+    expect(results.filter(duplicates => duplicates.length === 0)).toHaveLength(1);
+    expect(results.flat()).toEqual(['rating', 'rating']);
+    const after = await experimentReport(experiment);
+    expect(after.arms[0].up - before.arms[0].up).toBe(1);
+    expect((await getResult(id))?.feedback).toEqual({ rating: 'up' });
+  });
+
+  it('keeps the other fields of a rejected request open', async () => {
+    const id = await result();
+    expect(await submitFeedback((await getResult(id))!, { rating: 'down' })).toEqual([]);
+
+    const stale = { ...(await getResult(id))!, feedback: {} };
+    expect(await submitFeedback(stale, { rating: 'up', used: true })).toEqual(['rating']);
+    expect(await submitFeedback((await getResult(id))!, { used: true })).toEqual([]);
+    expect((await getResult(id))?.feedback).toEqual({ rating: 'down', used: true });
+  });
+});
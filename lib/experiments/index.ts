@@ -0,0 +1,171 @@
+// lib/experiments/index.ts
+// Assigns requests to experiment arms, records every result under a result
+// ID, and aggregates user feedback per arm in KV.
+import type { LLMTool } from '@/lib/llm';
+import { logger } from '@/lib/logger';
+import { storage } from '@/lib/storage';
+import { experiments, type Experiment, type ExperimentArm } from './definitions';
+
+export type { Experiment, ExperimentArm } from './definitions';
+
+export type Assignment = {
+  experiment: string;
+  arm: ExperimentArm;
+};
+
+export type ResultRecord = {
+  id: string;
+  tool: LLMTool;
+  prompt: string;
+  model: string;
+  cache: 'hit' | 'miss';
+  experiment?: { id: string; arm: string };
+  feedback: {
+    rating?: 'up' | 'down';
+    used?: boolean;
+    ctr?: number;
+  };
+  createdAt: string;
+};
+
+export type Feedback = ResultRecord['feedback'];
+
+const RESULT_TTL = 60 * 60 * 24 * 90; // 90 days to allow CTR reports
+
+export function activeExperiment(tool: LLMTool): Experiment | undefined {
+  const enabled = (process.env.EXPERIMENTS ?? '').split(',').map(id => id.trim());
+  return experiments.find(e => e.tool === tool && enabled.includes(e.id));
+}
+
+// FNV-1a, enough to spread subjects evenly and keep assignment sticky
+function hash(value: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+// The same subject (caller IP) always lands in the same arm. Requests that
+// some arm can't serve (`eligible` is false) stay out of the experiment
+// altogether, so every arm sees the same kind of traffic.
+export function assignArm(
+  tool: LLMTool,
+  subject: string,
+  eligible: (arm: ExperimentArm) => boolean = () => true
+): Assignment | undefined {
+  const experiment = activeExperiment(tool);
+  if (!experiment || !experiment.arms.every(eligible)) return undefined;
+
+  const total = experiment.arms.reduce((sum, arm) => sum + arm.weight, 0);
+  let bucket = (hash(`${experiment.id}:${subject}`) % 10000) / 10000 * total;
+  for (const arm of experiment.arms) {
+    bucket -= arm.weight;
+    if (bucket < 0) return { experiment: experiment.id, arm };
+  }
+  return { experiment: experiment.id, arm: experiment.arms[experiment.arms.length - 1] };
+}
+
+function armKey(experiment: string, arm: string) {
+  return `exp:${experiment}:${arm}`;
+}
+
+export async function recordResult(
+  result: Omit<ResultRecord, 'id' | 'feedback' | 'createdAt'>
+): Promise<string> {
+  const id = crypto.randomUUID();
+  const record: ResultRecord = { ...result, id, feedback: {}, createdAt: new Date().toISOString() };
+
+  await storage.set(`result:${id}`, record, { ex: RESULT_TTL })
+    .catch(error => logger.warn('Result record failed', { error, resultId: id }));
+
+  if (result.experiment) {
+    await storage.hincrby(armKey(result.experiment.id, result.experiment.arm), 'impressions', 1)
+      .catch(error => logger.warn('Impression count failed', { error, experiment: result.experiment }));
+  }
+
+  return id;
+}
+
+export async function getResult(id: string): Promise<ResultRecord | null> {
+  return storage.get<ResultRecord>(`result:${id}`);
+}
+
+// Each kind of feedback is accepted once per result; returns the fields
+// that were already set so the caller can reject duplicates. A marker per
+// result and field is claimed atomically before anything is counted, so
+// concurrent duplicates can't both increment the arm.
+export async function submitFeedback(record: ResultRecord, feedback: Feedback): Promise<string[]> {
+  const fields = (Object.keys(feedback) as (keyof Feedback)[]).filter(field => feedback[field] !== undefined);
+  const recorded = fields.filter(field => record.feedback[field] !== undefined);
+  if (recorded.length) return recorded;
+
+  const token = crypto.randomUUID();
+  const marker = (field: string) => `feedback:${record.id}:${field}`;
+  const claims = await Promise.all(fields.map(field => storage.set(marker(field), token, { nx: true, ex: RESULT_TTL })));
+  const duplicates = fields.filter((_field, i) => claims[i] === null);
+  if (duplicates.length) {
+    // Free this request's other claims so those fields can still be sent
+    const claimed = fields.filter((_field, i) => claims[i] !== null);
+    await Promise.all(claimed.map(field => storage.delIfEquals(marker(field), token)));
+    return duplicates;
+  }
+
+  const current = await getResult(record.id) ?? record;
+  const updated: ResultRecord = { ...current, feedback: { ...current.feedback, ...feedback } };
+  await storage.set(`result:${record.id}`, updated, { keepTtl: true });
+
+  if (record.experiment) {
+    const key = armKey(record.experiment.id, record.experiment.arm);
+    const increments: Promise<unknown>[] = [];
+    if (feedback.rating) increments.push(storage.hincrby(key, feedback.rating, 1));
+    if (feedback.used) increments.push(storage.hincrby(key, 'used', 1));
+    if (feedback.ctr !== undefined) {
+      increments.push(storage.hincrbyfloat(key, 'ctrSum', feedback.ctr), storage.hincrby(key, 'ctrCount', 1));
+    }
+    await Promise.all(increments);
+  }
+
+  return [];
+}
+
+export type ArmReport = {
+  arm: string;
+  impressions: number;
+  up: number;
+  down: number;
+  used: number;
+  winRate: number | null;
+  usedRate: number | null;
+  avgCTR: number | null;
+};
+
+export async function experimentReport(experiment: Experiment) {
+  const arms: ArmReport[] = await Promise.all(experiment.arms.map(async ({ id }) => {
+    const stats = await storage.hgetall<Record<string, number | string>>(armKey(experiment.id, id)) ?? {};
+    const n = (field: string) => Number(stats[field] ?? 0);
+    const rated = n('up') + n('down');
+
+    return {
+      arm: id,
+      impressions: n('impressions'),
+      up: n('up'),
+      down: n('down'),
+      used: n('used'),
+      winRate: rated ? n('up') / rated : null,
+      usedRate: n('impressions') ? n('used') / n('impressions') : null,
+      avgCTR: n('ctrCount') ? n('ctrSum') / n('ctrCount') : null
+    };
+  }));
+
+  return {
+    id: experiment.id,
+    tool: experiment.tool,
+    description: experiment.description,
+    active: activeExperiment(experiment.tool)?.id === experiment.id,
+    arms
+  };
+}
+
+export { experiments };
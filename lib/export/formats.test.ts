@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv } from '@/lib/csv';
+import { ExportAdsInputSchema, type AdVariation, type ExportFormat } from '@/lib/schemas';
+import { exporters } from './formats';
+import type { ExportWarning } from './types';
+
+const ad: AdVariation = {
+  type: 'Benefit',
+  headline: 'Run lighter every morning',
+  primary_text: 'Cushioned trainers built for daily miles.',
+  cta: 'Shop Now'
+};
+
+function render(format: ExportFormat, overrides: Record<string, unknown> = {}) {
+  const input = ExportAdsInputSchema.parse({ format, ads: [ad], finalUrl: 'https://example.com', ...overrides });
+  const warnings: ExportWarning[] = [];
+  const content = exporters[format].render(input, warning => warnings.push(warning));
+  return { content, warnings };
+}
+
+describe('meta-csv', () => {
+  it('maps the CTA to a Meta button type', () => {
+    const { content, warnings } = render('meta-csv');
+    expect(parseCsv(content)).toEqual([
+      ['Campaign Name', 'Ad Set Name', 'Ad Name', 'Title', 'Body', 'Call to Action', 'Link'],
+      ['Generated Ads', 'Ad Group 1', 'Benefit 1', ad.headline, ad.primary_text, 'SHOP_NOW', 'https://example.com']
+    ]);
+    expect(warnings).toEqual([]);
+  });
+
+  it('falls back to LEARN_MORE and reports long copy without truncating it', () => {
+    const long = { ...ad, headline: 'H'.repeat(45), cta: 'Buy it' };
+    const { content, warnings } = render('meta-csv', { ads: [long] });
+    const [, row] = parseCsv(content);
+    expect(row[3]).toBe(long.headline);
+    expect(row[5]).toBe('LEARN_MORE');
+    expect(warnings.map(w => [w.field, w.truncated])).toEqual([['Title', false], ['Call to Action', false]]);
+  });
+});
+
+describe('google-ads-csv', () => {
+  it('splits plain copy into assets and truncates over-long ones at a word boundary', () => {
+    const copy = {
+      ...ad,
+      headline: 'Run lighter | Cushioned daily trainers for every single runner | Free returns',
+      primary_text: 'Built for daily miles.\nOrder today.'
+    };
+    const { content, warnings } = render('google-ads-csv', { ads: [copy] });
+    const [header, row] = parseCsv(content);
+    const cell = (name: string) => row[header.indexOf(name)];
+
+    expect(cell('Headline 1')).toBe('Run lighter');
+    expect(cell('Headline 2')).toBe('Cushioned daily trainers for');
+    expect(cell('Headline 3')).toBe('Free returns');
+    expect(cell('Description 2')).toBe('Order today.');
+    expect(cell('Final URL')).toBe('https://example.com');
+    expect(warnings).toEqual([expect.objectContaining({ field: 'Headline 2', limit: 30, truncated: true })]);
+  });
+
+  it('exports pins and warns when there are too few assets or no final URL', () => {
+    const pinned = {
+      ...ad,
+      assets: { headlines: [{ text: 'Run lighter', pinned: 1 }], descriptions: [{ text: 'Daily miles.' }] }
+    };
+    const { content, warnings } = render('google-ads-csv', { ads: [pinned], finalUrl: undefined });
+    const [header, row] = parseCsv(content);
+    expect(row[header.indexOf('Headline 1 position')]).toBe('1');
+    expect(warnings.map(w => w.field)).toEqual(['Assets', 'Final URL']);
+  });
+});
+
+describe('google-ads-csv widths', () => {
+  it('counts full-width characters as 2 for CJK locales', () => {
+    const japanese = {
+      ...ad,
+      assets: {
+        headlines: [{ text: 'ランニングシューズを毎日もっと軽やかに' }, { text: '毎日の走りに' }, { text: '送料無料' }],
+        descriptions: [{ text: '毎日の距離のために作られたクッション性の高いトレーナー。' }, { text: '今すぐ注文。' }]
+      }
+    };
+    const { content, warnings } = render('google-ads-csv', { ads: [japanese], locale: 'ja-JP' });
+    const [header, row] = parseCsv(content);
+
+    expect(row[header.indexOf('Headline 1')]).toBe('ランニングシューズを毎日もっと');
+    expect(row[header.indexOf('Headline 2')]).toBe('毎日の走りに');
+    expect(warnings).toEqual([expect.objectContaining({ field: 'Headline 1', limit: 30, actual: 38, truncated: true })]);
+  });
+
+  it('counts plain characters without a locale', () => {
+    const { warnings } = render('google-ads-csv', { ads: [{ ...ad, headline: 'ランニングシューズを毎日もっと軽やかに | 毎日 | 送料無料' }] });
+    expect(warnings.filter(w => w.truncated)).toEqual([]);
+  });
+});
+
+describe('google-ads-csv display ads', () => {
+  it('writes a Responsive display ad row with long headline, business name and five descriptions', () => {
+    const display = {
+      ...ad,
+      assets: {
+        headlines: [{ text: 'Run lighter' }, { text: 'Daily trainers' }],
+        longHeadline: 'Cushioned trainers built for daily miles',
+        descriptions: Array.from({ length: 5 }, (_, i) => ({ text: `Free returns, reason ${i + 1}.` })),
+        businessName: 'Stride Co'
+      }
+    };
+    const { content, warnings } = render('google-ads-csv', { ads: [display, ad] });
+    const [header, row, search] = parseCsv(content);
+    const cell = (name: string, values = row) => values[header.indexOf(name)];
+
+    expect(cell('Ad type')).toBe('Responsive display ad');
+    expect(cell('Headline 2')).toBe('Daily trainers');
+    expect(cell('Long headline')).toBe(display.assets.longHeadline);
+    expect(cell('Description 5')).toBe('Free returns, reason 5.');
+    expect(cell('Business name')).toBe('Stride Co');
+    expect(cell('Ad type', search)).toBe('Responsive search ad');
+    expect(cell('Long headline', search)).toBe('');
+    expect(warnings.map(w => [w.ad, w.field])).toContainEqual([1, 'Images']);
+  });
+});
+
+describe('json and markdown', () => {
+  it('serializes the campaign and every ad', () => {
+    const { content } = render('json', { campaignName: 'Spring' });
+    expect(JSON.parse(content)).toEqual({ campaign: 'Spring', adGroup: 'Ad Group 1', finalUrl: 'https://example.com', ads: [ad] });
+  });
+
+  it('renders one section per ad', () => {
+    const { content } = render('markdown');
+    expect(content).toContain('# Generated Ads');
+    expect(content).toContain('## 1. Benefit');
+    expect(content).toContain(`**Headline:** ${ad.headline}`);
+    expect(content).toContain('**CTA:** Shop Now');
+  });
+});
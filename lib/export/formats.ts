@@ -0,0 +1,208 @@
+// lib/export/formats.ts
+// Upload formats. Column names follow the Meta Ads Manager bulk import
+// template and the Google Ads Editor CSV import for Responsive Search and
+// Responsive Display Ads.
+import { toCsv } from '@/lib/csv';
+import { splitAssets } from '@/lib/lint';
+import { textWidth, type Locale } from '@/lib/locales';
+import type { AdAsset, AdVariation, ExportFormat } from '@/lib/schemas';
+import type { Exporter, ExportWarning } from './types';
+
+type Warn = (warning: ExportWarning) => void;
+
+// Cuts at the last word boundary that fits, or mid-word if there is none.
+// With a locale, widths count the way Google does (full-width CJK as 2);
+// Meta counts plain characters, so its columns pass none.
+function truncate(text: string, limit: number, locale?: Locale): string {
+  if (textWidth(text, locale) <= limit) return text;
+  let fits = 0;
+  while (textWidth(text.slice(0, fits + 1), locale) <= limit) fits++;
+  const cut = text.slice(0, fits + 1);
+  const space = cut.lastIndexOf(' ');
+  return (space > fits / 2 ? cut.slice(0, space) : text.slice(0, fits)).trimEnd();
+}
+
+function hardLimit(warn: Warn, ad: number, field: string, text: string, limit: number, locale?: Locale): string {
+  const width = textWidth(text, locale);
+  if (width <= limit) return text;
+  warn({
+    ad,
+    field,
+    message: `${field} is ${width} characters (limit ${limit}); truncated`,
+    limit,
+    actual: width,
+    truncated: true
+  });
+  return truncate(text, limit, locale);
+}
+
+function softLimit(warn: Warn, ad: number, field: string, text: string, limit: number, note: string, locale?: Locale) {
+  const width = textWidth(text, locale);
+  if (width <= limit) return;
+  warn({ ad, field, message: `${field} is ${width} characters; ${note} after ${limit}`, limit, actual: width, truncated: false });
+}
+
+// Meta's call_to_action_type values for the button labels it supports
+const META_CTA_TYPES: Record<string, string> = {
+  'shop now': 'SHOP_NOW',
+  'learn more': 'LEARN_MORE',
+  'sign up': 'SIGN_UP',
+  'book now': 'BOOK_TRAVEL',
+  'get offer': 'GET_OFFER',
+  'claim discount': 'GET_OFFER',
+  'download': 'DOWNLOAD',
+  'contact us': 'CONTACT_US',
+  'apply now': 'APPLY_NOW',
+  'subscribe': 'SUBSCRIBE',
+  'get quote': 'GET_QUOTE',
+  'order now': 'ORDER_NOW',
+  'see menu': 'SEE_MENU',
+  'watch more': 'WATCH_MORE',
+  'send message': 'MESSAGE_PAGE'
+};
+
+const metaCsv: Exporter = {
+  extension: 'csv',
+  contentType: 'text/csv; charset=utf-8',
+  render(input, warn) {
+    const header = ['Campaign Name', 'Ad Set Name', 'Ad Name', 'Title', 'Body', 'Call to Action', 'Link'];
+    const rows = input.ads.map((ad, i) => {
+      const n = i + 1;
+      softLimit(warn, n, 'Title', ad.headline, 40, 'Meta truncates it in feed');
+      softLimit(warn, n, 'Body', ad.primary_text, 125, 'Meta truncates it in feed');
+
+      if (ad.cards || ad.script || ad.frames) {
+        warn({ ad: n, field: 'Creative', message: 'Carousel cards, video scripts and story frames are not part of the import; build the creative in Ads Manager', truncated: false });
+      }
+
+      const cta = META_CTA_TYPES[ad.cta.trim().toLowerCase()];
+      if (!cta) {
+        warn({ ad: n, field: 'Call to Action', message: `"${ad.cta}" is not a Meta button; exported as LEARN_MORE`, truncated: false });
+      }
+      return [
+        input.campaignName, input.adGroupName, `${ad.type} ${n}`,
+        ad.headline, ad.primary_text, cta ?? 'LEARN_MORE', input.finalUrl
+      ];
+    });
+    return toCsv(header, rows);
+  }
+};
+
+const RSA_HEADLINES = 15;
+const RSA_DESCRIPTIONS = 4;
+const RDA_HEADLINES = 5;
+const RDA_DESCRIPTIONS = 5;
+
+// Generated Google variations carry their assets and pins; other copy may
+// separate assets by "|" or newlines, as the linter expects
+function searchAssets(ad: AdVariation): { headlines: AdAsset[]; descriptions: AdAsset[] } {
+  if (ad.assets) return ad.assets;
+  const plain = (text: string) => splitAssets(text).map(asset => ({ text: asset }));
+  return { headlines: plain(ad.headline), descriptions: plain(ad.primary_text) };
+}
+
+// Display variations are the ones with a long headline or business name
+function isDisplayAd(ad: AdVariation): boolean {
+  return !!(ad.assets?.longHeadline || ad.assets?.businessName);
+}
+
+// One Responsive Search Ad or Responsive Display Ad per variation. Both ad
+// types share the file, each leaving the other's columns empty.
+const googleAdsCsv: Exporter = {
+  extension: 'csv',
+  contentType: 'text/csv; charset=utf-8',
+  render(input, warn) {
+    const header = [
+      'Campaign', 'Ad group', 'Ad type',
+      ...Array.from({ length: RSA_HEADLINES }, (_, i) => [`Headline ${i + 1}`, `Headline ${i + 1} position`]).flat(),
+      'Long headline',
+      ...Array.from({ length: RDA_DESCRIPTIONS }, (_, i) => [`Description ${i + 1}`, `Description ${i + 1} position`]).flat(),
+      'Business name',
+      'Final URL'
+    ];
+
+    const rows = input.ads.map((ad, i) => {
+      const n = i + 1;
+      const display = isDisplayAd(ad);
+      const { headlines, descriptions } = searchAssets(ad);
+      const [maxHeadlines, maxDescriptions] = display ? [RDA_HEADLINES, RDA_DESCRIPTIONS] : [RSA_HEADLINES, RSA_DESCRIPTIONS];
+
+      if (headlines.length > maxHeadlines || descriptions.length > maxDescriptions) {
+        warn({ ad: n, field: 'Assets', message: `Only the first ${maxHeadlines} headlines and ${maxDescriptions} descriptions are exported`, truncated: true });
+      }
+      if (display) {
+        if (!ad.assets?.longHeadline || !ad.assets.businessName) {
+          warn({ ad: n, field: 'Assets', message: 'Responsive Display Ads need a long headline and a business name', truncated: false });
+        }
+        warn({ ad: n, field: 'Images', message: 'Images and logos are not part of the import; add them in Google Ads Editor', truncated: false });
+      } else if (headlines.length < 3 || descriptions.length < 2) {
+        warn({ ad: n, field: 'Assets', message: 'Responsive Search Ads need at least 3 headlines and 2 descriptions', truncated: false });
+      }
+      if (!input.finalUrl) {
+        warn({ ad: n, field: 'Final URL', message: 'Google Ads Editor requires a final URL before posting', truncated: false });
+      }
+
+      // Display assets can't be pinned, so their position columns stay empty
+      const slots = (values: AdAsset[], used: number, count: number, field: string, limit: number) =>
+        Array.from({ length: count }, (_, j) => values[j] && j < used
+          ? [hardLimit(warn, n, `${field} ${j + 1}`, values[j].text, limit, input.locale), display ? '' : values[j].pinned ?? '']
+          : ['', '']).flat();
+      const single = (value: string | undefined, field: string, limit: number) =>
+        display && value ? hardLimit(warn, n, field, value, limit, input.locale) : '';
+
+      return [
+        input.campaignName, input.adGroupName, display ? 'Responsive display ad' : 'Responsive search ad',
+        ...slots(headlines, maxHeadlines, RSA_HEADLINES, 'Headline', 30),
+        single(ad.assets?.longHeadline, 'Long headline', 90),
+        ...slots(descriptions, maxDescriptions, RDA_DESCRIPTIONS, 'Description', 90),
+        single(ad.assets?.businessName, 'Business name', 25),
+        input.finalUrl
+      ];
+    });
+    return toCsv(header, rows);
+  }
+};
+
+const json: Exporter = {
+  extension: 'json',
+  contentType: 'application/json',
+  render: input => JSON.stringify({
+    campaign: input.campaignName,
+    adGroup: input.adGroupName,
+    finalUrl: input.finalUrl,
+    ads: input.ads
+  }, null, 2) + '\n'
+};
+
+const markdown: Exporter = {
+  extension: 'md',
+  contentType: 'text/markdown; charset=utf-8',
+  render: input => [
+    `# ${input.campaignName}`,
+    ...input.ads.map((ad, i) => [
+      `## ${i + 1}. ${ad.type}`,
+      `**Headline:** ${ad.headline}`,
+      ad.assets?.longHeadline && `**Long headline:** ${ad.assets.longHeadline}`,
+      ad.assets?.businessName && `**Business name:** ${ad.assets.businessName}`,
+      ad.primary_text,
+      `**CTA:** ${ad.cta}`,
+      ad.cards && ad.cards.map((card, j) => `${j + 1}. **${card.headline}**: ${card.description} (visual: ${card.visual})`).join('\n'),
+      ad.script && [
+        `**Hook:** ${ad.script.hook} (${ad.script.durationSeconds}s)`,
+        ad.script.scenes.map(scene =>
+          `- ${scene.start}-${scene.end}s: ${scene.visual}${scene.onScreenText ? ` / text: "${scene.onScreenText}"` : ''}${scene.voiceover ? ` / VO: "${scene.voiceover}"` : ''}`
+        ).join('\n')
+      ].join('\n\n'),
+      ad.frames && ad.frames.map((frame, j) => `${j + 1}. (${frame.durationSeconds}s) ${frame.visual}${frame.text ? `: "${frame.text}"` : ''}`).join('\n'),
+      ad.visual_suggestion && `**Visual:** ${ad.visual_suggestion}`,
+      ad.counters && `**Counters ${ad.counters.competitor}:** "${ad.counters.claim}" (${ad.counters.rationale})`
+    ].filter(Boolean).join('\n\n'))
+  ].join('\n\n') + '\n'
+};
+
+export const exporters: Record<ExportFormat, Exporter> = {
+  'meta-csv': metaCsv,
+  'google-ads-csv': googleAdsCsv,
+  json,
+  markdown
+};
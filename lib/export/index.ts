@@ -0,0 +1,26 @@
+// lib/export/index.ts
+// Turns generated variations into files for platform bulk upload or for
+// sharing. Field lengths are checked as the file is written.
+import type { ExportAdsInput } from '@/lib/schemas';
+import { exporters } from './formats';
+import type { ExportFile, ExportWarning } from './types';
+
+export type * from './types';
+
+function slug(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'ads';
+}
+
+export function exportAds(input: ExportAdsInput): ExportFile {
+  const exporter = exporters[input.format];
+  const warnings: ExportWarning[] = [];
+  const content = exporter.render(input, warning => warnings.push(warning));
+
+  return {
+    format: input.format,
+    filename: `${slug(input.campaignName)}-${input.format}.${exporter.extension}`,
+    contentType: exporter.contentType,
+    content,
+    warnings
+  };
+}
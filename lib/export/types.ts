@@ -0,0 +1,26 @@
+import type { ExportAdsInput, ExportFormat } from '@/lib/schemas';
+
+// A field that is over a platform limit. Hard limits are truncated in the
+// file; soft ones (Meta feed truncation) are only reported.
+export type ExportWarning = {
+  ad: number;
+  field: string;
+  message: string;
+  limit?: number;
+  actual?: number;
+  truncated: boolean;
+};
+
+export type ExportFile = {
+  format: ExportFormat;
+  filename: string;
+  contentType: string;
+  content: string;
+  warnings: ExportWarning[];
+};
+
+export type Exporter = {
+  extension: string;
+  contentType: string;
+  render: (input: ExportAdsInput, warn: (warning: ExportWarning) => void) => string;
+};
@@ -0,0 +1,109 @@
+// lib/health.ts
+// Liveness and readiness reports. Readiness probes storage and the default
+// LLM provider with a timeout each; neither probe writes data or generates
+// tokens. Details name backends and models, so only callers with
+// HEALTH_TOKEN or ADMIN_TOKEN see them.
+import packageJson from '@/package.json';
+import { isAdminRequest } from '@/lib/admin';
+import { defaultProviderName, getProvider } from '@/lib/llm';
+import { storage, storageBackendName } from '@/lib/storage';
+
+export type HealthStatus = 'ok' | 'fail';
+
+export type CheckResult = {
+  status: HealthStatus;
+  latencyMs: number;
+  // What was probed, e.g. the storage backend or provider/model
+  target: string;
+  error?: string;
+};
+
+export type VersionInfo = {
+  version: string;
+  commit: string | null;
+  environment: string;
+};
+
+export type HealthReport = {
+  status: HealthStatus;
+  checkedAt: string;
+  version?: VersionInfo;
+  checks?: Record<string, CheckResult>;
+};
+
+const STORAGE_TIMEOUT_MS = 2000;
+const LLM_TIMEOUT_MS = 5000;
+
+export function versionInfo(): VersionInfo {
+  return {
+    version: packageJson.version,
+    commit: process.env.VERCEL_GIT_COMMIT_SHA?.slice(0, 12) ?? null,
+    environment: process.env.VERCEL_ENV ?? process.env.NODE_ENV ?? 'development'
+  };
+}
+
+export function canViewHealthDetails(request: Request): boolean {
+  const token = process.env.HEALTH_TOKEN;
+  if (token && request.headers.get('authorization') === `Bearer ${token}`) return true;
+  return isAdminRequest(request);
+}
+
+async function probe(timeoutMs: number, check: () => Promise<unknown>): Promise<Omit<CheckResult, 'target'>> {
+  const started = Date.now();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    await Promise.race([
+      check(),
+      new Promise((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs}ms`)), timeoutMs);
+      })
+    ]);
+    return { status: 'ok', latencyMs: Date.now() - started };
+  } catch (error) {
+    return {
+      status: 'fail',
+      latencyMs: Date.now() - started,
+      error: error instanceof Error ? error.message : 'Check failed'
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// A read of a key that is never written proves the backend answers
+async function checkStorage(): Promise<CheckResult> {
+  const result = await probe(STORAGE_TIMEOUT_MS, () => storage.get('health:probe'));
+  return { ...result, target: storageBackendName() };
+}
+
+async function checkLLM(): Promise<CheckResult> {
+  const name = defaultProviderName();
+  let target: string = name;
+  const result = await probe(LLM_TIMEOUT_MS, async () => {
+    const provider = getProvider(name);
+    target = `${name}/${provider.defaultModel}`;
+    await provider.ping();
+  });
+  return { ...result, target };
+}
+
+export async function readiness(): Promise<HealthReport> {
+  const [storageCheck, llmCheck] = await Promise.all([checkStorage(), checkLLM()]);
+  const checks = { storage: storageCheck, llm: llmCheck };
+  return {
+    status: Object.values(checks).every(check => check.status === 'ok') ? 'ok' : 'fail',
+    checkedAt: new Date().toISOString(),
+    version: versionInfo(),
+    checks
+  };
+}
+
+// The process is up; says nothing about its dependencies
+export function liveness(): HealthReport {
+  return { status: 'ok', checkedAt: new Date().toISOString(), version: versionInfo() };
+}
+
+// Public callers get the status alone
+export function redactReport(report: HealthReport): HealthReport {
+  return { status: report.status, checkedAt: report.checkedAt };
+}
@@ -0,0 +1,97 @@
+// lib/history.ts
+// Saved generations and inspections for signed-in users. Entries live under
+// history:<id>; a per-user sorted set (scored by creation time) indexes them.
+import type { LLMTool } from '@/lib/llm';
+import { logger } from '@/lib/logger';
+import { storage } from '@/lib/storage';
+
+export type HistoryEntry = {
+  id: string;
+  userId: string;
+  tool: LLMTool;
+  input: unknown;
+  output: unknown;
+  meta: Record<string, unknown>;
+  createdAt: string;
+};
+
+export type HistorySummary = Pick<HistoryEntry, 'id' | 'tool' | 'createdAt'> & {
+  title: string;
+};
+
+function indexKey(userId: string) {
+  return `history-index:${userId}`;
+}
+
+// Short label for list views without loading full outputs client-side
+function summarize(entry: HistoryEntry): HistorySummary {
+  const input = entry.input as Record<string, string | undefined>;
+  const title = entry.tool === 'generate-ad'
+    ? `${input.adFormat ?? 'Ad'} for ${input.targetAudience ?? 'unknown audience'}`
+    : entry.tool === 'refine-ad'
+      ? `Refined "${input.headline ?? 'ad'}"`
+      : entry.tool === 'localize-ad'
+        ? `Localized "${input.headline ?? 'ad'}" into ${input.locales ?? 'other locales'}`
+        : input.headline ?? 'Ad inspection';
+  return { id: entry.id, tool: entry.tool, createdAt: entry.createdAt, title };
+}
+
+export async function saveHistory(entry: Omit<HistoryEntry, 'id' | 'createdAt'>): Promise<string> {
+  const now = Date.now();
+  const record: HistoryEntry = { ...entry, id: crypto.randomUUID(), createdAt: new Date(now).toISOString() };
+  await Promise.all([
+    storage.set(`history:${record.id}`, record),
+    storage.zadd(indexKey(entry.userId), { score: now, member: record.id })
+  ]);
+  return record.id;
+}
+
+// Route helper: anonymous callers have no history, and a failed history
+// write must never fail the request that produced the result.
+export async function recordHistory(
+  userId: string | undefined,
+  entry: Omit<HistoryEntry, 'id' | 'createdAt' | 'userId'>
+): Promise<string | undefined> {
+  if (!userId) return undefined;
+  return saveHistory({ ...entry, userId }).catch(error => {
+    logger.warn('History save failed', { error, tool: entry.tool });
+    return undefined;
+  });
+}
+
+// Newest first; `before` is the createdAt timestamp (ms) of the last item seen
+export async function listHistory(
+  userId: string,
+  { limit = 20, before }: { limit?: number; before?: number } = {}
+): Promise<{ entries: HistorySummary[]; nextBefore: number | null }> {
+  const ids = await storage.zrange(indexKey(userId), before ? `(${before}` : '+inf', '-inf', {
+    byScore: true,
+    rev: true,
+    offset: 0,
+    count: limit
+  });
+  const entries = (await Promise.all(ids.map(id => storage.get<HistoryEntry>(`history:${id}`))))
+    .filter((e): e is HistoryEntry => !!e);
+
+  const last = entries[entries.length - 1];
+  return {
+    entries: entries.map(summarize),
+    nextBefore: entries.length === limit && last ? new Date(last.createdAt).getTime() : null
+  };
+}
+
+// Entries are only visible to their owner
+export async function getHistory(userId: string, id: string): Promise<HistoryEntry | null> {
+  const entry = await storage.get<HistoryEntry>(`history:${id}`);
+  return entry?.userId === userId ? entry : null;
+}
+
+export async function deleteHistory(userId: string, id: string): Promise<boolean> {
+  const entry = await getHistory(userId, id);
+  if (!entry) return false;
+  await Promise.all([
+    storage.del(`history:${id}`),
+    storage.zrem(indexKey(userId), id)
+  ]);
+  return true;
+}
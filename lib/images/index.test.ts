@@ -0,0 +1,18 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { resolveImageProvider } from '.';
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('resolveImageProvider', () => {
+  it("only allows the provider's default model when no allowlist is set", () => {
+    expect(resolveImageProvider({ model: 'svg-mockup-v1' }).model).toBe('svg-mockup-v1');
+    expect(() => resolveImageProvider({ model: 'dall-e-3' })).toThrow(/not allowed/);
+  });
+
+  it('allows the models listed in IMAGE_ALLOWED_MODELS', () => {
+    vi.stubEnv('IMAGE_ALLOWED_MODELS', 'dall-e-3');
+    expect(resolveImageProvider({ model: 'dall-e-3' }).model).toBe('dall-e-3');
+  });
+});
@@ -0,0 +1,78 @@
+// lib/images/index.ts
+// Image backend selection: IMAGE_PROVIDER picks the default, and a request
+// may override provider/model through the optional `image` field. The
+// placeholder renderer is the default so drafts work without an API key.
+import { z } from 'zod';
+import { ApiError } from '@/lib/errors';
+import type { GenerateImageInput } from '@/lib/schemas';
+import { createOpenAIImageProvider } from './openai';
+import { createPlaceholderProvider } from './placeholder';
+import type { ImageProvider } from './types';
+
+export type * from './types';
+
+export const imageProviderNames = ["openai", "placeholder"] as const;
+export type ImageProviderName = typeof imageProviderNames[number];
+
+export const ImageSelectionSchema = z.object({
+  provider: z.enum(imageProviderNames).optional(),
+  model: z.string().min(1).max(64).optional()
+});
+export type ImageSelection = z.infer<typeof ImageSelectionSchema>;
+
+const instances = new Map<ImageProviderName, ImageProvider>();
+
+function buildProvider(name: ImageProviderName): ImageProvider {
+  switch (name) {
+    case 'openai':
+      if (!process.env.OPENAI_API_KEY) {
+        throw new Error('OpenAI client configuration error');
+      }
+      return createOpenAIImageProvider({
+        apiKey: process.env.OPENAI_API_KEY,
+        defaultModel: process.env.OPENAI_IMAGE_MODEL || 'gpt-image-1'
+      });
+    case 'placeholder':
+      return createPlaceholderProvider();
+  }
+}
+
+export function getImageProvider(name?: ImageProviderName): ImageProvider {
+  const resolved = name || defaultImageProviderName();
+  let provider = instances.get(resolved);
+  if (!provider) {
+    provider = buildProvider(resolved);
+    instances.set(resolved, provider);
+  }
+  return provider;
+}
+
+export function defaultImageProviderName(): ImageProviderName {
+  const configured = process.env.IMAGE_PROVIDER as ImageProviderName | undefined;
+  return configured && imageProviderNames.includes(configured) ? configured : 'placeholder';
+}
+
+// Resolve the provider and concrete model for a request. A requested model
+// must be in IMAGE_ALLOWED_MODELS, or be the provider's default when that
+// list isn't set.
+export function resolveImageProvider(selection?: ImageSelection): { provider: ImageProvider; model: string } {
+  const provider = getImageProvider(selection?.provider);
+  const model = selection?.model || provider.defaultModel;
+
+  const configured = process.env.IMAGE_ALLOWED_MODELS?.split(',').map(m => m.trim()).filter(Boolean);
+  const allowed = configured?.length ? configured : [provider.defaultModel];
+  if (selection?.model && !allowed.includes(model)) {
+    throw new ApiError('MODEL_NOT_ALLOWED', `Model "${model}" is not allowed`);
+  }
+
+  return { provider, model };
+}
+
+// Scene description for the renderer. Text in generated images is rarely
+// legible, so real backends are asked to leave room for the headline instead.
+export function imagePrompt(input: Pick<GenerateImageInput, 'visualSuggestion' | 'visualDirection' | 'adFormat'>): string {
+  return [
+    `${input.visualDirection} advertising photo for a ${input.adFormat} ad: ${input.visualSuggestion}.`,
+    'No text, logos or watermarks; leave clear space in the lower third for a headline overlay.'
+  ].join(' ');
+}
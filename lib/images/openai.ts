@@ -0,0 +1,53 @@
+// lib/images/openai.ts
+import OpenAI from 'openai';
+import type { AspectRatio } from '@/lib/schemas';
+import type { ImageProvider, ImageRequest, ImageResult } from './types';
+
+type OpenAIImageProviderOptions = {
+  apiKey: string;
+  defaultModel: string;
+  timeout?: number;
+};
+
+// gpt-image-1 has no 4:5 or 9:16 size, so portrait placements get the
+// nearest portrait canvas and are cropped when placed
+const SIZES: Record<AspectRatio, { size: '1024x1024' | '1024x1536'; width: number; height: number }> = {
+  '1:1': { size: '1024x1024', width: 1024, height: 1024 },
+  '4:5': { size: '1024x1536', width: 1024, height: 1536 },
+  '9:16': { size: '1024x1536', width: 1024, height: 1536 }
+};
+
+export function createOpenAIImageProvider(options: OpenAIImageProviderOptions): ImageProvider {
+  const client = new OpenAI({
+    apiKey: options.apiKey,
+    timeout: options.timeout ?? 60000
+  });
+
+  return {
+    name: 'openai',
+    defaultModel: options.defaultModel,
+
+    async generate(request: ImageRequest): Promise<ImageResult> {
+      const model = request.model || options.defaultModel;
+      const { size, width, height } = SIZES[request.aspectRatio];
+
+      const response = await client.images.generate({
+        model,
+        prompt: request.prompt,
+        n: request.count,
+        size
+      });
+
+      return {
+        images: (response.data ?? []).map(image => ({
+          url: image.b64_json ? `data:image/png;base64,${image.b64_json}` : image.url ?? '',
+          mimeType: 'image/png',
+          width,
+          height
+        })).filter(image => image.url),
+        provider: 'openai',
+        model
+      };
+    }
+  };
+}
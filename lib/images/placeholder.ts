@@ -0,0 +1,96 @@
+// lib/images/placeholder.ts
+// Offline renderer for development and CI: an SVG mockup of the creative
+// with the visual suggestion as the scene and the headline overlaid. Output
+// is deterministic for a given request.
+import type { AspectRatio } from '@/lib/schemas';
+import type { GeneratedImage, ImageProvider, ImageRequest, ImageResult } from './types';
+
+const DIMENSIONS: Record<AspectRatio, { width: number; height: number }> = {
+  '1:1': { width: 1080, height: 1080 },
+  '4:5': { width: 1080, height: 1350 },
+  '9:16': { width: 1080, height: 1920 }
+};
+
+// Background gradient per visual direction so drafts are easy to tell apart
+const PALETTES: Record<ImageRequest['visualDirection'], [string, string]> = {
+  'Lifestyle': ['#f59e0b', '#ef4444'],
+  'Product Close-Up': ['#0ea5e9', '#6366f1'],
+  'Before/After': ['#10b981', '#0f766e'],
+  'User-Generated': ['#ec4899', '#8b5cf6'],
+  'Infographic': ['#64748b', '#1e293b']
+};
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"']/g, c => `&#${c.charCodeAt(0)};`);
+}
+
+// Greedy word wrap by character count; close enough for a mockup
+function wrap(text: string, perLine: number, maxLines: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (line && line.length + word.length + 1 > perLine) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+  if (lines.length > maxLines) {
+    lines.length = maxLines;
+    lines[maxLines - 1] = `${lines[maxLines - 1].slice(0, perLine - 1)}…`;
+  }
+  return lines;
+}
+
+function textBlock(lines: string[], x: number, y: number, size: number, attrs: string): string {
+  return lines
+    .map((line, i) => `<text x="${x}" y="${y + i * size * 1.25}" font-size="${size}" ${attrs}>${escapeXml(line)}</text>`)
+    .join('');
+}
+
+function renderSvg(request: ImageRequest, variant: number): GeneratedImage {
+  const { width, height } = DIMENSIONS[request.aspectRatio];
+  const [from, to] = PALETTES[request.visualDirection];
+  const font = 'font-family="Helvetica, Arial, sans-serif" text-anchor="middle"';
+  const scene = wrap(request.scene, 36, 8);
+  const headline = request.headline ? wrap(request.headline, 22, 3) : [];
+  const band = headline.length * 72 + 96;
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `<defs><linearGradient id="bg" x1="0" y1="0" x2="1" y2="1"><stop offset="0" stop-color="${from}"/><stop offset="1" stop-color="${to}"/></linearGradient></defs>`,
+    `<rect width="${width}" height="${height}" fill="url(#bg)"/>`,
+    `<rect x="60" y="60" width="${width - 120}" height="${height - 120 - band}" rx="24" fill="#ffffff" fill-opacity="0.15" stroke="#ffffff" stroke-opacity="0.6" stroke-dasharray="16 12" stroke-width="4"/>`,
+    textBlock([`${request.visualDirection} · ${request.aspectRatio} · draft ${variant + 1}`], width / 2, 130, 32, `${font} fill="#ffffff" fill-opacity="0.8"`),
+    textBlock(scene, width / 2, (height - band) / 2 - (scene.length - 1) * 25, 40, `${font} fill="#ffffff"`),
+    headline.length
+      ? `<rect y="${height - band}" width="${width}" height="${band}" fill="#000000" fill-opacity="0.55"/>` +
+        textBlock(headline, width / 2, height - band + 96, 64, `${font} font-weight="bold" fill="#ffffff"`)
+      : '',
+    '</svg>'
+  ].join('');
+
+  return {
+    url: `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`,
+    mimeType: 'image/svg+xml',
+    width,
+    height
+  };
+}
+
+export function createPlaceholderProvider(): ImageProvider {
+  return {
+    name: 'placeholder',
+    defaultModel: 'svg-mockup-v1',
+
+    async generate(request: ImageRequest): Promise<ImageResult> {
+      return {
+        images: Array.from({ length: request.count }, (_, i) => renderSvg(request, i)),
+        provider: 'placeholder',
+        model: request.model || 'svg-mockup-v1'
+      };
+    }
+  };
+}
@@ -0,0 +1,34 @@
+// lib/images/types.ts
+// Shared contract between the image route and every image backend.
+import type { AspectRatio, GenerateImageInput } from '@/lib/schemas';
+
+export type ImageRequest = {
+  prompt: string;
+  aspectRatio: AspectRatio;
+  count: number;
+  // Only renderers that draw text use these
+  scene: string;
+  headline?: string;
+  visualDirection: GenerateImageInput['visualDirection'];
+  model?: string;
+};
+
+// `url` is a data: URL for rendered output or the backend's hosted URL
+export type GeneratedImage = {
+  url: string;
+  mimeType: string;
+  width: number;
+  height: number;
+};
+
+export type ImageResult = {
+  images: GeneratedImage[];
+  provider: string;
+  model: string;
+};
+
+export interface ImageProvider {
+  name: string;
+  defaultModel: string;
+  generate(request: ImageRequest): Promise<ImageResult>;
+}
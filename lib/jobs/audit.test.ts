@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { lintAd } from '@/lib/lint';
+import type { AdAnalysis } from '@/lib/schemas';
+import { buildAuditReport, renderAuditHtml } from './audit';
+import type { AuditInput, InspectionJob, InspectionOutput, JobRow } from './types';
+
+const caller = { id: 'key:audit', plan: 'internal' as const, ip: '127.0.0.1' };
+
+const input = (headline: string, adId?: string): AuditInput => ({
+  headline,
+  body: 'Automate busywork so your team can focus.',
+  cta: 'Learn More',
+  offerDescription: 'Workflow automation',
+  adType: 'facebook',
+  industry: 'SaaS',
+  adId
+});
+
+function analysis(grade: string, status: AdAnalysis['complianceCheck']['status'], ruleIds: string[] = []): AdAnalysis {
+  return {
+    grade,
+    headlineGrade: grade,
+    bodyGrade: grade,
+    ctaGrade: grade,
+    summary: 'Reviewed',
+    suggestions: ['Lead with the benefit', 'Add proof', 'Tighten the CTA', 'Try urgency'],
+    predictedCTR: 'Medium',
+    attentionScore: 6,
+    complianceCheck: {
+      status,
+      violations: ruleIds.map(ruleId => ({
+        ruleId,
+        severity: status === 'fail' ? 'error' as const : 'warning' as const,
+        explanation: 'Flagged'
+      }))
+    }
+  };
+}
+
+function audited(row: number, ad: AuditInput, review: AdAnalysis): JobRow<AuditInput, InspectionOutput> {
+  return { row, status: 'succeeded', input: ad, output: { analysis: review, lint: lintAd(ad), prompt: 'inspect-ad/default@2' }, attempts: 1 };
+}
+
+function job(rows: InspectionJob['rows']): InspectionJob {
+  return { id: 'job-1', tool: 'inspect-ad', caller, status: 'completed', rows, createdAt: '2026-01-01T00:00:00.000Z', updatedAt: '2026-01-01T00:05:00.000Z' };
+}
+
+describe('buildAuditReport', () => {
+  const report = buildAuditReport(job([
+    audited(1, input('Ship faster', 'ad-1'), analysis('B+', 'pass')),
+    audited(2, input('Are you in debt?', 'ad-2'), analysis('C', 'fail', ['policy.personal-attributes', 'base.clear-offer'])),
+    audited(3, input('HUGE SAVINGS TODAY'), analysis('A-', 'warning', ['base.clear-offer'])),
+    audited(4, input('Save 5 hours a week'), analysis('b', 'pass')),
+    { row: 5, status: 'failed', input: input('Timed out', 'ad-5'), attempts: 3, error: 'Upstream timeout' },
+    { row: 6, status: 'invalid', attempts: 0, issues: [{ path: 'headline', message: 'Required' }] },
+    { row: 7, status: 'queued', input: input('Not yet'), attempts: 0 }
+  ]));
+
+  it('counts grades by letter, ignoring modifiers and case', () => {
+    expect(report.audited).toBe(4);
+    expect(report.gradeDistribution).toEqual({ A: 1, B: 2, C: 1, D: 0, F: 0 });
+  });
+
+  it('ranks compliance and lint issues by how many ads have them', () => {
+    expect(report.complianceIssues).toEqual([
+      { ruleId: 'base.clear-offer', severity: 'error', count: 2, rows: [2, 3] },
+      { ruleId: 'policy.personal-attributes', severity: 'error', count: 1, rows: [2] }
+    ]);
+    expect(report.lintIssues.map(issue => [issue.ruleId, issue.rows])).toEqual([
+      ['copy.excessive-caps', [3]],
+      ['policy.personal-attributes', [2]]
+    ]);
+  });
+
+  it('puts compliance failures first, then warnings, then lower grades', () => {
+    expect(report.worstAds.map(ad => ad.row)).toEqual([2, 3, 4, 1]);
+    expect(report.worstAds[0]).toMatchObject({
+      adId: 'ad-2',
+      compliance: 'fail',
+      violations: ['policy.personal-attributes', 'base.clear-offer'],
+      lintErrors: 1
+    });
+    expect(report.worstAds[0].suggestions).toHaveLength(3);
+  });
+
+  it('lists failed and invalid rows with their errors', () => {
+    expect(report.failed).toEqual([
+      { row: 5, adId: 'ad-5', error: 'Upstream timeout' },
+      { row: 6, adId: undefined, error: 'headline: Required' }
+    ]);
+    expect(report.job.counts).toMatchObject({ succeeded: 4, failed: 1, invalid: 1, queued: 1 });
+  });
+
+  it('renders escaped HTML', () => {
+    const html = renderAuditHtml(buildAuditReport(job([audited(1, input('<b>Bold</b> claims'), analysis('D', 'pass'))])));
+    expect(html).toContain('&lt;b&gt;Bold&lt;/b&gt; claims');
+    expect(html).not.toContain('<b>Bold</b>');
+  });
+});
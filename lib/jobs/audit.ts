@@ -0,0 +1,189 @@
+// lib/jobs/audit.ts
+// Account-wide audit built from a finished (or partly finished) bulk
+// inspection job: grade distribution, most common compliance and lint
+// issues, and the ads to fix first.
+import type { LintSeverity } from '@/lib/lint';
+import { gradeScore } from '@/lib/schemas';
+import { summarizeJob } from './summary';
+import type { InspectionJob, JobSummary } from './types';
+
+type IssueCount = {
+  ruleId: string;
+  severity: LintSeverity;
+  count: number;
+  rows: number[];
+};
+
+export type AuditAd = {
+  row: number;
+  adId?: string;
+  platform: string;
+  headline: string;
+  grade: string;
+  compliance: 'pass' | 'warning' | 'fail';
+  violations: string[];
+  lintErrors: number;
+  attentionScore: number;
+  suggestions: string[];
+};
+
+export type AuditReport = {
+  job: JobSummary;
+  audited: number;
+  gradeDistribution: Record<string, number>;
+  complianceIssues: IssueCount[];
+  lintIssues: IssueCount[];
+  // Worst first: compliance failures, then lowest grade, then most lint errors
+  worstAds: AuditAd[];
+  failed: { row: number; adId?: string; error: string }[];
+};
+
+const WORST_ADS_LIMIT = 20;
+
+const complianceRank = { fail: 0, warning: 1, pass: 2 } as const;
+
+function countIssue(counts: Map<string, IssueCount>, ruleId: string, severity: LintSeverity, row: number) {
+  const entry = counts.get(ruleId) ?? { ruleId, severity, count: 0, rows: [] };
+  entry.count++;
+  entry.rows.push(row);
+  counts.set(ruleId, entry);
+}
+
+function byCount(counts: Map<string, IssueCount>): IssueCount[] {
+  return [...counts.values()].sort((a, b) => b.count - a.count || a.ruleId.localeCompare(b.ruleId));
+}
+
+export function buildAuditReport(job: InspectionJob): AuditReport {
+  const gradeDistribution: Record<string, number> = { A: 0, B: 0, C: 0, D: 0, F: 0 };
+  const compliance = new Map<string, IssueCount>();
+  const lint = new Map<string, IssueCount>();
+  const ads: AuditAd[] = [];
+  const failed: AuditReport['failed'] = [];
+
+  for (const row of job.rows) {
+    if (row.status === 'failed' || row.status === 'invalid') {
+      const error = row.error ?? row.issues?.map(i => `${i.path}: ${i.message}`).join('; ') ?? 'Failed';
+      failed.push({ row: row.row, adId: row.input?.adId, error });
+      continue;
+    }
+    if (!row.output || !row.input) continue;
+
+    const { analysis, lint: report } = row.output;
+    const letter = analysis.grade[0].toUpperCase();
+    gradeDistribution[letter] = (gradeDistribution[letter] ?? 0) + 1;
+
+    for (const violation of analysis.complianceCheck.violations) {
+      countIssue(compliance, violation.ruleId, violation.severity, row.row);
+    }
+    for (const finding of report.findings) {
+      if (finding.severity !== 'info') countIssue(lint, finding.ruleId, finding.severity, row.row);
+    }
+
+    ads.push({
+      row: row.row,
+      adId: row.input.adId,
+      platform: row.input.adType,
+      headline: row.input.headline,
+      grade: analysis.grade,
+      compliance: analysis.complianceCheck.status,
+      violations: analysis.complianceCheck.violations.map(v => v.ruleId),
+      lintErrors: report.counts.error,
+      attentionScore: analysis.attentionScore,
+      suggestions: analysis.suggestions.slice(0, 3)
+    });
+  }
+
+  const worstAds = ads
+    .sort((a, b) =>
+      complianceRank[a.compliance] - complianceRank[b.compliance] ||
+      gradeScore(a.grade) - gradeScore(b.grade) ||
+      b.lintErrors - a.lintErrors ||
+      a.attentionScore - b.attentionScore)
+    .slice(0, WORST_ADS_LIMIT);
+
+  return {
+    job: summarizeJob(job),
+    audited: ads.length,
+    gradeDistribution,
+    complianceIssues: byCount(compliance),
+    lintIssues: byCount(lint),
+    worstAds,
+    failed
+  };
+}
+
+function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function issueTable(title: string, issues: IssueCount[]): string {
+  if (!issues.length) return `<h2>${title}</h2><p>None found.</p>`;
+  const rows = issues.slice(0, 10).map(issue => `
+      <tr><td><code>${escapeHtml(issue.ruleId)}</code></td><td>${issue.severity}</td><td>${issue.count}</td><td>${issue.rows.join(', ')}</td></tr>`);
+  return `<h2>${title}</h2>
+    <table><thead><tr><th>Rule</th><th>Severity</th><th>Ads</th><th>Rows</th></tr></thead><tbody>${rows.join('')}
+    </tbody></table>`;
+}
+
+// Self-contained and print-friendly so it can be saved as PDF from the browser
+export function renderAuditHtml(report: AuditReport): string {
+  const total = report.audited || 1;
+  const distribution = Object.entries(report.gradeDistribution).map(([grade, count]) => `
+      <tr><td>${grade}</td><td>${count}</td><td><div class="bar" style="width:${Math.round((count / total) * 100)}%"></div></td></tr>`);
+
+  const worst = report.worstAds.map((ad, i) => `
+      <tr>
+        <td>${i + 1}</td><td>${ad.row}${ad.adId ? ` (${escapeHtml(ad.adId)})` : ''}</td><td>${escapeHtml(ad.platform)}</td>
+        <td>${escapeHtml(ad.headline)}</td><td>${escapeHtml(ad.grade)}</td><td class="${ad.compliance}">${ad.compliance}</td>
+        <td>${ad.violations.map(escapeHtml).join(', ')}</td>
+        <td><ul>${ad.suggestions.map(s => `<li>${escapeHtml(s)}</li>`).join('')}</ul></td>
+      </tr>`);
+
+  const failed = report.failed.length
+    ? `<h2>Not audited</h2><ul>${report.failed.map(f => `<li>Row ${f.row}${f.adId ? ` (${escapeHtml(f.adId)})` : ''}: ${escapeHtml(f.error)}</li>`).join('')}</ul>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Ad Audit Report</title>
+  <style>
+    body { font-family: system-ui, sans-serif; margin: 2rem; color: #111; }
+    table { border-collapse: collapse; width: 100%; margin-bottom: 1.5rem; font-size: 0.9rem; }
+    th, td { border: 1px solid #ccc; padding: 0.4rem; text-align: left; vertical-align: top; }
+    th { background: #f3f4f6; }
+    ul { margin: 0; padding-left: 1.2rem; }
+    .bar { background: #2563eb; height: 0.8rem; }
+    .fail { color: #b91c1c; font-weight: 600; }
+    .warning { color: #b45309; }
+    .pass { color: #15803d; }
+    @media print { body { margin: 0; } h2 { break-after: avoid; } tr { break-inside: avoid; } }
+  </style>
+</head>
+<body>
+  <h1>Ad Audit Report</h1>
+  <p>Job ${escapeHtml(report.job.id)} &middot; ${report.audited} of ${report.job.total} ads audited &middot; ${escapeHtml(report.job.updatedAt)}${report.job.status === 'completed' ? '' : ' &middot; <strong>still running</strong>'}</p>
+
+  <h2>Grade distribution</h2>
+  <table><thead><tr><th>Grade</th><th>Ads</th><th></th></tr></thead><tbody>${distribution.join('')}
+  </tbody></table>
+
+  ${issueTable('Most common compliance issues', report.complianceIssues)}
+  ${issueTable('Most common platform issues', report.lintIssues)}
+
+  <h2>Fix these first</h2>
+  <table>
+    <thead><tr><th>#</th><th>Row</th><th>Platform</th><th>Headline</th><th>Grade</th><th>Compliance</th><th>Violations</th><th>Top suggestions</th></tr></thead>
+    <tbody>${worst.join('')}
+    </tbody>
+  </table>
+  ${failed}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,146 @@
+// lib/jobs/index.ts
+// Bulk jobs. An upload becomes one job with a row per brief (generate-ad) or
+// per existing ad (inspect-ad); rows are validated up front, then run in the
+// background by processJob (see ./run). Jobs live under job:<id> for a week.
+import { z } from 'zod';
+import { toCsv } from '@/lib/csv';
+import type { LLMSelection } from '@/lib/llm';
+import type { Caller } from '@/lib/quota';
+import { GenerateAdInputSchema, InspectAdInputSchema, refineGenerateAdInput, refineInspectAdInput } from '@/lib/schemas';
+import type { AnyJobRow, Job, JobTool } from './types';
+
+export type * from './types';
+export { buildAuditReport, renderAuditHtml, type AuditReport } from './audit';
+export { processJob } from './run';
+export { getJob, hasPendingRows, loadJob, saveJob } from './store';
+export { jobProgress, summarizeJob } from './summary';
+
+export const MAX_JOB_ROWS = 100;
+
+// CSV cells are strings, so accept the usual spellings of a boolean
+const BooleanCellSchema = z.preprocess(
+  value => (typeof value === 'string' ? /^(true|yes|y|1)$/i.test(value.trim()) : value),
+  z.boolean().optional()
+);
+
+const GenerationRowSchema = GenerateAdInputSchema.extend({
+  differentiate: BooleanCellSchema
+}).superRefine(refineGenerateAdInput);
+
+// Ad account exports name columns differently; map the common spellings
+const auditColumns: Record<string, string> = {
+  headline: 'headline',
+  body: 'body',
+  primary_text: 'body',
+  cta: 'cta',
+  offer: 'offerDescription',
+  offerdescription: 'offerDescription',
+  platform: 'adType',
+  adtype: 'adType',
+  industry: 'industry',
+  locale: 'locale',
+  language: 'locale',
+  brand: 'websiteOrBrand',
+  website: 'websiteOrBrand',
+  websiteorbrand: 'websiteOrBrand',
+  brandkitid: 'brandKitId',
+  id: 'adId',
+  ad_id: 'adId',
+  adid: 'adId'
+};
+
+function normalizeAuditRecord(record: unknown): unknown {
+  if (!record || typeof record !== 'object') return record;
+  const normalized: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(record)) {
+    normalized[auditColumns[key.trim().toLowerCase()] ?? key] = value;
+  }
+  // "Google Search" and "google_search" both mean google-search
+  if (typeof normalized.adType === 'string') {
+    normalized.adType = normalized.adType.trim().toLowerCase().replace(/[\s_]+/g, '-');
+  }
+  return normalized;
+}
+
+const AuditRowSchema = z.preprocess(normalizeAuditRecord, InspectAdInputSchema.extend({
+  adId: z.string().max(100).optional(),
+  industry: InspectAdInputSchema.shape.industry.default('General')
+}).superRefine(refineInspectAdInput));
+
+const rowSchemas: Record<JobTool, z.ZodTypeAny> = {
+  'generate-ad': GenerationRowSchema,
+  'inspect-ad': AuditRowSchema
+};
+
+export function createJob(tool: JobTool, caller: Caller, records: unknown[], llm?: LLMSelection): Job {
+  const now = new Date().toISOString();
+  const rows: AnyJobRow[] = records.map((record, i) => {
+    const validation = rowSchemas[tool].safeParse(record);
+    return validation.success
+      ? { row: i + 1, status: 'queued', input: validation.data, attempts: 0 }
+      : {
+          row: i + 1,
+          status: 'invalid',
+          attempts: 0,
+          issues: validation.error.errors.map(e => ({ path: e.path.join('.'), message: e.message }))
+        };
+  });
+  const pending = rows.some(r => r.status === 'queued');
+
+  return {
+    id: crypto.randomUUID(),
+    tool,
+    caller,
+    llm,
+    status: pending ? 'queued' : 'completed',
+    rows,
+    createdAt: now,
+    updatedAt: now,
+    completedAt: pending ? undefined : now
+  } as Job;
+}
+
+function rowError(row: AnyJobRow): string | undefined {
+  return row.error ?? row.issues?.map(i => `${i.path}: ${i.message}`).join('; ');
+}
+
+const generationColumns = [
+  'row', 'status', 'ad', 'type', 'headline', 'primary_text', 'cta', 'visual_suggestion', 'brand_check', 'error'
+];
+
+const inspectionColumns = [
+  'row', 'ad_id', 'status', 'platform', 'headline', 'grade', 'headline_grade', 'body_grade', 'cta_grade',
+  'attention_score', 'predicted_ctr', 'compliance', 'violations', 'lint_errors', 'top_suggestion', 'error'
+];
+
+// Generation: one line per generated ad. Inspection: one line per audited ad.
+// Rows without output get one line with the error. Cells hold uploaded and
+// model-written text, so formula-like cells are neutralized.
+export function jobResultCsv(job: Job): string {
+  if (job.tool === 'inspect-ad') {
+    return toCsv(inspectionColumns, job.rows.map(row => {
+      const { input, output } = row;
+      const analysis = output?.analysis;
+      return [
+        row.row, input?.adId, row.status, input?.adType, input?.headline,
+        analysis?.grade, analysis?.headlineGrade, analysis?.bodyGrade, analysis?.ctaGrade,
+        analysis?.attentionScore, analysis?.predictedCTR, analysis?.complianceCheck.status,
+        analysis?.complianceCheck.violations.map(v => v.ruleId).join('; '),
+        output?.lint.findings.filter(f => f.severity === 'error').map(f => f.ruleId).join('; '),
+        analysis?.suggestions[0], rowError(row)
+      ];
+    }), { neutralizeFormulas: true });
+  }
+
+  const lines = job.rows.flatMap(row => {
+    if (!row.output?.ads.length) {
+      return [[row.row, row.status, '', '', '', '', '', '', '', rowError(row)]];
+    }
+    return row.output.ads.map((ad, i) => {
+      const check = row.output!.brandCheck?.[i];
+      const brand = check ? (check.passed ? 'pass' : check.findings.map(f => f.message).join('; ')) : '';
+      return [row.row, row.status, i + 1, ad.type, ad.headline, ad.primary_text, ad.cta, ad.visual_suggestion, brand, ''];
+    });
+  });
+  return toCsv(generationColumns, lines, { neutralizeFormulas: true });
+}
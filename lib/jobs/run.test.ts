@@ -0,0 +1,64 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getStorage } from '@/lib/storage';
+import { createJob } from '.';
+import { processJob } from './run';
+import { acquireJobLease, loadJob, releaseJobLease, renewJobLease, saveJob } from './store';
+
+const caller = { id: `key:${crypto.randomUUID()}`, plan: 'internal' as const, ip: '127.0.0.1' };
+const audit = {
+  headline: 'Ship faster',
+  body: 'Automate busywork so your team can focus.',
+  cta: 'Learn More',
+  offerDescription: 'Workflow automation',
+  adType: 'facebook',
+  industry: 'SaaS'
+};
+
+async function savedJob() {
+  const job = createJob('inspect-ad', caller, [audit, audit]);
+  await saveJob(job);
+  return job;
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('job leases', () => {
+  it('belong to the runner that acquired them', async () => {
+    const id = crypto.randomUUID();
+    const token = await acquireJobLease(id);
+    expect(token).toEqual(expect.any(String));
+    expect(await acquireJobLease(id)).toBeNull();
+
+    expect(await renewJobLease(id, 'someone-else')).toBe(false);
+    await releaseJobLease(id, 'someone-else');
+    expect(await renewJobLease(id, token!)).toBe(true);
+
+    await releaseJobLease(id, token!);
+    expect(await acquireJobLease(id)).toEqual(expect.any(String));
+  });
+});
+
+describe('processJob', () => {
+  it('runs every row and releases the lease', async () => {
+    const job = await savedJob();
+    await processJob(job.id);
+
+    const done = await loadJob(job.id);
+    expect(done?.status).toBe('completed');
+    expect(done?.rows.map(r => r.status)).toEqual(['succeeded', 'succeeded']);
+    expect(await acquireJobLease(job.id)).toEqual(expect.any(String));
+  });
+
+  it('writes nothing once another runner owns the job', async () => {
+    const job = await savedJob();
+    // The lease lapses while the first row runs
+    vi.spyOn(getStorage(), 'expireIfEquals').mockResolvedValue(0);
+    await processJob(job.id);
+
+    const untouched = await loadJob(job.id);
+    expect(untouched?.status).toBe('queued');
+    expect(untouched?.rows.map(r => r.status)).toEqual(['queued', 'queued']);
+  });
+});
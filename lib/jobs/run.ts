@@ -0,0 +1,198 @@
+// lib/jobs/run.ts
+// Background runner for bulk jobs. Each row is charged against the
+// uploader's quota for the job's tool and retried on transient provider
+// failures; rows that still fail are recorded and the job moves on.
+import { checkBrandKit, checkVariation, getBrandKit } from '@/lib/brand-kits';
+import { ApiError, toApiError, upstreamError } from '@/lib/errors';
+import { lintAd, lintReport } from '@/lib/lint';
+import { completeStructured, resolveLLM, withRetry } from '@/lib/llm';
+import { logger, type Logger } from '@/lib/logger';
+import { resourceOwner } from '@/lib/owner';
+import { citesKnownRules, policyFor } from '@/lib/policies';
+import { generateAdPrompts, generationMaxTokens, generationNeeds } from '@/lib/prompts/generate-ad';
+import { inspectAdPrompts } from '@/lib/prompts/inspect-ad';
+import { consumeQuota } from '@/lib/quota';
+import { AdAnalysisSchema, generatedAdSchemasFor, type BrandKit, type GenerateAdInput } from '@/lib/schemas';
+import { usageMeter } from '@/lib/usage';
+import {
+  acquireJobLease,
+  hasPendingRows,
+  LEASE_HEARTBEAT_MS,
+  loadJob,
+  releaseJobLease,
+  renewJobLease,
+  saveJob
+} from './store';
+import type { AnyJobRow, AuditInput, GenerationOutput, InspectionOutput, Job, JobRow } from './types';
+
+// Stop picking up rows after this long; a later status poll resumes the job
+const RUN_BUDGET_MS = 25_000;
+
+type Kits = Map<string, BrandKit | null>;
+type Meter = ReturnType<typeof usageMeter>;
+
+// Kits are looked up once per run
+async function brandKitFor(job: Job, id: string | undefined, kits: Kits): Promise<BrandKit | undefined> {
+  if (!id) return undefined;
+  if (!kits.has(id)) kits.set(id, await getBrandKit(resourceOwner(job.caller), id));
+  const kit = kits.get(id);
+  if (!kit) throw new ApiError('NOT_FOUND', 'Brand kit not found');
+  return kit;
+}
+
+async function generateRow(job: Job, input: GenerateAdInput, kits: Kits, meter: Meter): Promise<GenerationOutput> {
+  const brandKit = await brandKitFor(job, input.brandKitId, kits);
+  const { provider, model } = resolveLLM(job.llm);
+  const prompt = generateAdPrompts.resolve(
+    { ...input, brandKit },
+    { format: input.adFormat, industry: input.industry },
+    undefined,
+    generationNeeds(input)
+  );
+  const response = await completeStructured(provider, {
+    tool: 'generate-ad',
+    model,
+    messages: prompt.messages,
+    json: true,
+    temperature: 0.7,
+    maxTokens: generationMaxTokens(input),
+  }, generatedAdSchemasFor(input, prompt).list).catch(async (error) => {
+    await meter({ provider: provider.name, model, status: 'error' });
+    throw upstreamError(error);
+  });
+  await meter({ provider: response.provider, model: response.model, usage: response.usage, status: 'ok' });
+
+  const { ads } = response.data;
+  return {
+    ads,
+    prompt: prompt.id,
+    brandCheck: brandKit && ads.map(ad => checkVariation(ad, brandKit))
+  };
+}
+
+// Same checks as /api/inspect-ad: lint and brand kit first, then the LLM
+async function inspectRow(job: Job, { adId: _adId, ...input }: AuditInput, kits: Kits, meter: Meter): Promise<InspectionOutput> {
+  const brandKit = await brandKitFor(job, input.brandKitId, kits);
+  const lint = lintReport([
+    ...lintAd(input).findings,
+    ...(brandKit ? checkBrandKit({ headline: input.headline, body: input.body, cta: input.cta }, brandKit) : [])
+  ]);
+
+  const { provider, model } = resolveLLM(job.llm);
+  const prompt = inspectAdPrompts.resolve(
+    { ...input, brandKit },
+    { format: input.adType, industry: input.industry },
+    undefined,
+    { brandKit: !!brandKit }
+  );
+  const response = await completeStructured(provider, {
+    tool: 'inspect-ad',
+    model,
+    messages: prompt.messages,
+    temperature: 0.3,
+    maxTokens: 1500,
+  }, AdAnalysisSchema.superRefine(citesKnownRules(policyFor(input.industry, input.adType)))).catch(async (error) => {
+    await meter({ provider: provider.name, model, status: 'error' });
+    throw upstreamError(error);
+  });
+  await meter({ provider: response.provider, model: response.model, usage: response.usage, status: 'ok' });
+
+  return { analysis: response.data, lint, prompt: prompt.id };
+}
+
+function runRow(job: Job, row: AnyJobRow, kits: Kits, meter: Meter): Promise<GenerationOutput | InspectionOutput> {
+  return job.tool === 'generate-ad'
+    ? generateRow(job, row.input as GenerateAdInput, kits, meter)
+    : inspectRow(job, row.input as AuditInput, kits, meter);
+}
+
+// Keeps the lease alive while a row runs, however long its retries and
+// repair passes take. `lost` is set if the lease lapsed regardless.
+function leaseHeartbeat(id: string, token: string, log: Logger) {
+  const state = { lost: false };
+  const timer = setInterval(() => {
+    renewJobLease(id, token)
+      .then(held => { if (!held) state.lost = true; })
+      .catch(error => log.warn('Job lease renewal failed', { error }));
+  }, LEASE_HEARTBEAT_MS);
+  return { state, stop: () => clearInterval(timer) };
+}
+
+function finishRow(row: AnyJobRow, update: Partial<JobRow<unknown, unknown>>) {
+  Object.assign(row, update, { finishedAt: new Date().toISOString() });
+}
+
+// `parent` ties the runner's logs to the request that started or resumed it
+export async function processJob(id: string, parent: Logger = logger): Promise<void> {
+  const lease = await acquireJobLease(id);
+  if (!lease) return;
+  const deadline = Date.now() + RUN_BUDGET_MS;
+  const log = parent.child({ jobId: id });
+  const heartbeat = leaseHeartbeat(id, lease, log);
+
+  // Results are only written while this runner still owns the job; a runner
+  // that lost its lease leaves the job to whoever holds it now
+  const owned = async () => {
+    if (!heartbeat.state.lost && await renewJobLease(id, lease)) return true;
+    log.warn('Job lease lost; leaving the job to the current runner');
+    return false;
+  };
+
+  try {
+    const job = await loadJob(id);
+    if (!job || !hasPendingRows(job)) return;
+    job.status = 'running';
+    const kits: Kits = new Map();
+
+    // Rows left `running` by a runner that died are picked up again
+    for (const row of job.rows as AnyJobRow[]) {
+      if (row.status !== 'queued' && row.status !== 'running') continue;
+      if (Date.now() > deadline || heartbeat.state.lost) break;
+
+      const quota = await consumeQuota(job.caller, job.tool);
+      if (!quota.allowed) {
+        for (const pending of job.rows as AnyJobRow[]) {
+          if (pending.status === 'queued' || pending.status === 'running') {
+            finishRow(pending, { status: 'failed', error: 'Plan quota reached', code: 'QUOTA_EXCEEDED' });
+          }
+        }
+        break;
+      }
+
+      row.status = 'running';
+      const rowLog = log.child({ row: row.row });
+      // Every attempt is metered; latency runs from the row's first attempt
+      const meter = usageMeter(job.tool, job.caller, { log: rowLog, startedAt: Date.now() });
+      try {
+        const output = await withRetry(attempt => {
+          row.attempts = attempt;
+          return runRow(job, row, kits, meter);
+        }, {
+          onRetry: (error, attempt) => rowLog.warn('Job row attempt failed', { error, attempt })
+        });
+        finishRow(row, { status: 'succeeded', output });
+      } catch (error) {
+        const failure = toApiError(error);
+        if (failure.code === 'INTERNAL_ERROR') rowLog.error('Job row failed', { error });
+        finishRow(row, { status: 'failed', error: failure.message, code: failure.code });
+      }
+
+      if (!(await owned())) return;
+      job.updatedAt = new Date().toISOString();
+      await saveJob(job);
+    }
+
+    if (!hasPendingRows(job)) {
+      job.status = 'completed';
+      job.completedAt = new Date().toISOString();
+    }
+    if (!(await owned())) return;
+    job.updatedAt = new Date().toISOString();
+    await saveJob(job);
+  } catch (error) {
+    log.error('Job runner failed', { error });
+  } finally {
+    heartbeat.stop();
+    await releaseJobLease(id, lease);
+  }
+}
@@ -0,0 +1,44 @@
+// lib/jobs/store.ts
+import { storage } from '@/lib/storage';
+import type { Job } from './types';
+
+const JOB_TTL_SECONDS = 60 * 60 * 24 * 7;
+
+export async function saveJob(job: Job): Promise<void> {
+  await storage.set(`job:${job.id}`, job, { ex: JOB_TTL_SECONDS });
+}
+
+export async function loadJob(id: string): Promise<Job | null> {
+  return storage.get<Job>(`job:${id}`);
+}
+
+// Jobs are only visible to the caller (API key or IP) that uploaded them
+export async function getJob(callerId: string, id: string): Promise<Job | null> {
+  const job = await loadJob(id);
+  return job?.caller.id === callerId ? job : null;
+}
+
+export function hasPendingRows(job: Job): boolean {
+  return job.rows.some(r => r.status === 'queued' || r.status === 'running');
+}
+
+// One runner per job at a time, holding a lease under its own token. The
+// lease expires on its own if a runner dies, so the next status poll can
+// resume the job; a live runner renews it every LEASE_HEARTBEAT_MS.
+const LEASE_SECONDS = 60;
+export const LEASE_HEARTBEAT_MS = LEASE_SECONDS * 1000 / 4;
+
+// Resolves the lease token, or null when another runner holds the job
+export async function acquireJobLease(id: string): Promise<string | null> {
+  const token = crypto.randomUUID();
+  return (await storage.set(`job-lease:${id}`, token, { nx: true, ex: LEASE_SECONDS })) !== null ? token : null;
+}
+
+// False once the lease lapsed, after which another runner may own the job
+export async function renewJobLease(id: string, token: string): Promise<boolean> {
+  return (await storage.expireIfEquals(`job-lease:${id}`, token, LEASE_SECONDS)) === 1;
+}
+
+export async function releaseJobLease(id: string, token: string): Promise<void> {
+  await storage.delIfEquals(`job-lease:${id}`, token);
+}
@@ -0,0 +1,32 @@
+// lib/jobs/summary.ts
+import type { AnyJobRow, Job, JobRowStatus, JobSummary } from './types';
+
+export function summarizeJob(job: Job): JobSummary {
+  const counts: Record<JobRowStatus, number> = { invalid: 0, queued: 0, running: 0, succeeded: 0, failed: 0 };
+  for (const row of job.rows) counts[row.status]++;
+  return {
+    id: job.id,
+    tool: job.tool,
+    status: job.status,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    completedAt: job.completedAt,
+    total: job.rows.length,
+    counts
+  };
+}
+
+// Per-row progress without the generated copy or full analysis
+export function jobProgress(job: Job) {
+  return job.rows.map((row: AnyJobRow) => ({
+    row: row.row,
+    status: row.status,
+    attempts: row.attempts,
+    ...(row.output && ('ads' in row.output
+      ? { ads: row.output.ads.length }
+      : { grade: row.output.analysis.grade })),
+    issues: row.issues,
+    error: row.error,
+    code: row.code
+  }));
+}
@@ -0,0 +1,69 @@
+// lib/jobs/types.ts
+import type { BrandCheck } from '@/lib/brand-kits';
+import type { LintReport } from '@/lib/lint';
+import type { LLMSelection } from '@/lib/llm';
+import type { Caller } from '@/lib/quota';
+import type { AdAnalysis, AdVariation, GenerateAdInput, InspectAdInput } from '@/lib/schemas';
+
+// invalid, succeeded and failed are final
+export type JobRowStatus = 'invalid' | 'queued' | 'running' | 'succeeded' | 'failed';
+
+export type JobStatus = 'queued' | 'running' | 'completed';
+
+export type JobRow<I, O> = {
+  // 1-based position in the upload, matching the CSV data row
+  row: number;
+  status: JobRowStatus;
+  input?: I;
+  output?: O;
+  issues?: { path: string; message: string }[];
+  attempts: number;
+  error?: string;
+  code?: string;
+  finishedAt?: string;
+};
+
+export type GenerationOutput = {
+  ads: AdVariation[];
+  brandCheck?: BrandCheck[];
+  prompt: string;
+};
+
+// Audited ads may carry the ID they have in the ad account export
+export type AuditInput = InspectAdInput & { adId?: string };
+
+export type InspectionOutput = {
+  analysis: AdAnalysis;
+  lint: LintReport;
+  prompt: string;
+};
+
+type JobBase = {
+  id: string;
+  // Kept so background runs charge the uploader's quota
+  caller: Caller;
+  llm?: LLMSelection;
+  status: JobStatus;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+};
+
+export type GenerationJob = JobBase & {
+  tool: 'generate-ad';
+  rows: JobRow<GenerateAdInput, GenerationOutput>[];
+};
+
+export type InspectionJob = JobBase & {
+  tool: 'inspect-ad';
+  rows: JobRow<AuditInput, InspectionOutput>[];
+};
+
+export type Job = GenerationJob | InspectionJob;
+export type JobTool = Job['tool'];
+export type AnyJobRow = Job['rows'][number];
+
+export type JobSummary = Pick<Job, 'id' | 'tool' | 'status' | 'createdAt' | 'updatedAt' | 'completedAt'> & {
+  total: number;
+  counts: Record<JobRowStatus, number>;
+};
@@ -0,0 +1,83 @@
+// lib/jobs/upload.ts
+// Shared upload handling for the bulk job routes: CSV (header row of field
+// names) or JSON ({ rows: [...], llm? } or a bare array).
+import { after, NextResponse } from 'next/server';
+import { parseCsvRecords } from '@/lib/csv';
+import { ApiError, errorResponse, validationError } from '@/lib/errors';
+import { LLMSelectionSchema, resolveLLM } from '@/lib/llm';
+import { requestContext } from '@/lib/logger';
+import { identifyCaller, quotaStatus, rateLimitHeaders } from '@/lib/quota';
+import { createJob, jobProgress, MAX_JOB_ROWS, summarizeJob } from '.';
+import { processJob } from './run';
+import { saveJob } from './store';
+import type { JobTool } from './types';
+
+async function readRows(request: Request): Promise<{ rows: unknown[]; llm?: unknown }> {
+  if (request.headers.get('content-type')?.includes('text/csv')) {
+    return { rows: parseCsvRecords(await request.text()) };
+  }
+  const body = await request.json().catch(() => {
+    throw new ApiError('INVALID_JSON', 'Invalid JSON payload');
+  });
+  if (Array.isArray(body)) return { rows: body };
+  return { rows: Array.isArray(body?.rows) ? body.rows : [], llm: body?.llm };
+}
+
+export async function handleJobUpload(request: Request, tool: JobTool): Promise<Response> {
+  const context = requestContext(request);
+  let headers: Record<string, string> = {};
+  try {
+    const caller = await identifyCaller(request);
+    const upload = await readRows(request);
+
+    if (!upload.rows.length) {
+      throw new ApiError('VALIDATION_FAILED', 'No rows found');
+    }
+    if (upload.rows.length > MAX_JOB_ROWS) {
+      throw new ApiError('VALIDATION_FAILED', `Uploads are limited to ${MAX_JOB_ROWS} rows`);
+    }
+
+    const llm = LLMSelectionSchema.optional().safeParse(upload.llm);
+    if (!llm.success) throw validationError(llm.error, ['llm']);
+    // Rejects a model outside the allowlist before any row runs
+    if (llm.data) resolveLLM(llm.data);
+
+    const job = createJob(tool, caller, upload.rows, llm.data);
+    const summary = summarizeJob(job);
+    if (!summary.counts.queued) {
+      throw new ApiError('VALIDATION_FAILED', 'No valid rows', {
+        details: { job: summary, rows: jobProgress(job) }
+      });
+    }
+
+    // Refuse uploads the plan can't finish instead of failing rows halfway
+    const quota = await quotaStatus(caller, tool);
+    headers = rateLimitHeaders(quota);
+    const remaining = [quota.daily.remaining, quota.monthly.remaining]
+      .filter((r): r is number => r !== null);
+    const available = remaining.length ? Math.min(...remaining) : Infinity;
+    if (summary.counts.queued > available) {
+      throw new ApiError(
+        'QUOTA_EXCEEDED',
+        `This upload needs ${summary.counts.queued} runs of ${tool} but your plan has ${available} left`,
+        { details: { plan: caller.plan } }
+      );
+    }
+
+    await saveJob(job);
+    after(() => processJob(job.id, context.log));
+
+    return NextResponse.json(
+      {
+        job: summary,
+        rows: jobProgress(job),
+        statusUrl: `/api/jobs/${job.id}`,
+        resultUrl: `/api/jobs/${job.id}/result`,
+        ...(tool === 'inspect-ad' && { reportUrl: `/api/jobs/${job.id}/report` })
+      },
+      { status: 202, headers }
+    );
+  } catch (error) {
+    return errorResponse(error, context, headers);
+  }
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { lintAd, splitAssets, type LintInput } from '.';
+
+const clean: LintInput = {
+  headline: 'Save 5 hours a week',
+  body: 'Automate the busywork.',
+  cta: 'Learn More',
+  offerDescription: 'Workflow automation for small teams',
+  adType: 'facebook',
+  industry: 'General'
+};
+
+const ruleIds = (input: Partial<LintInput>) => lintAd({ ...clean, ...input }).findings.map(f => f.ruleId);
+
+describe('lintAd', () => {
+  it('passes clean copy on every platform', () => {
+    for (const adType of ['facebook', 'instagram', 'google-search', 'google-display'] as const) {
+      expect(lintAd({ ...clean, adType })).toEqual({ findings: [], counts: { error: 0, warning: 0, info: 0 }, passed: true });
+    }
+  });
+
+  it.each([
+    ['google-search.headline-length', { adType: 'google-search', headline: 'Automate every workflow in your team' }],
+    ['google-search.description-length', { adType: 'google-search', body: 'Teams save five hours every week. '.repeat(3) }],
+    ['google-search.headline-exclamation', { adType: 'google-search', headline: 'Save 5 hours!' }],
+    ['google-search.emoji', { adType: 'google-search', cta: 'Learn More 🚀' }],
+    ['google-display.headline-length', { adType: 'google-display', headline: 'Save time | Automate every workflow in your team' }],
+    ['google-display.description-length', { adType: 'google-display', body: 'Teams save five hours every week. '.repeat(3) }],
+    ['google-display.emoji', { adType: 'google-display', headline: 'Save 5 hours ⏰' }],
+    ['facebook.primary-text-truncation', { body: 'Automate the busywork. '.repeat(6) }],
+    ['facebook.headline-truncation', { headline: 'Save five hours every single week with automation' }],
+    ['facebook.emoji-density', { body: 'Automate 🚀 the 🔥 busy 💪 work ✅' }],
+    ['facebook.cta-button', { cta: 'Try it' }],
+    ['instagram.cta-button', { adType: 'instagram', cta: 'Try it' }],
+    ['copy.excessive-caps', { headline: 'HUGE SAVINGS today' }],
+    ['copy.repeated-punctuation', { body: 'Automate the busywork!!' }],
+    ['claims.guaranteed-results', { body: 'Guaranteed results in a week.' }],
+    ['finance.risk-free', { industry: 'Finance', body: 'A risk-free way to invest.' }],
+    ['health.cure-claims', { industry: 'Health', body: 'A miracle supplement.' }],
+    ['policy.personal-attributes', { headline: 'Are you in debt?' }],
+    ['realestate.fair-housing', { industry: 'Real Estate', body: 'Quiet building, adults only.' }],
+    ['copy.click-bait', { body: "You won't believe how much time you save." }]
+  ] as [string, Partial<LintInput>][])('reports %s', (ruleId, input) => {
+    expect(ruleIds(input)).toContain(ruleId);
+  });
+
+  it('reports industry phrase rules only for their industry', () => {
+    expect(ruleIds({ body: 'A risk-free way to invest.' })).toEqual([]);
+    expect(ruleIds({ body: 'Quiet building, adults only.' })).toEqual([]);
+  });
+
+  it('lets an industry-specific rule replace its general counterpart', () => {
+    const general = lintAd({ ...clean, body: 'Guaranteed results in a week.' });
+    const finance = lintAd({ ...clean, industry: 'Finance', body: 'Guaranteed results in a week.' });
+
+    expect(general.findings).toMatchObject([{ ruleId: 'claims.guaranteed-results', severity: 'warning' }]);
+    expect(finance.findings).toMatchObject([{ ruleId: 'claims.guaranteed-results', severity: 'error' }]);
+  });
+
+  it('makes capitals an error on Google and a warning on Meta', () => {
+    const google = lintAd({ ...clean, adType: 'google-search', headline: 'HUGE SAVINGS' });
+    expect(google.findings).toMatchObject([{ ruleId: 'copy.excessive-caps', severity: 'error' }]);
+    expect(google.passed).toBe(false);
+    expect(lintAd({ ...clean, headline: 'HUGE SAVINGS' }).passed).toBe(true);
+  });
+
+  it('checks each Google asset separately, split on lines or "|"', () => {
+    expect(splitAssets('Save time |\nAutomate work| ')).toEqual(['Save time', 'Automate work']);
+
+    const report = lintAd({ ...clean, adType: 'google-search', headline: 'Save time | Automate every workflow in your team\nStart free' });
+    expect(report.findings).toEqual([expect.objectContaining({
+      ruleId: 'google-search.headline-length',
+      match: 'Automate every workflow in your team',
+      limit: 30,
+      actual: 36
+    })]);
+  });
+
+  it('counts full-width characters as 2 in CJK locales', () => {
+    // 16 characters, 32 wide
+    const headline = '業務を自動化して毎週五時間を取り戻す'.slice(0, 16);
+    const japanese = lintAd({ ...clean, adType: 'google-search', headline, locale: 'ja-JP' });
+
+    expect(japanese.findings).toEqual([expect.objectContaining({ ruleId: 'google-search.headline-length', actual: 32 })]);
+    expect(japanese.findings[0].message).toContain('counting full-width characters as 2');
+    expect(lintAd({ ...clean, adType: 'google-search', headline: 'Ahorra cinco horas cada semana', locale: 'es-ES' }).findings).toEqual([]);
+  });
+
+  it('sorts errors before warnings and info', () => {
+    const report = lintAd({ ...clean, headline: 'Are you in debt?', cta: 'Try it', body: 'Automate the busywork!!' });
+    expect(report.findings.map(f => f.severity)).toEqual(['error', 'warning', 'info']);
+    expect(report.counts).toEqual({ error: 1, warning: 1, info: 1 });
+  });
+});
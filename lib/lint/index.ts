@@ -0,0 +1,24 @@
+// lib/lint/index.ts
+// Local rule engine for ad copy. Runs before the LLM inspector and is also
+// exposed on its own through /api/lint-ad, so it needs no API key.
+import { rulesFor } from './rules';
+import type { LintFinding, LintInput, LintReport, LintSeverity } from './types';
+
+export type * from './types';
+export { splitAssets } from './rules';
+
+const severityOrder: Record<LintSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+export function lintAd(input: LintInput): LintReport {
+  return lintReport(rulesFor(input.adType).flatMap(rule => rule(input)));
+}
+
+// Builds a report from findings produced elsewhere too, such as brand kit checks
+export function lintReport(unsorted: LintFinding[]): LintReport {
+  const findings = [...unsorted].sort((a, b) => severityOrder[a.severity] - severityOrder[b.severity]);
+
+  const counts = { error: 0, warning: 0, info: 0 };
+  for (const finding of findings) counts[finding.severity]++;
+
+  return { findings, counts, passed: counts.error === 0 };
+}
@@ -0,0 +1,215 @@
+// lib/lint/rules.ts
+// Deterministic platform and policy checks. Limits follow the published
+// Google Ads and Meta ad specs; phrase lists cover the claims reviewers
+// reject most often and are intentionally conservative.
+import { textWidth } from '@/lib/locales';
+import type { LintField, LintFinding, LintInput, LintRule, LintSeverity } from './types';
+
+const COPY_FIELDS: LintField[] = ['headline', 'body', 'cta'];
+
+// Google RSA and Display assets may be entered one per line or separated by "|"
+export function splitAssets(text: string): string[] {
+  return text.split(/\n|\|/).map(a => a.trim()).filter(Boolean);
+}
+
+function lengthRule(
+  ruleId: string,
+  field: LintField,
+  limit: number,
+  severity: LintSeverity,
+  describe: string,
+  { perAsset = false }: { perAsset?: boolean } = {}
+): LintRule {
+  // Full-width characters count as 2 in CJK locales
+  return input => {
+    const values = perAsset ? splitAssets(input[field]) : [input[field]];
+    return values
+      .map(value => ({ value, width: textWidth(value, input.locale) }))
+      .filter(({ width }) => width > limit)
+      .map(({ value, width }) => ({
+        ruleId,
+        severity,
+        field,
+        message: `${describe} is ${width} characters${width !== value.length ? ' counting full-width characters as 2' : ''} (limit ${limit})`,
+        limit,
+        actual: width,
+        match: perAsset ? value : undefined
+      }));
+  };
+}
+
+const platformRules: Record<LintInput['adType'], LintRule[]> = {
+  'google-search': [
+    lengthRule('google-search.headline-length', 'headline', 30, 'error', 'Responsive Search Ad headline', { perAsset: true }),
+    lengthRule('google-search.description-length', 'body', 90, 'error', 'Responsive Search Ad description', { perAsset: true }),
+    input => splitAssets(input.headline)
+      .filter(headline => headline.includes('!'))
+      .map(headline => ({
+        ruleId: 'google-search.headline-exclamation',
+        severity: 'error' as const,
+        field: 'headline' as const,
+        message: 'Google does not allow exclamation marks in headlines',
+        match: headline
+      })),
+    forbidEmoji('google-search.emoji', 'error', 'Google Search ads do not allow emoji')
+  ],
+  'google-display': [
+    lengthRule('google-display.headline-length', 'headline', 30, 'error', 'Responsive Display Ad short headline', { perAsset: true }),
+    lengthRule('google-display.description-length', 'body', 90, 'error', 'Responsive Display Ad description', { perAsset: true }),
+    forbidEmoji('google-display.emoji', 'error', 'Google Display ads do not allow emoji')
+  ],
+  facebook: metaRules('facebook'),
+  instagram: metaRules('instagram')
+};
+
+// Meta truncates feed copy rather than rejecting it, so these are warnings
+function metaRules(platform: 'facebook' | 'instagram'): LintRule[] {
+  return [
+    lengthRule(`${platform}.primary-text-truncation`, 'body', 125, 'warning', 'Primary text (truncated in feed)'),
+    lengthRule(`${platform}.headline-truncation`, 'headline', 40, 'warning', 'Headline (truncated in feed)'),
+    input => {
+      const count = countEmoji(`${input.headline} ${input.body}`);
+      return count > 3 ? [{
+        ruleId: `${platform}.emoji-density`,
+        severity: 'warning' as const,
+        field: 'body' as const,
+        message: `${count} emoji used; more than 3 tends to read as spam`,
+        limit: 3,
+        actual: count
+      }] : [];
+    },
+    input => META_CTA_BUTTONS.includes(input.cta.trim().toLowerCase()) ? [] : [{
+      ruleId: `${platform}.cta-button`,
+      severity: 'info' as const,
+      field: 'cta' as const,
+      message: 'CTA is not one of Meta\'s standard button labels; it will need to be mapped to one'
+    }]
+  ];
+}
+
+const META_CTA_BUTTONS = [
+  'shop now', 'learn more', 'sign up', 'book now', 'get offer', 'download', 'contact us',
+  'apply now', 'subscribe', 'get quote', 'order now', 'see menu', 'watch more', 'send message'
+];
+
+const EMOJI = /\p{Extended_Pictographic}/gu;
+
+function countEmoji(text: string): number {
+  return text.match(EMOJI)?.length ?? 0;
+}
+
+function forbidEmoji(ruleId: string, severity: LintSeverity, message: string): LintRule {
+  return input => COPY_FIELDS
+    .filter(field => countEmoji(input[field]) > 0)
+    .map(field => ({ ruleId, severity, field, message, actual: countEmoji(input[field]) }));
+}
+
+// Words of 4+ letters written entirely in capitals, ignoring short acronyms
+const SHOUTED_WORD = /\b[A-Z]{4,}\b/g;
+
+const excessiveCaps: LintRule = input => COPY_FIELDS.flatMap(field => {
+  const shouted = input[field].match(SHOUTED_WORD) ?? [];
+  const letters = input[field].replace(/[^A-Za-z]/g, '');
+  const upperRatio = letters.length ? letters.replace(/[^A-Z]/g, '').length / letters.length : 0;
+  if (shouted.length < 2 && !(letters.length >= 10 && upperRatio > 0.5)) return [];
+
+  const google = input.adType.startsWith('google');
+  return [{
+    ruleId: 'copy.excessive-caps',
+    severity: google ? 'error' as const : 'warning' as const,
+    field,
+    message: google
+      ? 'Google rejects ads that use capitals for emphasis'
+      : 'Excessive capitalization lowers delivery and reads as spam',
+    match: shouted.join(' ') || undefined
+  }];
+});
+
+const repeatedPunctuation: LintRule = input => COPY_FIELDS
+  .filter(field => /([!?])\1/.test(input[field]))
+  .map(field => ({
+    ruleId: 'copy.repeated-punctuation',
+    severity: 'warning' as const,
+    field,
+    message: 'Repeated punctuation such as "!!" is disallowed by Google and discouraged by Meta'
+  }));
+
+type PhraseRule = {
+  ruleId: string;
+  pattern: RegExp;
+  severity: LintSeverity;
+  message: string;
+  industries?: LintInput['industry'][];
+};
+
+const prohibitedPhrases: PhraseRule[] = [
+  {
+    ruleId: 'claims.guaranteed-results',
+    pattern: /\bguarantee(d|s)?\s+(results?|returns?|income|profits?|approval|weight loss)\b/i,
+    severity: 'error',
+    message: 'Guaranteed outcomes are prohibited for this industry',
+    industries: ['Finance', 'Health']
+  },
+  {
+    ruleId: 'claims.guaranteed-results',
+    pattern: /\bguarantee(d|s)?\s+results?\b/i,
+    severity: 'warning',
+    message: 'Guaranteed results claims need substantiation'
+  },
+  {
+    ruleId: 'finance.risk-free',
+    pattern: /\b(risk[- ]free|no risk|get rich|double your money|financial freedom fast)\b/i,
+    severity: 'error',
+    message: 'Finance ads may not promise risk-free or unrealistic returns',
+    industries: ['Finance']
+  },
+  {
+    ruleId: 'health.cure-claims',
+    pattern: /\b(cures?|miracle|100% effective|clinically proven|lose \d+\s*(lbs?|pounds|kg) in)\b/i,
+    severity: 'error',
+    message: 'Health ads may not make cure, miracle or unsubstantiated efficacy claims',
+    industries: ['Health']
+  },
+  {
+    ruleId: 'policy.personal-attributes',
+    pattern: /\b(are you|you are|you're)\s+(overweight|fat|depressed|in debt|broke|diabetic|single|divorced|anxious)\b/i,
+    severity: 'error',
+    message: 'Meta and Google prohibit copy that asserts or implies personal attributes'
+  },
+  {
+    ruleId: 'realestate.fair-housing',
+    pattern: /\b(no (kids|children)|adults only|perfect for (singles|couples)|christian|exclusive neighborhood|no section 8)\b/i,
+    severity: 'error',
+    message: 'Housing ads may not express a preference based on protected characteristics',
+    industries: ['Real Estate']
+  },
+  {
+    ruleId: 'copy.click-bait',
+    pattern: /\b(click here|you won'?t believe|doctors hate)\b/i,
+    severity: 'warning',
+    message: 'Click-bait phrasing is penalised by both Meta and Google'
+  }
+];
+
+// An industry-specific rule replaces its general counterpart with the same ID
+const phraseRule: LintRule = input => {
+  const applicable = prohibitedPhrases.filter(rule => !rule.industries || rule.industries.includes(input.industry));
+  const rules = applicable.filter(rule =>
+    rule.industries || !applicable.some(other => other !== rule && other.ruleId === rule.ruleId && other.industries)
+  );
+
+  const findings: LintFinding[] = [];
+  for (const rule of rules) {
+    for (const field of [...COPY_FIELDS, 'offerDescription'] as LintField[]) {
+      const match = input[field].match(rule.pattern);
+      if (match) {
+        findings.push({ ruleId: rule.ruleId, severity: rule.severity, field, message: rule.message, match: match[0] });
+      }
+    }
+  }
+  return findings;
+};
+
+export function rulesFor(adType: LintInput['adType']): LintRule[] {
+  return [...platformRules[adType], excessiveCaps, repeatedPunctuation, phraseRule];
+}
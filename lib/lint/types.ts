@@ -0,0 +1,29 @@
+// lib/lint/types.ts
+import type { InspectAdInput } from '@/lib/schemas';
+
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+export type LintField = 'headline' | 'body' | 'cta' | 'offerDescription';
+
+export type LintFinding = {
+  ruleId: string;
+  severity: LintSeverity;
+  field: LintField;
+  message: string;
+  limit?: number;
+  actual?: number;
+  match?: string;
+  // Where in a Carousel, Video or Story structure, e.g. cards.1.headline;
+  // `field` is then the copy field it reads as
+  path?: string;
+};
+
+export type LintInput = Pick<InspectAdInput, 'headline' | 'body' | 'cta' | 'offerDescription' | 'adType' | 'industry' | 'locale'>;
+
+export type LintRule = (input: LintInput) => LintFinding[];
+
+export type LintReport = {
+  findings: LintFinding[];
+  counts: Record<LintSeverity, number>;
+  passed: boolean;
+};
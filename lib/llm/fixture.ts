@@ -0,0 +1,229 @@
+// lib/llm/fixture.ts
+// Deterministic provider for CI and offline development. It never touches
+// the network and always returns the same payload for a given tool. Ads carry
+// `counters` so the same fixture satisfies competitor differentiation mode,
+// `assets` that fit both Google Search and Google Display limits, and the
+// Carousel, Video and Story structures.
+import type { CompletionChunk, CompletionRequest, CompletionResult, LLMProvider, LLMTool } from './types';
+
+const generatedAds = [
+  {
+    type: 'Benefit-led',
+    headline: 'Save 5 Hours Every Week',
+    primary_text: 'Join thousands of teams who automated the busywork and got their evenings back.',
+    cta: 'Learn More',
+    visual_suggestion: 'Relaxed team leaving the office at 5pm, laptop closed',
+    assets: {
+      headlines: [
+        { text: 'Save 5 Hours Every Week', pinned: 1 },
+        { text: 'Automate The Busywork' },
+        { text: 'Get Your Evenings Back' }
+      ],
+      descriptions: [
+        { text: 'Join thousands of teams who automated the busywork.' },
+        { text: 'Set up in under two minutes. No credit card needed.' }
+      ],
+      longHeadline: 'Save 5 hours every week by automating the busywork',
+      businessName: 'Acme'
+    },
+    cards: [
+      { headline: 'Save 5 hours a week', description: 'See how it works', visual: 'Product dashboard close-up' },
+      { headline: 'Automate the busywork', description: 'Set up in minutes', visual: 'Team smiling at a laptop' },
+      { headline: 'Get your evenings back', description: 'Try it free today', visual: 'Logo on a clean background' }
+    ],
+    script: {
+      hook: 'Save 5 hours a week?',
+      durationSeconds: 15,
+      scenes: [
+        { start: 0, end: 3, visual: 'Busy desk piled with paperwork', onScreenText: 'Save 5 hours a week', voiceover: 'Still buried in busywork?' },
+        { start: 3, end: 10, visual: 'Dashboard automating tasks', onScreenText: 'Automate the busywork', voiceover: 'Let the app handle it for you.' },
+        { start: 10, end: 15, visual: 'Logo and CTA button', onScreenText: 'Get your evenings back', voiceover: 'Start your free trial today.' }
+      ]
+    },
+    frames: [
+      { durationSeconds: 5, visual: 'Close-up of a cluttered inbox', text: 'Save 5 hours a week' },
+      { durationSeconds: 5, visual: 'Dashboard clearing the inbox', text: 'Automate the busywork' },
+      { durationSeconds: 5, visual: 'Logo with swipe-up CTA', text: 'Get your evenings back' }
+    ],
+    counters: {
+      competitor: 'Competitor A',
+      claim: 'The most features in one place',
+      rationale: 'Time saved matters more to busy teams than feature count'
+    }
+  },
+  {
+    type: 'Social proof',
+    headline: 'Rated 4.9 by 2,000+ Customers',
+    primary_text: 'See why customers switch and never look back. Start today in under two minutes.',
+    cta: 'Sign Up',
+    visual_suggestion: 'Collage of customer review cards with star ratings',
+    assets: {
+      headlines: [
+        { text: 'Rated 4.9 by 2,000+ Customers', pinned: 1 },
+        { text: 'See Why Teams Switch' },
+        { text: 'Start Today in 2 Minutes' }
+      ],
+      descriptions: [
+        { text: 'See why customers switch and never look back.' },
+        { text: 'Trusted by 2,000+ teams. Start your free trial today.' }
+      ],
+      longHeadline: 'Rated 4.9 by more than 2,000 customers who switched',
+      businessName: 'Acme'
+    },
+    cards: [
+      { headline: 'Rated 4.9 by customers', description: 'See how it works', visual: 'Product dashboard close-up' },
+      { headline: '2,000+ teams switched', description: 'Set up in minutes', visual: 'Team smiling at a laptop' },
+      { headline: 'Start in two minutes', description: 'Try it free today', visual: 'Logo on a clean background' }
+    ],
+    script: {
+      hook: 'Rated 4.9 by customers?',
+      durationSeconds: 15,
+      scenes: [
+        { start: 0, end: 3, visual: 'Busy desk piled with paperwork', onScreenText: 'Rated 4.9 by customers', voiceover: 'Still buried in busywork?' },
+        { start: 3, end: 10, visual: 'Dashboard automating tasks', onScreenText: '2,000+ teams switched', voiceover: 'Let the app handle it for you.' },
+        { start: 10, end: 15, visual: 'Logo and CTA button', onScreenText: 'Start in two minutes', voiceover: 'Start your free trial today.' }
+      ]
+    },
+    frames: [
+      { durationSeconds: 5, visual: 'Close-up of a cluttered inbox', text: 'Rated 4.9 by customers' },
+      { durationSeconds: 5, visual: 'Dashboard clearing the inbox', text: '2,000+ teams switched' },
+      { durationSeconds: 5, visual: 'Logo with swipe-up CTA', text: 'Start in two minutes' }
+    ],
+    counters: {
+      competitor: 'Competitor A',
+      claim: 'Industry leader',
+      rationale: 'Peer reviews are more credible than self-declared leadership'
+    }
+  },
+  {
+    type: 'Urgency',
+    headline: 'Offer Ends Friday',
+    primary_text: 'Lock in launch pricing before it is gone. No contracts, cancel anytime.',
+    cta: 'Get Offer',
+    visual_suggestion: 'Product shot with a countdown badge in the corner',
+    assets: {
+      headlines: [
+        { text: 'Offer Ends Friday', pinned: 1 },
+        { text: 'Lock In Launch Pricing' },
+        { text: 'No Contracts, Cancel Anytime' }
+      ],
+      descriptions: [
+        { text: 'Lock in launch pricing before it is gone.' },
+        { text: 'No contracts and no setup fees. Cancel anytime.' }
+      ],
+      longHeadline: 'Launch pricing ends Friday. Lock it in today',
+      businessName: 'Acme'
+    },
+    cards: [
+      { headline: 'Launch pricing', description: 'See how it works', visual: 'Product dashboard close-up' },
+      { headline: 'No contracts', description: 'Set up in minutes', visual: 'Team smiling at a laptop' },
+      { headline: 'Ends Friday', description: 'Try it free today', visual: 'Logo on a clean background' }
+    ],
+    script: {
+      hook: 'Launch pricing?',
+      durationSeconds: 15,
+      scenes: [
+        { start: 0, end: 3, visual: 'Busy desk piled with paperwork', onScreenText: 'Launch pricing', voiceover: 'Still buried in busywork?' },
+        { start: 3, end: 10, visual: 'Dashboard automating tasks', onScreenText: 'No contracts', voiceover: 'Let the app handle it for you.' },
+        { start: 10, end: 15, visual: 'Logo and CTA button', onScreenText: 'Ends Friday', voiceover: 'Start your free trial today.' }
+      ]
+    },
+    frames: [
+      { durationSeconds: 5, visual: 'Close-up of a cluttered inbox', text: 'Launch pricing' },
+      { durationSeconds: 5, visual: 'Dashboard clearing the inbox', text: 'No contracts' },
+      { durationSeconds: 5, visual: 'Logo with swipe-up CTA', text: 'Ends Friday' }
+    ],
+    counters: {
+      competitor: 'Competitor B',
+      claim: 'Annual contracts with discounts',
+      rationale: 'No lock-in removes the main objection to switching'
+    }
+  }
+];
+
+const fixtures: Record<LLMTool, unknown> = {
+  'generate-ad': { ads: generatedAds },
+  'inspect-ad': {
+    grade: 'B',
+    headlineGrade: 'B',
+    bodyGrade: 'B',
+    ctaGrade: 'A',
+    summary: 'Clear offer with a strong call to action; the body could lead with the main benefit.',
+    suggestions: [
+      'Move the primary benefit into the first sentence of the body',
+      'Add a concrete number to the headline',
+      'Mention a proof point such as reviews or customer count'
+    ],
+    predictedCTR: 'Medium',
+    attentionScore: 7,
+    complianceCheck: {
+      status: 'warning',
+      violations: [
+        {
+          ruleId: 'base.clear-offer',
+          severity: 'warning',
+          explanation: 'The offer does not state how long the discount lasts'
+        }
+      ]
+    }
+  },
+  'refine-ad': {
+    variation: {
+      type: 'Benefit-led',
+      headline: 'Get 5 Hours Back Every Week',
+      primary_text: 'Automate the busywork in under two minutes. 2,000+ teams already got their evenings back.',
+      cta: 'Learn More',
+      visual_suggestion: 'Relaxed team leaving the office at 5pm, laptop closed'
+    },
+    changes: [
+      'Led the body with the main benefit',
+      'Added the customer count as a proof point'
+    ]
+  },
+  'localize-ad': {
+    variation: generatedAds[0],
+    notes: ['Fixture output is returned unchanged for every locale']
+  }
+};
+
+// Rough token estimate so usage metadata is populated in tests
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function createFixtureProvider(): LLMProvider {
+  const provider: LLMProvider = {
+    name: 'fixture',
+    defaultModel: 'fixture-v1',
+
+    async complete(request: CompletionRequest): Promise<CompletionResult> {
+      const content = JSON.stringify(fixtures[request.tool]);
+      const promptTokens = estimateTokens(request.messages.map(m => m.content).join('\n'));
+      const completionTokens = estimateTokens(content);
+
+      return {
+        content,
+        provider: 'fixture',
+        model: request.model || 'fixture-v1',
+        usage: {
+          promptTokens,
+          completionTokens,
+          totalTokens: promptTokens + completionTokens
+        }
+      };
+    },
+
+    // Replays the fixture in small fixed-size slices to exercise
+    // incremental parsing the same way a real stream would.
+    async *stream(request: CompletionRequest): AsyncIterable<CompletionChunk> {
+      const { content, usage } = await provider.complete(request);
+      for (let i = 0; i < content.length; i += 24) {
+        yield { delta: content.slice(i, i + 24) };
+      }
+      yield { delta: '', usage };
+    },
+
+    async ping(): Promise<void> {}
+  };
+  return provider;
+}
@@ -0,0 +1,35 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { resolveLLM } from '.';
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('resolveLLM', () => {
+  it("uses the provider's default model when none is requested", () => {
+    expect(resolveLLM()).toMatchObject({ model: 'fixture-v1' });
+  });
+
+  it("only allows the provider's default model when no allowlist is set", () => {
+    expect(resolveLLM({ model: 'fixture-v1' }).model).toBe('fixture-v1');
+    expect(() => resolveLLM({ model: 'gpt-4o' })).toThrow(/not allowed/);
+  });
+
+  it('allows the models listed in LLM_ALLOWED_MODELS', () => {
+    vi.stubEnv('LLM_ALLOWED_MODELS', 'gpt-4o, gpt-4o-mini');
+    expect(resolveLLM({ model: 'gpt-4o-mini' }).model).toBe('gpt-4o-mini');
+    expect(() => resolveLLM({ model: 'fixture-v1' })).toThrow(/not allowed/);
+  });
+
+  it('lets experiment arms pick any model', () => {
+    expect(resolveLLM({ model: 'gpt-4o-mini' }, { trusted: true }).model).toBe('gpt-4o-mini');
+  });
+
+  it('refuses the fixture provider unless fixtures are enabled', () => {
+    vi.stubEnv('LLM_PROVIDER', 'local');
+    expect(() => resolveLLM({ provider: 'fixture' })).toThrow(/not enabled/);
+
+    vi.stubEnv('LLM_FIXTURES', '1');
+    expect(resolveLLM({ provider: 'fixture' }).provider.name).toBe('fixture');
+  });
+});
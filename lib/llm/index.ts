@@ -0,0 +1,100 @@
+// lib/llm/index.ts
+// Provider selection: LLM_PROVIDER picks the default backend, and a request
+// may override provider/model through the optional `llm` field.
+import { z } from 'zod';
+import { ApiError } from '@/lib/errors';
+import { createFixtureProvider } from './fixture';
+import { createOpenAIProvider } from './openai';
+import type { LLMProvider } from './types';
+
+export type * from './types';
+export { addUsage, completeStructured, MalformedOutputError } from './structured';
+export { isTransientError, withRetry } from './retry';
+export type { OutputIssue, StructuredResult } from './structured';
+
+export const providerNames = ["openai", "local", "fixture"] as const;
+export type ProviderName = typeof providerNames[number];
+
+export const LLMSelectionSchema = z.object({
+  provider: z.enum(providerNames).optional(),
+  model: z.string().min(1).max(64).optional()
+});
+export type LLMSelection = z.infer<typeof LLMSelectionSchema>;
+
+// Providers are built lazily so a missing OpenAI key doesn't break
+// deployments that only use the local or fixture backends.
+const instances = new Map<ProviderName, LLMProvider>();
+
+function buildProvider(name: ProviderName): LLMProvider {
+  switch (name) {
+    case 'openai':
+      if (!process.env.OPENAI_API_KEY) {
+        throw new Error('OpenAI client configuration error');
+      }
+      return createOpenAIProvider({
+        name,
+        apiKey: process.env.OPENAI_API_KEY,
+        defaultModel: process.env.OPENAI_MODEL || 'gpt-4',
+        timeout: 10000
+      });
+    case 'local':
+      return createOpenAIProvider({
+        name,
+        // Most local servers ignore the key but the SDK requires one
+        apiKey: process.env.LOCAL_LLM_API_KEY || 'local',
+        baseURL: process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1',
+        defaultModel: process.env.LOCAL_LLM_MODEL || 'llama3.1',
+        timeout: 60000
+      });
+    case 'fixture':
+      return createFixtureProvider();
+  }
+}
+
+export function getProvider(name?: ProviderName): LLMProvider {
+  const resolved = name || defaultProviderName();
+  let provider = instances.get(resolved);
+  if (!provider) {
+    provider = buildProvider(resolved);
+    instances.set(resolved, provider);
+  }
+  return provider;
+}
+
+export function defaultProviderName(): ProviderName {
+  const configured = process.env.LLM_PROVIDER as ProviderName | undefined;
+  return configured && providerNames.includes(configured) ? configured : 'openai';
+}
+
+// The fixture backend answers for free, so callers may only pick it where
+// fixtures are switched on (LLM_PROVIDER=fixture or LLM_FIXTURES=1)
+function fixturesEnabled(): boolean {
+  return defaultProviderName() === 'fixture' || process.env.LLM_FIXTURES === '1';
+}
+
+// LLM_ALLOWED_MODELS when set; otherwise only the provider's default model
+function allowedModels(provider: LLMProvider): string[] {
+  const configured = process.env.LLM_ALLOWED_MODELS?.split(',').map(m => m.trim()).filter(Boolean);
+  return configured?.length ? configured : [provider.defaultModel];
+}
+
+// Resolve the provider and concrete model for a request. Caller selections
+// are checked against the allowlist; experiment arms are our own config and
+// pass `{ trusted: true }`.
+export function resolveLLM(
+  selection?: LLMSelection,
+  { trusted = false }: { trusted?: boolean } = {}
+): { provider: LLMProvider; model: string } {
+  if (!trusted && selection?.provider === 'fixture' && !fixturesEnabled()) {
+    throw new ApiError('MODEL_NOT_ALLOWED', 'Provider "fixture" is not enabled');
+  }
+
+  const provider = getProvider(selection?.provider);
+  const model = selection?.model || provider.defaultModel;
+
+  if (!trusted && selection?.model && !allowedModels(provider).includes(model)) {
+    throw new ApiError('MODEL_NOT_ALLOWED', `Model "${model}" is not allowed`);
+  }
+
+  return { provider, model };
+}
@@ -0,0 +1,57 @@
+// lib/llm/json-stream.ts
+// Incrementally pulls complete items out of the first array in a streamed
+// JSON object, e.g. each ad from `{"ads": [{...}, {...}]}`, so callers can
+// act on an item as soon as its closing brace arrives.
+
+export type ArrayItemExtractor = {
+  push(delta: string): unknown[];
+};
+
+export function createArrayItemExtractor(): ArrayItemExtractor {
+  let buffer = '';
+  let position = 0;
+  let inString = false;
+  let escaped = false;
+  let itemStart = -1;
+  const stack: string[] = [];
+
+  return {
+    push(delta: string): unknown[] {
+      buffer += delta;
+      const items: unknown[] = [];
+
+      for (; position < buffer.length; position++) {
+        const char = buffer[position];
+
+        if (inString) {
+          if (escaped) escaped = false;
+          else if (char === '\\') escaped = true;
+          else if (char === '"') inString = false;
+          continue;
+        }
+
+        if (char === '"') {
+          inString = true;
+        } else if (char === '{' || char === '[') {
+          // Items are objects directly inside the root object's first array
+          if (char === '{' && stack.length === 2 && stack[0] === '{' && stack[1] === '[') {
+            itemStart = position;
+          }
+          stack.push(char);
+        } else if (char === '}' || char === ']') {
+          stack.pop();
+          if (char === '}' && itemStart !== -1 && stack.length === 2) {
+            try {
+              items.push(JSON.parse(buffer.slice(itemStart, position + 1)));
+            } catch {
+              // Leave malformed items to the caller's final validation
+            }
+            itemStart = -1;
+          }
+        }
+      }
+
+      return items;
+    }
+  };
+}
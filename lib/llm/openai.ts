@@ -0,0 +1,80 @@
+// lib/llm/openai.ts
+import OpenAI from 'openai';
+import type { CompletionChunk, CompletionRequest, CompletionResult, LLMProvider } from './types';
+
+type OpenAIProviderOptions = {
+  name: string;
+  apiKey: string;
+  defaultModel: string;
+  baseURL?: string;
+  timeout?: number;
+  streamTimeout?: number;
+};
+
+// Works for api.openai.com as well as any OpenAI-compatible server
+// (Ollama, llama.cpp, vLLM) reachable through baseURL.
+export function createOpenAIProvider(options: OpenAIProviderOptions): LLMProvider {
+  const client = new OpenAI({
+    apiKey: options.apiKey,
+    baseURL: options.baseURL,
+    timeout: options.timeout ?? 10000
+  });
+
+  return {
+    name: options.name,
+    defaultModel: options.defaultModel,
+
+    async complete(request: CompletionRequest): Promise<CompletionResult> {
+      const model = request.model || options.defaultModel;
+
+      const response = await client.chat.completions.create({
+        model,
+        messages: request.messages,
+        response_format: request.json ? { type: 'json_object' } : undefined,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+      });
+
+      return {
+        content: response.choices[0]?.message?.content ?? '',
+        provider: options.name,
+        model,
+        usage: response.usage && {
+          promptTokens: response.usage.prompt_tokens,
+          completionTokens: response.usage.completion_tokens,
+          totalTokens: response.usage.total_tokens
+        }
+      };
+    },
+
+    // Streams get a longer timeout since the first token arrives quickly
+    // but Carousel/Video generations can run well past the blocking limit.
+    async *stream(request: CompletionRequest): AsyncIterable<CompletionChunk> {
+      const stream = await client.chat.completions.create({
+        model: request.model || options.defaultModel,
+        messages: request.messages,
+        response_format: request.json ? { type: 'json_object' } : undefined,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        stream: true,
+        stream_options: { include_usage: true }
+      }, { timeout: options.streamTimeout ?? 60000 });
+
+      for await (const chunk of stream) {
+        yield {
+          delta: chunk.choices[0]?.delta?.content ?? '',
+          usage: chunk.usage ? {
+            promptTokens: chunk.usage.prompt_tokens,
+            completionTokens: chunk.usage.completion_tokens,
+            totalTokens: chunk.usage.total_tokens
+          } : undefined
+        };
+      }
+    },
+
+    // Model lookup is free and checks the key, the server and the model
+    async ping(model?: string): Promise<void> {
+      await client.models.retrieve(model || options.defaultModel);
+    }
+  };
+}
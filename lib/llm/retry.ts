@@ -0,0 +1,39 @@
+// lib/llm/retry.ts
+// Retries for provider calls that fail for reasons unrelated to the request:
+// rate limits, overloaded upstreams, timeouts and dropped connections.
+// Malformed output and validation errors are never retried here.
+import { ApiError } from '@/lib/errors';
+
+type RetryOptions = {
+  attempts?: number;
+  baseDelayMs?: number;
+  onRetry?: (error: unknown, attempt: number) => void;
+};
+
+export function isTransientError(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+  // Already classified; malformed output would only come back malformed
+  if (error instanceof ApiError) return error.retryable && error.code !== 'UPSTREAM_MALFORMED';
+  const status = (error as { status?: number }).status;
+  if (typeof status === 'number') {
+    return status === 408 || status === 409 || status === 429 || status >= 500;
+  }
+  return /timeout|timed out|connection|network|ECONNRESET|fetch failed/i.test(`${error.name} ${error.message}`);
+}
+
+// Exponential backoff with jitter: ~base, ~2x base, ~4x base...
+export async function withRetry<T>(
+  fn: (attempt: number) => Promise<T>,
+  { attempts = 3, baseDelayMs = 500, onRetry }: RetryOptions = {}
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      if (attempt >= attempts || !isTransientError(error)) throw error;
+      onRetry?.(error, attempt);
+      const delay = baseDelayMs * 2 ** (attempt - 1) * (0.5 + Math.random());
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
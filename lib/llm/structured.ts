@@ -0,0 +1,110 @@
+// lib/llm/structured.ts
+// JSON completions validated against a zod schema. Invalid output is first
+// repaired locally (code fences, surrounding prose) and then re-asked with
+// the validation issues before giving up with a MalformedOutputError.
+import { z } from 'zod';
+import { ApiError } from '@/lib/errors';
+import { logger } from '@/lib/logger';
+import type { CompletionRequest, CompletionResult, CompletionUsage, LLMProvider } from './types';
+
+export type OutputIssue = {
+  path: string;
+  message: string;
+};
+
+// UPSTREAM_MALFORMED; the issues are returned to the client, raw output isn't
+export class MalformedOutputError extends ApiError {
+  readonly issues: OutputIssue[];
+  readonly attempts: number;
+  readonly raw: string;
+
+  constructor(message: string, issues: OutputIssue[], attempts: number, raw: string) {
+    super('UPSTREAM_MALFORMED', message, { details: { issues } });
+    this.name = 'MalformedOutputError';
+    this.issues = issues;
+    this.attempts = attempts;
+    this.raw = raw;
+  }
+}
+
+export type StructuredResult<T> = Omit<CompletionResult, 'content'> & {
+  data: T;
+  attempts: number;
+};
+
+// Pull a JSON object out of common model wrappers like ```json fences
+// or a sentence of preamble.
+function extractJson(content: string): unknown {
+  const trimmed = content.trim();
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/);
+    const candidate = fenced?.[1] ?? trimmed.slice(trimmed.indexOf('{'), trimmed.lastIndexOf('}') + 1);
+    return JSON.parse(candidate);
+  }
+}
+
+export function addUsage(total: CompletionUsage, usage?: CompletionUsage): CompletionUsage {
+  return {
+    promptTokens: (total.promptTokens ?? 0) + (usage?.promptTokens ?? 0),
+    completionTokens: (total.completionTokens ?? 0) + (usage?.completionTokens ?? 0),
+    totalTokens: (total.totalTokens ?? 0) + (usage?.totalTokens ?? 0)
+  };
+}
+
+export async function completeStructured<S extends z.ZodTypeAny>(
+  provider: LLMProvider,
+  request: CompletionRequest,
+  schema: S,
+  { maxRepairs = 1 }: { maxRepairs?: number } = {}
+): Promise<StructuredResult<z.infer<S>>> {
+  const messages = [...request.messages];
+  let usage: CompletionUsage = {};
+  let issues: OutputIssue[] = [];
+  let raw = '';
+
+  for (let attempt = 1; attempt <= maxRepairs + 1; attempt++) {
+    const response = await provider.complete({ ...request, messages, json: true });
+    usage = addUsage(usage, response.usage);
+    raw = response.content;
+
+    let parsed: unknown;
+    try {
+      parsed = extractJson(raw);
+    } catch {
+      issues = [{ path: '', message: 'Response is not valid JSON' }];
+    }
+
+    if (parsed !== undefined) {
+      const validation = schema.safeParse(parsed);
+      if (validation.success) {
+        return {
+          data: validation.data,
+          provider: response.provider,
+          model: response.model,
+          usage,
+          attempts: attempt
+        };
+      }
+      issues = validation.error.errors.map(e => ({
+        path: e.path.join('.'),
+        message: e.message
+      }));
+    }
+
+    // Re-ask with the concrete problems so the model can fix its own output
+    messages.push(
+      { role: 'assistant', content: raw },
+      {
+        role: 'user',
+        content: `Your previous response did not match the required JSON format:\n${
+          issues.map(i => `- ${i.path || '(root)'}: ${i.message}`).join('\n')
+        }\nReturn only the corrected JSON object.`
+      }
+    );
+  }
+
+  logger.error('Malformed LLM output', { tool: request.tool, provider: provider.name, issues, raw });
+  throw new MalformedOutputError(`Received malformed ${request.tool} data`, issues, maxRepairs + 1, raw);
+}
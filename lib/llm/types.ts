@@ -0,0 +1,48 @@
+// lib/llm/types.ts
+// Shared contract between the route handlers and every LLM backend.
+
+export type LLMTool = 'generate-ad' | 'inspect-ad' | 'refine-ad' | 'localize-ad';
+
+export type LLMMessage = {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+};
+
+export type CompletionRequest = {
+  tool: LLMTool;
+  messages: LLMMessage[];
+  temperature: number;
+  maxTokens: number;
+  json?: boolean;
+  model?: string;
+};
+
+export type CompletionUsage = {
+  promptTokens?: number;
+  completionTokens?: number;
+  totalTokens?: number;
+};
+
+export type CompletionResult = {
+  content: string;
+  provider: string;
+  model: string;
+  usage?: CompletionUsage;
+};
+
+// Streamed output arrives as text deltas; the final chunk carries usage
+// when the backend reports it.
+export type CompletionChunk = {
+  delta: string;
+  usage?: CompletionUsage;
+};
+
+export interface LLMProvider {
+  name: string;
+  defaultModel: string;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+  stream(request: CompletionRequest): AsyncIterable<CompletionChunk>;
+  // Cheapest call that proves the backend is reachable and knows the model;
+  // never generates tokens. Used by the readiness check.
+  ping(model?: string): Promise<void>;
+}
@@ -0,0 +1,50 @@
+// lib/locales.ts
+// Locales the generator and inspector write and judge copy in. Kept free of
+// server-only imports so page.tsx can list them.
+
+export type LocaleInfo = {
+  language: string;
+  region: string;
+  currency: string;
+  // Google counts full-width (CJK) characters as 2 toward its limits
+  doubleWidth: boolean;
+};
+
+export const locales = {
+  'en-US': { language: 'English', region: 'United States', currency: 'USD', doubleWidth: false },
+  'en-GB': { language: 'English', region: 'United Kingdom', currency: 'GBP', doubleWidth: false },
+  'de-DE': { language: 'German', region: 'Germany', currency: 'EUR', doubleWidth: false },
+  'fr-FR': { language: 'French', region: 'France', currency: 'EUR', doubleWidth: false },
+  'es-ES': { language: 'Spanish', region: 'Spain', currency: 'EUR', doubleWidth: false },
+  'es-MX': { language: 'Spanish', region: 'Mexico', currency: 'MXN', doubleWidth: false },
+  'it-IT': { language: 'Italian', region: 'Italy', currency: 'EUR', doubleWidth: false },
+  'nl-NL': { language: 'Dutch', region: 'Netherlands', currency: 'EUR', doubleWidth: false },
+  'pt-BR': { language: 'Portuguese', region: 'Brazil', currency: 'BRL', doubleWidth: false },
+  'ja-JP': { language: 'Japanese', region: 'Japan', currency: 'JPY', doubleWidth: true },
+  'ko-KR': { language: 'Korean', region: 'South Korea', currency: 'KRW', doubleWidth: true },
+  'zh-CN': { language: 'Simplified Chinese', region: 'China', currency: 'CNY', doubleWidth: true }
+} as const satisfies Record<string, LocaleInfo>;
+
+export type Locale = keyof typeof locales;
+
+export const localeCodes = Object.keys(locales) as [Locale, ...Locale[]];
+
+export const DEFAULT_LOCALE: Locale = 'en-US';
+
+// Hangul, kana, CJK ideographs and full-width forms
+const WIDE_CHAR = /[\u1100-\u115F\u2E80-\u303E\u3041-\u33FF\u3400-\u4DBF\u4E00-\u9FFF\uA960-\uA97F\uAC00-\uD7A3\uF900-\uFAFF\uFE30-\uFE4F\uFF00-\uFF60\uFFE0-\uFFE6]/g;
+
+// Length as platforms count it for the locale
+export function textWidth(text: string, locale: Locale = DEFAULT_LOCALE): number {
+  if (!locales[locale].doubleWidth) return text.length;
+  return text.length + (text.match(WIDE_CHAR)?.length ?? 0);
+}
+
+// Sample price and date in the locale's own formatting, for prompts
+export function localeExamples(locale: Locale): { price: string; date: string } {
+  const { currency } = locales[locale];
+  return {
+    price: new Intl.NumberFormat(locale, { style: 'currency', currency }).format(1299.5),
+    date: new Intl.DateTimeFormat(locale, { dateStyle: 'long', timeZone: 'UTC' }).format(Date.UTC(2025, 2, 31))
+  };
+}
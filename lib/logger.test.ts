@@ -0,0 +1,87 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MalformedOutputError } from '@/lib/llm';
+import { createLogger, newRequestId, redact } from './logger';
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe('redact', () => {
+  it('redacts credentials by key, at any depth', () => {
+    expect(redact({
+      headers: { Authorization: 'Bearer abc', cookie: 'session=1' },
+      provider: { config: { apiKey: 'sk-live-123456789', api_key: 'x', password: 'p', clientSecret: 's' } },
+      refreshToken: 'r'
+    })).toEqual({
+      headers: { Authorization: '[redacted]', cookie: '[redacted]' },
+      provider: { config: { apiKey: '[redacted]', api_key: '[redacted]', password: '[redacted]', clientSecret: '[redacted]' } },
+      refreshToken: '[redacted]'
+    });
+  });
+
+  it('redacts API keys, bearer tokens and emails inside free text', () => {
+    expect(redact({ note: 'Key dfy_abc-123 and sk-proj-abcdefgh rejected' })).toEqual({ note: 'Key [redacted] and [redacted] rejected' });
+    expect(redact(['Sent with Bearer eyJhbGci.payload to ada.lovelace+ads@example.co.uk'])).toEqual([
+      'Sent with [redacted] to [redacted email]'
+    ]);
+  });
+
+  it('replaces customer content with its size', () => {
+    expect(redact({ input: { headline: 'Save 5 hours', email: 'ada@example.com', cards: [{}] }, tokens: 12 })).toEqual({
+      input: { headline: '[redacted 12 chars]', email: '[redacted 15 chars]', cards: '[redacted]' },
+      tokens: 12
+    });
+  });
+
+  it('redacts the message and own properties of errors', () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    const error = new MalformedOutputError('No account for ada@example.com', [{ path: 'ads', message: 'Required' }], 2, '{"ads": "secret copy"}');
+
+    expect(redact({ error })).toEqual({
+      error: expect.objectContaining({
+        name: 'MalformedOutputError',
+        message: 'No account for [redacted email]',
+        raw: '[redacted 22 chars]'
+      })
+    });
+    expect(redact({ error })).not.toHaveProperty('error.stack');
+  });
+
+  it('truncates deeply nested values', () => {
+    expect(redact({ a: { b: { c: { d: { e: { f: { g: 1 } } } } } } })).toEqual({ a: { b: { c: { d: { e: { f: '[truncated]' } } } } } });
+  });
+});
+
+describe('createLogger', () => {
+  it('writes one redacted JSON line per event, with child fields', () => {
+    const write = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.stubEnv('LOG_LEVEL', 'info');
+    createLogger({ requestId: 'req-12345678' }).child({ route: '/api/auth/magic-link' })
+      .warn('Sign-in failed', { email: 'ada@example.com', detail: 'token for ada@example.com expired' });
+
+    const line = JSON.parse(write.mock.calls[0][0]);
+    expect(line).toMatchObject({
+      level: 'warn',
+      msg: 'Sign-in failed',
+      requestId: 'req-12345678',
+      route: '/api/auth/magic-link',
+      email: '[redacted 15 chars]',
+      detail: 'token for [redacted email] expired'
+    });
+  });
+
+  it('drops events below LOG_LEVEL', () => {
+    vi.stubEnv('LOG_LEVEL', 'warn');
+    const write = vi.spyOn(console, 'log').mockImplementation(() => {});
+    createLogger().info('Quiet');
+    expect(write).not.toHaveBeenCalled();
+  });
+});
+
+describe('newRequestId', () => {
+  it('keeps ID-like incoming values and replaces anything else', () => {
+    expect(newRequestId('client-req-0001')).toBe('client-req-0001');
+    expect(newRequestId('bad id; drop table')).toMatch(/^[0-9a-f-]{36}$/);
+  });
+});
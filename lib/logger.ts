@@ -0,0 +1,120 @@
+// lib/logger.ts
+// Structured logs: one JSON line per event, tagged with the request ID that
+// middleware.ts assigns to every API call. Secrets and ad content are
+// redacted before anything is written, so logs can be shipped anywhere.
+// LOG_LEVEL (debug, info, warn, error) sets the threshold; default info.
+
+export const REQUEST_ID_HEADER = 'x-request-id';
+
+export const logLevels = ["debug", "info", "warn", "error"] as const;
+export type LogLevel = typeof logLevels[number];
+
+export type LogFields = Record<string, unknown>;
+
+export type Logger = {
+  debug(msg: string, fields?: LogFields): void;
+  info(msg: string, fields?: LogFields): void;
+  warn(msg: string, fields?: LogFields): void;
+  error(msg: string, fields?: LogFields): void;
+  child(fields: LogFields): Logger;
+};
+
+// Credentials, whatever they're nested in
+const SECRET_KEY = /(authorization|cookie|password|secret|token|api_?key)$/i;
+const SECRET_VALUE = /\b(dfy_[\w-]+|sk-[\w-]{8,}|Bearer\s+\S+)/g;
+// Addresses turn up in free text too, e.g. error messages from the mailer
+const EMAIL = /[\w.+-]+@[\w-]+(\.[\w-]+)+/g;
+
+// Briefs, ad copy and model output are customer content; logs keep their size
+const CONTENT_KEYS = new Set([
+  'targetAudience', 'goal', 'uniqueSellingPoint', 'contextDescription', 'competitors',
+  'headline', 'headlines', 'longHeadline', 'body', 'primary_text', 'cta', 'description',
+  'descriptions', 'offerDescription', 'websiteOrBrand', 'visual_suggestion', 'visualSuggestion',
+  'cards', 'script', 'frames', 'assets', 'ads', 'ad', 'text', 'content', 'messages', 'raw',
+  'rejected', 'feedback', 'instruction', 'email'
+]);
+
+const MAX_DEPTH = 6;
+
+function redactContent(value: unknown): string {
+  return typeof value === 'string' ? `[redacted ${value.length} chars]` : '[redacted]';
+}
+
+export function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === 'string') return value.replace(SECRET_VALUE, '[redacted]').replace(EMAIL, '[redacted email]');
+  if (value === null || typeof value !== 'object') return value;
+  if (depth >= MAX_DEPTH) return '[truncated]';
+
+  if (value instanceof Error) {
+    // Own properties carry details like MalformedOutputError's issues and raw
+    const { name, message, stack, ...rest } = value as Error & LogFields;
+    return {
+      name,
+      message: redact(message, depth + 1),
+      ...(redact({ ...rest }, depth + 1) as LogFields),
+      ...(process.env.NODE_ENV !== 'production' && { stack })
+    };
+  }
+  if (Array.isArray(value)) return value.map(item => redact(item, depth + 1));
+
+  return Object.fromEntries(Object.entries(value).map(([key, field]) => [
+    key,
+    SECRET_KEY.test(key) ? '[redacted]'
+      : CONTENT_KEYS.has(key) ? redactContent(field)
+      : redact(field, depth + 1)
+  ]));
+}
+
+function threshold(): number {
+  const configured = process.env.LOG_LEVEL as LogLevel | undefined;
+  return logLevels.indexOf(configured && logLevels.includes(configured) ? configured : 'info');
+}
+
+function write(level: LogLevel, msg: string, fields: LogFields) {
+  if (logLevels.indexOf(level) < threshold()) return;
+  const line = JSON.stringify({
+    time: new Date().toISOString(),
+    level,
+    msg,
+    ...(redact(fields) as LogFields)
+  });
+  if (level === 'error') console.error(line);
+  else if (level === 'warn') console.warn(line);
+  else console.log(line);
+}
+
+export function createLogger(base: LogFields = {}): Logger {
+  return {
+    debug: (msg, fields) => write('debug', msg, { ...base, ...fields }),
+    info: (msg, fields) => write('info', msg, { ...base, ...fields }),
+    warn: (msg, fields) => write('warn', msg, { ...base, ...fields }),
+    error: (msg, fields) => write('error', msg, { ...base, ...fields }),
+    child: fields => createLogger({ ...base, ...fields })
+  };
+}
+
+// For library code that runs outside a request
+export const logger = createLogger();
+
+// Client-supplied IDs are kept when they look like IDs, so a caller can
+// correlate its own logs with ours
+export function newRequestId(incoming?: string | null): string {
+  return incoming && /^[\w-]{8,64}$/.test(incoming) ? incoming : crypto.randomUUID();
+}
+
+export type RequestContext = {
+  requestId: string;
+  log: Logger;
+  startedAt: number;
+};
+
+// Middleware has already stamped the header; the fallback covers handlers
+// called directly
+export function requestContext(request: Request): RequestContext {
+  const requestId = newRequestId(request.headers.get(REQUEST_ID_HEADER));
+  return {
+    requestId,
+    log: logger.child({ requestId, route: new URL(request.url).pathname }),
+    startedAt: Date.now()
+  };
+}
@@ -0,0 +1,29 @@
+// lib/owner.ts
+// Saved resources (brand kits, campaigns) belong to the signed-in user or the
+// API key that created them. Anonymous callers cannot own anything.
+import { ApiError, errorResponse } from '@/lib/errors';
+import { requestContext } from '@/lib/logger';
+import { identifyCaller, type Caller } from '@/lib/quota';
+
+export function resourceOwner(caller: Caller): string | null {
+  if (caller.userId) return `user:${caller.userId}`;
+  if (caller.keyId) return `key:${caller.keyId}`;
+  return null;
+}
+
+// Wraps an owner-scoped route: resolves the owner from the session or API key
+// and refuses anonymous callers. These routes are not metered. Anything the
+// handler throws becomes an error response.
+export function withOwner<Context>(
+  handler: (request: Request, owner: string, context: Context) => Promise<Response>
+) {
+  return async (request: Request, context: Context): Promise<Response> => {
+    try {
+      const owner = resourceOwner(await identifyCaller(request));
+      if (!owner) throw new ApiError('UNAUTHORIZED', 'Sign in or use an API key');
+      return await handler(request, owner, context);
+    } catch (error) {
+      return errorResponse(error, requestContext(request));
+    }
+  };
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { AdAnalysisSchema, type AdAnalysis } from '@/lib/schemas';
+import { citesKnownRules, policyFor, renderPolicy } from '.';
+
+const ruleIds = (industry: Parameters<typeof policyFor>[0], platform: Parameters<typeof policyFor>[1]) =>
+  policyFor(industry, platform).rules.map(rule => rule.id);
+
+describe('policyFor', () => {
+  it('composes the base, industry and platform packs into a versioned ID', () => {
+    expect(policyFor('Health', 'facebook').id).toBe('base@1+health@1+facebook@1');
+    expect(policyFor('General', 'google-search').id).toBe('base@1+general@1+google-search@1');
+  });
+
+  it('selects the industry pack', () => {
+    expect(ruleIds('Finance', 'facebook')).toEqual(expect.arrayContaining(['finance.guaranteed-returns', 'finance.disclosures']));
+    expect(ruleIds('Real Estate', 'facebook')).toContain('realestate.fair-housing');
+    expect(ruleIds('Health', 'facebook')).not.toContain('finance.guaranteed-returns');
+    expect(ruleIds('General', 'facebook')).toEqual(ruleIds('Other', 'facebook'));
+  });
+
+  it('selects the platform pack', () => {
+    expect(ruleIds('SaaS', 'google-search')).toEqual(expect.arrayContaining(['google.editorial', 'google.destination-match']));
+    expect(ruleIds('SaaS', 'google-display')).toContain('google.misleading-design');
+    expect(ruleIds('SaaS', 'google-search')).not.toContain('policy.personal-attributes');
+    expect(ruleIds('SaaS', 'instagram')).toContain('policy.personal-attributes');
+  });
+
+  it('always includes the base rules first', () => {
+    expect(ruleIds('E-commerce', 'google-display').slice(0, 3)).toEqual(['base.truthful-claims', 'base.clear-offer', 'base.false-urgency']);
+  });
+
+  it('words platform branding for the platform', () => {
+    const branding = (platform: 'facebook' | 'instagram') =>
+      policyFor('General', platform).rules.find(rule => rule.id === 'meta.branded-content')?.rule;
+    expect(branding('facebook')).toContain('Facebook logos');
+    expect(branding('instagram')).toContain('Instagram logos');
+  });
+});
+
+describe('renderPolicy', () => {
+  it('lists every rule with its ID, severity and examples', () => {
+    const rendered = renderPolicy(policyFor('Finance', 'facebook'));
+    expect(rendered).toContain('- [finance.guaranteed-returns] (error)');
+    expect(rendered).toContain('Violating: "#1 rated app in America"');
+    expect(rendered.split('\n    - ')).toHaveLength(policyFor('Finance', 'facebook').rules.length);
+  });
+});
+
+describe('citesKnownRules', () => {
+  const analysis = (ruleId: string): AdAnalysis => ({
+    grade: 'B',
+    headlineGrade: 'B',
+    bodyGrade: 'B',
+    ctaGrade: 'B',
+    summary: 'Solid ad',
+    suggestions: ['Add urgency'],
+    predictedCTR: 'Medium',
+    attentionScore: 6,
+    complianceCheck: {
+      status: 'warning',
+      violations: [{ ruleId, severity: 'warning', explanation: 'Offer terms are missing' }]
+    }
+  });
+
+  it("rejects rule IDs outside the request's pack", () => {
+    const schema = AdAnalysisSchema.superRefine(citesKnownRules(policyFor('SaaS', 'google-search')));
+
+    expect(schema.safeParse(analysis('base.clear-offer')).success).toBe(true);
+    const unknown = schema.safeParse(analysis('policy.personal-attributes'));
+    expect(unknown.success).toBe(false);
+    expect(unknown.error?.issues[0].path).toEqual(['complianceCheck', 'violations', 0, 'ruleId']);
+  });
+});
@@ -0,0 +1,49 @@
+// lib/policies/index.ts
+// Compliance policy packs: a base pack, one per industry and one per
+// platform. The composed pack is injected into both prompts and its rule
+// IDs are the only ones a structured complianceCheck may cite.
+import { z } from 'zod';
+import type { AdAnalysis } from '@/lib/schemas';
+import { basePack, industryPacks, platformPacks } from './packs';
+import type { AdPlatform, ComposedPolicy, Industry, PolicyPack } from './types';
+
+export type * from './types';
+
+function packId(pack: PolicyPack) {
+  return `${pack.id}@${pack.version}`;
+}
+
+export function policyFor(industry: Industry, platform: AdPlatform): ComposedPolicy {
+  const packs = [basePack, industryPacks[industry], platformPacks[platform]];
+  return {
+    id: packs.map(packId).join('+'),
+    rules: packs.flatMap(pack => pack.rules)
+  };
+}
+
+// Prompt-ready rule list with IDs so the model can cite them
+export function renderPolicy(policy: ComposedPolicy): string {
+  return policy.rules.map(rule => {
+    const examples = rule.examples
+      ? `\n      Violating: "${rule.examples.violating}" / Compliant: "${rule.examples.compliant}"`
+      : '';
+    return `    - [${rule.id}] (${rule.severity}) ${rule.title}: ${rule.rule}${examples}`;
+  }).join('\n');
+}
+
+// Refinement for AdAnalysisSchema: violations must cite rules from this pack
+export function citesKnownRules(policy: ComposedPolicy) {
+  const known = new Set(policy.rules.map(rule => rule.id));
+
+  return (analysis: AdAnalysis, ctx: z.RefinementCtx) => {
+    analysis.complianceCheck.violations.forEach((violation, index) => {
+      if (!known.has(violation.ruleId)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['complianceCheck', 'violations', index, 'ruleId'],
+          message: `Unknown rule ID; use one of: ${[...known].join(', ')}`
+        });
+      }
+    });
+  };
+}
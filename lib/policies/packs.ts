@@ -0,0 +1,272 @@
+// lib/policies/packs.ts
+// Versioned compliance rules. Bump a pack's version whenever its rules
+// change: the composed ID is part of prompt cache keys and response meta.
+import type { AdPlatform, Industry, PolicyPack } from './types';
+
+export const basePack: PolicyPack = {
+  id: 'base',
+  version: 1,
+  rules: [
+    {
+      id: 'base.truthful-claims',
+      title: 'Truthful, substantiated claims',
+      rule: 'Every factual or performance claim must be true and supportable; no invented statistics, awards or reviews.',
+      severity: 'error',
+      examples: {
+        violating: '#1 rated app in America',
+        compliant: 'Rated 4.8 stars by our customers'
+      }
+    },
+    {
+      id: 'base.clear-offer',
+      title: 'Clear offer terms',
+      rule: 'Prices, discounts and free trials must state material conditions (duration, renewal price) or link to them.',
+      severity: 'warning',
+      examples: {
+        violating: 'Free forever!*',
+        compliant: 'Free 14-day trial, then $9/month. Cancel anytime.'
+      }
+    },
+    {
+      id: 'base.false-urgency',
+      title: 'No false urgency',
+      rule: 'Deadlines and scarcity ("only 3 left") must be real.',
+      severity: 'warning'
+    }
+  ]
+};
+
+export const industryPacks: Record<Industry, PolicyPack> = {
+  General: { id: 'general', version: 1, rules: [] },
+  Other: { id: 'other', version: 1, rules: [] },
+  Health: {
+    id: 'health',
+    version: 1,
+    rules: [
+      {
+        id: 'health.cure-claims',
+        title: 'No cure or miracle claims',
+        rule: 'Do not claim to cure, treat or prevent disease, or use words like "miracle" or "100% effective".',
+        severity: 'error',
+        examples: {
+          violating: 'This tea cures anxiety',
+          compliant: 'A calming evening tea blend'
+        }
+      },
+      {
+        id: 'health.weight-loss',
+        title: 'Realistic weight-loss claims',
+        rule: 'No specific weight-loss amounts or timeframes, and no before/after imagery implying guaranteed results.',
+        severity: 'error',
+        examples: {
+          violating: 'Lose 20 lbs in 2 weeks',
+          compliant: 'Support your fitness goals with balanced meals'
+        }
+      },
+      {
+        id: 'health.negative-self-image',
+        title: 'No negative self-perception',
+        rule: 'Do not shame body image or imply the viewer has a health condition.',
+        severity: 'error'
+      },
+      {
+        id: 'health.prescription-drugs',
+        title: 'Prescription products',
+        rule: 'Prescription drugs and telehealth prescribing require platform certification; do not promote them without it.',
+        severity: 'error'
+      }
+    ]
+  },
+  Finance: {
+    id: 'finance',
+    version: 1,
+    rules: [
+      {
+        id: 'finance.guaranteed-returns',
+        title: 'No guaranteed returns',
+        rule: 'Do not promise returns, income, approval or outcomes; avoid "risk-free" and "get rich".',
+        severity: 'error',
+        examples: {
+          violating: 'Guaranteed 12% returns, risk-free',
+          compliant: 'Invest with low fees. Capital at risk.'
+        }
+      },
+      {
+        id: 'finance.disclosures',
+        title: 'Required disclosures',
+        rule: 'Loans and credit must state APR ranges or representative examples; investments must carry a risk warning.',
+        severity: 'error',
+        examples: {
+          violating: 'Instant loans at great rates',
+          compliant: 'Personal loans from 6.9% APR. Subject to approval.'
+        }
+      },
+      {
+        id: 'finance.special-category',
+        title: 'Special ad category',
+        rule: 'Credit, employment and housing ads on Meta must run in the Special Ad Category and may not target by age, gender or ZIP code.',
+        severity: 'warning'
+      }
+    ]
+  },
+  'E-commerce': {
+    id: 'ecommerce',
+    version: 1,
+    rules: [
+      {
+        id: 'ecommerce.price-accuracy',
+        title: 'Accurate pricing',
+        rule: 'Prices and "was/now" comparisons must match the landing page and reflect genuine prior prices.',
+        severity: 'error',
+        examples: {
+          violating: 'Was $199, now $49 (never sold at $199)',
+          compliant: 'Now $49, down from $79 last month'
+        }
+      },
+      {
+        id: 'ecommerce.shipping-returns',
+        title: 'Shipping and returns claims',
+        rule: '"Free shipping" and "free returns" must state any minimum order or exclusions.',
+        severity: 'warning'
+      }
+    ]
+  },
+  SaaS: {
+    id: 'saas',
+    version: 1,
+    rules: [
+      {
+        id: 'saas.trial-terms',
+        title: 'Trial and billing terms',
+        rule: 'Free trials that convert to paid plans must say so; "free" may not hide a required payment method without disclosure.',
+        severity: 'warning',
+        examples: {
+          violating: 'Totally free, sign up now',
+          compliant: 'Free 14-day trial. Card required; cancel anytime.'
+        }
+      },
+      {
+        id: 'saas.security-claims',
+        title: 'Security and compliance claims',
+        rule: 'Only claim certifications (SOC 2, HIPAA, GDPR) the product actually holds.',
+        severity: 'error'
+      }
+    ]
+  },
+  'Real Estate': {
+    id: 'realestate',
+    version: 1,
+    rules: [
+      {
+        id: 'realestate.fair-housing',
+        title: 'Fair housing',
+        rule: 'Do not express preference or limitation based on race, color, religion, sex, disability, familial status or national origin.',
+        severity: 'error',
+        examples: {
+          violating: 'Perfect for young couples, no kids',
+          compliant: 'Spacious 2-bed apartment near transit'
+        }
+      },
+      {
+        id: 'realestate.special-category',
+        title: 'Housing special ad category',
+        rule: 'Housing ads on Meta must run in the Special Ad Category without age, gender or ZIP code targeting.',
+        severity: 'warning'
+      },
+      {
+        id: 'realestate.licensing',
+        title: 'Broker identification',
+        rule: 'Listings should identify the licensed broker or agency where local law requires it.',
+        severity: 'warning'
+      }
+    ]
+  }
+};
+
+export const platformPacks: Record<AdPlatform, PolicyPack> = {
+  facebook: metaPack('facebook'),
+  instagram: metaPack('instagram'),
+  'google-search': {
+    id: 'google-search',
+    version: 1,
+    rules: [
+      {
+        id: 'google.editorial',
+        title: 'Editorial standards',
+        rule: 'No excessive capitalization, repeated punctuation, exclamation marks in headlines, emoji or gimmicky spacing.',
+        severity: 'error',
+        examples: {
+          violating: 'FREE Shipping!!!',
+          compliant: 'Free Shipping on Orders Over $50'
+        }
+      },
+      {
+        id: 'google.asset-limits',
+        title: 'Asset length limits',
+        rule: 'Headlines up to 30 characters, descriptions up to 90 characters.',
+        severity: 'error'
+      },
+      {
+        id: 'google.destination-match',
+        title: 'Destination match',
+        rule: 'The offer and prices must match what the landing page shows.',
+        severity: 'error'
+      }
+    ]
+  },
+  'google-display': {
+    id: 'google-display',
+    version: 1,
+    rules: [
+      {
+        id: 'google.editorial',
+        title: 'Editorial standards',
+        rule: 'No excessive capitalization, repeated punctuation, emoji or gimmicky spacing.',
+        severity: 'error'
+      },
+      {
+        id: 'google.asset-limits',
+        title: 'Asset length limits',
+        rule: 'Short headline up to 30 characters, long headline and descriptions up to 90 characters.',
+        severity: 'error'
+      },
+      {
+        id: 'google.misleading-design',
+        title: 'No misleading design',
+        rule: 'Creatives may not imitate system warnings, fake buttons or play controls.',
+        severity: 'error'
+      }
+    ]
+  }
+};
+
+function metaPack(id: 'facebook' | 'instagram'): PolicyPack {
+  return {
+    id,
+    version: 1,
+    rules: [
+      {
+        id: 'policy.personal-attributes',
+        title: 'Personal attributes',
+        rule: 'Do not assert or imply personal attributes such as health, finances, religion, age or sexual orientation ("Are you in debt?").',
+        severity: 'error',
+        examples: {
+          violating: 'Are you struggling with your weight?',
+          compliant: 'Meal plans designed by nutritionists'
+        }
+      },
+      {
+        id: 'meta.engagement-bait',
+        title: 'Engagement bait',
+        rule: 'Do not ask people to like, comment, share or tag to boost reach.',
+        severity: 'warning'
+      },
+      {
+        id: 'meta.branded-content',
+        title: 'Platform branding',
+        rule: `Do not imply endorsement by Meta or use ${id === 'facebook' ? 'Facebook' : 'Instagram'} logos in ways that suggest affiliation.`,
+        severity: 'error'
+      }
+    ]
+  };
+}
@@ -0,0 +1,28 @@
+// lib/policies/types.ts
+import type { GenerateAdInput, InspectAdInput } from '@/lib/schemas';
+
+export type Industry = GenerateAdInput['industry'];
+export type AdPlatform = InspectAdInput['adType'];
+
+export type PolicyRule = {
+  id: string;
+  title: string;
+  rule: string;
+  severity: 'error' | 'warning';
+  examples?: {
+    violating: string;
+    compliant: string;
+  };
+};
+
+export type PolicyPack = {
+  id: string;
+  version: number;
+  rules: PolicyRule[];
+};
+
+// The packs that apply to one industry on one platform, flattened
+export type ComposedPolicy = {
+  id: string;
+  rules: PolicyRule[];
+};
@@ -0,0 +1,325 @@
+// lib/prompts/generate-ad.ts
+// Generator prompt templates. Add a new version instead of editing a
+// registered one so cached results stay attributable.
+import type { LLMMessage } from '@/lib/llm';
+import { policyFor, renderPolicy } from '@/lib/policies';
+import { hasFormatStructure, isGoogleFormat, platformForFormat, type BrandKit, type GenerateAdInput } from '@/lib/schemas';
+import { localeRequirements } from './locale';
+import { createPromptRegistry, type PromptNeeds, type PromptTemplate } from './registry';
+
+// The route resolves `brandKitId` and passes the kit itself
+export type GenerateAdPromptInput = GenerateAdInput & { brandKit?: BrandKit };
+
+const SYSTEM_PROMPT = "You are an expert advertising copywriter specializing in performance marketing.";
+
+function splitCompetitors(competitors?: string): string[] {
+  return (competitors ?? '')
+    .split(/[,;\n]/)
+    .map(c => c.trim())
+    .filter(Boolean);
+}
+
+type BriefOptions = {
+  extraRequirements?: string[];
+  // Inject the concrete policy pack instead of a generic compliance line
+  withPolicy?: boolean;
+  // Inject the referenced brand kit's voice, facts, disclaimers and banned words
+  withBrandKit?: boolean;
+  // Ask for Google asset lists instead of one Meta headline and body
+  assets?: 'search' | 'display';
+  // Ask for carousel cards, a video script or story frames, by format
+  structured?: boolean;
+};
+
+// What a brief needs from its template: brand kit copy, and card, script or
+// frame structure for the formats that have one
+export function generationNeeds(input: Pick<GenerateAdInput, 'adFormat' | 'brandKitId'>): PromptNeeds {
+  return { brandKit: !!input.brandKitId, structured: hasFormatStructure(input.adFormat) };
+}
+
+// Google assets and format structures make for longer output
+export function generationMaxTokens(input: Pick<GenerateAdInput, 'adFormat' | 'differentiate'>): number {
+  const long = isGoogleFormat(input.adFormat) || hasFormatStructure(input.adFormat);
+  return (long ? 2000 : 1000) + (input.differentiate ? 500 : 0);
+}
+
+const structureRequirements: Partial<Record<GenerateAdInput['adFormat'], string[]>> = {
+  Carousel: [
+    'Each ad is a carousel of 3-5 cards that tell one story in order; each card has a headline of at most 40 characters, a description of at most 60 and its own visual'
+  ],
+  Video: [
+    'Each ad includes a 15-30 second video script: a hook that lands in the first 3 seconds, then scenes back to back from 0 with start and end times in seconds',
+    'Every scene has a visual, on-screen text of at most 80 characters that works with sound off, and voiceover'
+  ],
+  Story: [
+    'Each ad is a sequence of 2-5 full-screen story frames of at most 15 seconds each, with a visual and at most 80 characters of overlay text',
+    'Open with a hook on the first frame and put the CTA on the last'
+  ]
+};
+
+const structureFields: Partial<Record<GenerateAdInput['adFormat'], string>> = {
+  Carousel: 'cards: [{ headline, description, visual }]',
+  Video: 'script: { hook, durationSeconds, scenes: [{ start, end, visual, onScreenText, voiceover }] }',
+  Story: 'frames: [{ durationSeconds, visual, text }]'
+};
+
+const assetRequirements = {
+  search: [
+    'Each ad is a Responsive Search Ad with 8-15 headlines of at most 30 characters and 2-4 descriptions of at most 90 characters, counting spaces',
+    'Every headline must read well on its own and next to any other; no duplicates',
+    'Pin sparingly: set "pinned" (1-3) only on a headline that must hold a position, such as the brand name, and (1-2) on a description that must always show',
+    'No exclamation marks in headlines, no emoji and no capitals for emphasis'
+  ],
+  display: [
+    'Each ad is a Responsive Display Ad with up to 5 short headlines of at most 30 characters, one long headline of at most 90, up to 5 descriptions of at most 90 and a business name of at most 25, counting spaces',
+    'Every asset must read well next to any other and any image; no duplicates',
+    'No emoji and no capitals for emphasis'
+  ]
+};
+
+const assetFields = {
+  search: 'type, assets: { headlines: [{ text, pinned? }], descriptions: [{ text, pinned? }] }, cta, visual_suggestion',
+  display: 'type, assets: { headlines: [{ text }], longHeadline, descriptions: [{ text }], businessName }, cta, visual_suggestion'
+};
+
+function renderList(items: string[]): string {
+  return items.map(item => `      - ${item}`).join('\n');
+}
+
+function renderBrandKit(kit: BrandKit): string {
+  const sections = [`    Brand kit "${kit.name}":`, `      Voice: ${kit.voice}`];
+  if (kit.productFacts.length) sections.push('      Product facts:', renderList(kit.productFacts));
+  if (kit.sampleCopy.length) sections.push('      Sample copy (match this tone):', renderList(kit.sampleCopy));
+  if (kit.disclaimers.length) sections.push('      Required disclaimers:', renderList(kit.disclaimers));
+  if (kit.bannedWords.length) sections.push(`      Banned words: ${kit.bannedWords.join(', ')}`);
+  return sections.join('\n');
+}
+
+// Builds the prompt from every validated brief field
+function buildBriefMessages(
+  input: GenerateAdPromptInput,
+  { extraRequirements = [], withPolicy = false, withBrandKit = false, assets, structured = false }: BriefOptions = {}
+): LLMMessage[] {
+  const competitors = splitCompetitors(input.competitors);
+  const policy = withPolicy ? policyFor(input.industry, platformForFormat(input.adFormat)) : undefined;
+  const kit = withBrandKit ? input.brandKit : undefined;
+
+  const requirements = [
+    ...(assets ? assetRequirements[assets] : []),
+    ...(structured ? structureRequirements[input.adFormat] ?? [] : []),
+    ...localeRequirements(input.locale),
+    ...extraRequirements,
+    policy
+      ? `Comply with every rule in policy pack ${policy.id} listed below`
+      : `Strict compliance with ${input.industry} advertising policies`,
+    'Include implied social proof',
+    `Use ${input.keyEmotion} psychological triggers`,
+    'Ground every claim in the business description; do not invent features, prices or statistics',
+    'Each variation should have distinct positioning'
+  ];
+
+  if (kit) {
+    requirements.push('Write in the brand kit voice and only state product facts the brand kit or business description supports');
+    if (kit.disclaimers.length) {
+      requirements.push(assets
+        ? 'Include every required disclaimer verbatim in a description, pinned where pinning is available'
+        : 'Include every required disclaimer verbatim in primary_text');
+    }
+    if (kit.bannedWords.length) requirements.push('Never use any banned word, in any form');
+  }
+
+  if (competitors.length && input.differentiate) {
+    requirements.push(
+      'Each variation must counter a specific claim or positioning a listed competitor is known for, ' +
+      'without naming the competitor in the ad copy itself'
+    );
+  } else if (competitors.length) {
+    requirements.push('Position the offer so it stands apart from the listed competitors without naming them');
+  }
+
+  const structure = structured ? structureFields[input.adFormat] : undefined;
+  const baseFields = assets
+    ? assetFields[assets]
+    : `type, headline, primary_text, cta, visual_suggestion${structure ? `, ${structure}` : ''}`;
+  const fields = input.differentiate
+    ? `${baseFields}, counters: { competitor, claim, rationale }`
+    : baseFields;
+  requirements.push(`Output a JSON object {"ads": [...]} where each ad has: ${fields}`);
+
+  if (input.differentiate) {
+    requirements.push(
+      'In counters, "competitor" is the competitor, "claim" is the competitor claim being countered, ' +
+      'and "rationale" explains why this variation wins against it'
+    );
+  }
+
+  const prompt = `
+    As a ${assets ? 'Google Ads' : 'Meta ads'} expert, generate 3 ${input.adFormat} ad variations with these specifications:
+    
+    Industry: ${input.industry}
+    Target: ${input.targetAudience}
+    Goal: ${input.goal}
+    USP: ${input.uniqueSellingPoint ?? 'Not specified'}
+    Business: ${input.contextDescription ?? 'Not specified'}
+    Competitors: ${competitors.length ? competitors.join(', ') : 'Not specified'}
+    Voice: ${input.brandVoice ?? (kit ? 'See brand kit' : 'Not specified')}
+    Emotion: ${input.keyEmotion}
+    CTA: ${input.preferredCTA}
+    Visual: ${input.visualDirection}
+    
+    Requirements:
+${requirements.map((r, i) => `    ${i + 1}. ${r}`).join('\n')}
+${kit ? `\n${renderBrandKit(kit)}\n` : ''}${policy ? `\n    Policy pack ${policy.id}:\n${renderPolicy(policy)}\n` : ''}    `;
+
+  return [
+    { role: 'system', content: SYSTEM_PROMPT },
+    { role: 'user', content: prompt }
+  ];
+}
+
+// The original inline route prompt, kept for rollback and comparison
+function buildLegacyMessages(input: GenerateAdPromptInput): LLMMessage[] {
+  const prompt = `
+    As a Meta ads expert, generate 3 ${input.adFormat} ad variations with these specifications:
+    
+    Industry: ${input.industry}
+    Target: ${input.targetAudience}
+    Goal: ${input.goal}
+    USP: ${input.uniqueSellingPoint ?? 'Not specified'}
+    Voice: ${input.brandVoice ?? 'Not specified'}
+    Emotion: ${input.keyEmotion}
+    CTA: ${input.preferredCTA}
+    Visual: ${input.visualDirection}
+    
+    Requirements:
+    1. Strict compliance with ${input.industry} advertising policies
+    2. Include implied social proof
+    3. Use ${input.keyEmotion} psychological triggers
+    4. Output a JSON object {"ads": [...]} where each ad has: type, headline, primary_text, cta, visual_suggestion
+    5. Each variation should have distinct positioning
+${localeRequirements(input.locale).map((r, i) => `    ${i + 6}. ${r}\n`).join('')}    `;
+
+  return [
+    { role: 'system', content: SYSTEM_PROMPT },
+    { role: 'user', content: prompt }
+  ];
+}
+
+const templates: PromptTemplate<GenerateAdPromptInput>[] = [
+  {
+    tool: 'generate-ad',
+    name: 'default',
+    version: 1,
+    description: 'Original prompt without business context or competitors',
+    build: buildLegacyMessages
+  },
+  {
+    tool: 'generate-ad',
+    name: 'default',
+    version: 2,
+    description: 'Uses every brief field, including competitor differentiation',
+    build: input => buildBriefMessages(input)
+  },
+  {
+    tool: 'generate-ad',
+    name: 'default',
+    version: 3,
+    description: 'Full brief plus industry and platform policy pack rules',
+    build: input => buildBriefMessages(input, { withPolicy: true })
+  },
+  {
+    tool: 'generate-ad',
+    name: 'motion',
+    version: 1,
+    description: 'Video and Story formats: hook-first, sound-off friendly copy',
+    match: { formats: ['Video', 'Story'] },
+    build: input => buildBriefMessages(input, {
+      extraRequirements: [
+        'Open with a hook that lands in the first 3 seconds',
+        'Write copy that works with sound off'
+      ]
+    })
+  },
+  {
+    tool: 'generate-ad',
+    name: 'motion',
+    version: 2,
+    description: 'Video and Story formats with policy pack rules',
+    match: { formats: ['Video', 'Story'] },
+    build: input => buildBriefMessages(input, {
+      withPolicy: true,
+      extraRequirements: [
+        'Open with a hook that lands in the first 3 seconds',
+        'Write copy that works with sound off'
+      ]
+    })
+  },
+  {
+    tool: 'generate-ad',
+    name: 'default',
+    version: 4,
+    description: 'Full brief, policy pack and brand kit voice, facts, disclaimers and banned words',
+    brandKit: true,
+    build: input => buildBriefMessages(input, { withPolicy: true, withBrandKit: true })
+  },
+  {
+    tool: 'generate-ad',
+    name: 'motion',
+    version: 3,
+    description: 'Video and Story formats with policy pack and brand kit',
+    match: { formats: ['Video', 'Story'] },
+    brandKit: true,
+    build: input => buildBriefMessages(input, {
+      withPolicy: true,
+      withBrandKit: true,
+      extraRequirements: [
+        'Open with a hook that lands in the first 3 seconds',
+        'Write copy that works with sound off'
+      ]
+    })
+  },
+  {
+    tool: 'generate-ad',
+    name: 'default',
+    version: 5,
+    description: 'Policy pack and brand kit; Carousel output adds per-card headline, description and visual',
+    structured: true,
+    brandKit: true,
+    build: input => buildBriefMessages(input, { withPolicy: true, withBrandKit: true, structured: true })
+  },
+  {
+    tool: 'generate-ad',
+    name: 'motion',
+    version: 4,
+    description: 'Video scripts with hook and timestamped scenes, or Story frame sequences',
+    match: { formats: ['Video', 'Story'] },
+    structured: true,
+    brandKit: true,
+    build: input => buildBriefMessages(input, {
+      withPolicy: true,
+      withBrandKit: true,
+      structured: true,
+      extraRequirements: ['Write copy that works with sound off']
+    })
+  },
+  {
+    tool: 'generate-ad',
+    name: 'google-search',
+    version: 1,
+    description: 'Responsive Search Ad headlines and descriptions with pinning, policy pack and brand kit',
+    match: { formats: ['Google Search'] },
+    brandKit: true,
+    build: input => buildBriefMessages(input, { withPolicy: true, withBrandKit: true, assets: 'search' })
+  },
+  {
+    tool: 'generate-ad',
+    name: 'google-display',
+    version: 1,
+    description: 'Responsive Display Ad headlines, long headline, descriptions and business name',
+    match: { formats: ['Google Display'] },
+    brandKit: true,
+    build: input => buildBriefMessages(input, { withPolicy: true, withBrandKit: true, assets: 'display' })
+  }
+];
+
+export const generateAdPrompts = createPromptRegistry('generate-ad', templates);
@@ -0,0 +1,144 @@
+// lib/prompts/inspect-ad.ts
+// Inspector prompt templates. Add a new version instead of editing a
+// registered one so cached results stay attributable. Version 1 templates
+// were retired when complianceCheck became structured, since their output
+// no longer validates.
+import type { LLMMessage } from '@/lib/llm';
+import { policyFor, renderPolicy } from '@/lib/policies';
+import type { AdVariation, BrandKit, InspectAdInput } from '@/lib/schemas';
+import { localeReviewNotes } from './locale';
+import { createPromptRegistry, type PromptTemplate } from './registry';
+
+// The route resolves `brandKitId` and passes the kit itself. Refine passes
+// the variation's Google assets, cards, script or frames as `structure`.
+export type InspectAdPromptInput = InspectAdInput & {
+  brandKit?: BrandKit;
+  structure?: Pick<AdVariation, 'assets' | 'cards' | 'script' | 'frames'>;
+};
+
+// Brand kit context for grading voice fit; banned words and disclaimers are
+// checked deterministically by the route, so they are listed for reference only
+function renderBrandKit(kit: BrandKit): string {
+  const lines = [
+    `       Brand kit "${kit.name}":`,
+    `       - Voice: ${kit.voice}`,
+    ...kit.productFacts.map(fact => `       - Fact: ${fact}`),
+    ...kit.disclaimers.map(disclaimer => `       - Required disclaimer: ${disclaimer}`)
+  ];
+  if (kit.bannedWords.length) lines.push(`       - Banned words: ${kit.bannedWords.join(', ')}`);
+  return lines.join('\n');
+}
+
+const SYSTEM_PROMPT = "You are a paid media expert specializing in performance ad analysis.";
+
+function buildAnalysisMessages(
+  input: InspectAdPromptInput,
+  platformNotes: string[] = [],
+  withBrandKit = false
+): LLMMessage[] {
+  const policy = policyFor(input.industry, input.adType);
+  const kit = withBrandKit ? input.brandKit : undefined;
+  const structure = Object.values(input.structure ?? {}).some(Boolean) ? JSON.stringify(input.structure) : undefined;
+  const brandNotes = kit
+    ? [
+        'Brand fit: grade the body down if it drifts from the brand kit voice or states facts the kit does not support',
+        'Suggestions and rewrite must keep required disclaimers and avoid banned words'
+      ]
+    : [];
+  const prompt = `
+    As a senior ${input.adType} ad consultant, analyze this ad with these strict guidelines:
+
+    **Ad Components:**
+    - Headline: ${input.headline}
+    - Body: ${input.body}
+    - CTA: ${input.cta}
+    - Offer: ${input.offerDescription}
+    - Brand: ${input.websiteOrBrand || 'Not specified'}
+    - Industry: ${input.industry}
+    - Platform: ${input.adType}
+${structure ? `    - Structure (JSON): ${structure}\n` : ''}
+    **Evaluation Framework:**
+    1. Grade each component (A-F):
+       - Headline (20%): Attention, clarity, length, emotional hook
+       - Body (40%): Structure, benefit-focused, pain point addressing
+       - CTA (20%): Action clarity, urgency, visibility
+       - Offer (20%): Value proposition, differentiation
+${[...platformNotes, ...brandNotes, ...localeReviewNotes(input.locale)].map(note => `       - ${note}\n`).join('')}${kit ? `\n${renderBrandKit(kit)}\n` : ''}
+    2. Compliance Check against policy pack ${policy.id}:
+${renderPolicy(policy)}
+
+       Report each violated rule in complianceCheck.violations using the ID
+       in brackets. Status is "fail" if any error-severity rule is violated,
+       "warning" if only warnings are, otherwise "pass".
+
+    3. Performance Prediction:
+       - Predicted CTR range (Low/Medium/High)
+       - Conversion likelihood
+       - Attention score (1-10)
+
+    4. Required Output (JSON):
+    {
+      grade: string (A-F),
+      headlineGrade: string (A-F),
+      bodyGrade: string (A-F),
+      ctaGrade: string (A-F),
+      summary: string,
+      suggestions: string[],
+      predictedCTR: string,
+      attentionScore: number (1-10),
+      complianceCheck: {
+        status: "pass" | "warning" | "fail",
+        violations: { ruleId: string, severity: "error" | "warning", excerpt?: string, explanation: string }[],
+        notes?: string
+      },
+      rewrite?: string
+    }`;
+
+  return [
+    { role: 'system', content: SYSTEM_PROMPT },
+    { role: 'user', content: prompt }
+  ];
+}
+
+const templates: PromptTemplate<InspectAdPromptInput>[] = [
+  {
+    tool: 'inspect-ad',
+    name: 'default',
+    version: 2,
+    description: 'General A-F grading with policy-pack compliance and rule IDs',
+    build: input => buildAnalysisMessages(input)
+  },
+  {
+    tool: 'inspect-ad',
+    name: 'google-search',
+    version: 2,
+    description: 'Google Search: judge against RSA headline and description limits',
+    match: { formats: ['google-search'] },
+    build: input => buildAnalysisMessages(input, [
+      'Keyword relevance to the likely search query',
+      'Use of the 30/90 character space without padding'
+    ])
+  },
+  {
+    tool: 'inspect-ad',
+    name: 'default',
+    version: 3,
+    description: 'General grading with policy pack and brand kit fit',
+    brandKit: true,
+    build: input => buildAnalysisMessages(input, [], true)
+  },
+  {
+    tool: 'inspect-ad',
+    name: 'google-search',
+    version: 3,
+    description: 'Google Search RSA limits with brand kit fit',
+    match: { formats: ['google-search'] },
+    brandKit: true,
+    build: input => buildAnalysisMessages(input, [
+      'Keyword relevance to the likely search query',
+      'Use of the 30/90 character space without padding'
+    ], true)
+  }
+];
+
+export const inspectAdPrompts = createPromptRegistry('inspect-ad', templates);
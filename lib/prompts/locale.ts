@@ -0,0 +1,37 @@
+// lib/prompts/locale.ts
+// Locale instructions shared by the templates. The default locale adds
+// nothing, so en-US prompts read exactly as they did before locales existed.
+import { DEFAULT_LOCALE, localeExamples, locales, type Locale } from '@/lib/locales';
+
+export function isLocalized(locale?: Locale): locale is Locale {
+  return !!locale && locale !== DEFAULT_LOCALE;
+}
+
+export function localeName(locale: Locale): string {
+  const { language, region } = locales[locale];
+  return `${language} (${region})`;
+}
+
+// For prompts that write copy
+export function localeRequirements(locale?: Locale): string[] {
+  if (!isLocalized(locale)) return [];
+  const { price, date } = localeExamples(locale);
+  const requirements = [
+    `Write every ad natively in ${localeName(locale)}; do not write in English and translate`,
+    `Use idioms, spelling, punctuation and forms of address a native ${locales[locale].language} copywriter in ${locales[locale].region} would use`,
+    `Format prices like ${price} and dates like ${date}`
+  ];
+  if (locales[locale].doubleWidth) {
+    requirements.push('Character limits count full-width characters as 2');
+  }
+  return requirements;
+}
+
+// For prompts that judge copy
+export function localeReviewNotes(locale?: Locale): string[] {
+  if (!isLocalized(locale)) return [];
+  return [
+    `Language: the ad targets ${localeName(locale)}; judge it as a native speaker would, grade down wording that reads as translated, and check prices and dates use local formatting`,
+    `Write the analysis in English, but write suggested copy and the rewrite in ${locales[locale].language}`
+  ];
+}
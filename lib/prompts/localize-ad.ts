@@ -0,0 +1,58 @@
+// lib/prompts/localize-ad.ts
+// Localization prompt templates: adapt one variation into another locale
+// as a native copywriter would. Add a new version instead of editing a
+// registered one.
+import type { LLMMessage } from '@/lib/llm';
+import type { Locale } from '@/lib/locales';
+import { policyFor, renderPolicy } from '@/lib/policies';
+import { platformForFormat, type LocalizeAdInput } from '@/lib/schemas';
+import { localeName, localeRequirements } from './locale';
+import { createPromptRegistry, type PromptTemplate } from './registry';
+
+export type LocalizeAdPromptInput = LocalizeAdInput & { locale: Locale };
+
+const SYSTEM_PROMPT = "You are a senior transcreation copywriter who adapts ads for local markets.";
+
+function buildLocalizeMessages(input: LocalizeAdPromptInput): LLMMessage[] {
+  const policy = policyFor(input.industry, platformForFormat(input.adFormat));
+  const source = input.sourceLocale ? localeName(input.sourceLocale) : 'its original language';
+
+  const requirements = [
+    ...localeRequirements(input.locale),
+    'Adapt rather than translate: rewrite hooks, idioms and wordplay so they land with a local audience',
+    'Keep the offer, every factual claim and the CTA intent; do not invent features, prices or statistics',
+    'Keep the same JSON fields as the source variation, including any assets, cards, script or frames, and respect the same character limits',
+    'Convert prices to the local currency only when the source gives a local price; otherwise keep the amount and reformat it',
+    'Output a JSON object {"variation": {...}, "notes": string[]} where "notes" lists each cultural or wording adaptation you made'
+  ];
+
+  const prompt = `
+    Adapt this ${input.adFormat} ad from ${source} for ${localeName(input.locale)}.
+
+    **Source Variation (JSON):**
+    ${JSON.stringify(input.variation)}
+
+    **Requirements:**
+${requirements.map((r, i) => `    ${i + 1}. ${r}`).join('\n')}
+
+    Policy pack ${policy.id}:
+${renderPolicy(policy)}
+    `;
+
+  return [
+    { role: 'system', content: SYSTEM_PROMPT },
+    { role: 'user', content: prompt }
+  ];
+}
+
+const templates: PromptTemplate<LocalizeAdPromptInput>[] = [
+  {
+    tool: 'localize-ad',
+    name: 'default',
+    version: 1,
+    description: 'Native transcreation with local formatting under the policy pack',
+    build: buildLocalizeMessages
+  }
+];
+
+export const localizeAdPrompts = createPromptRegistry('localize-ad', templates);
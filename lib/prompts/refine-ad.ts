@@ -0,0 +1,144 @@
+// lib/prompts/refine-ad.ts
+// Refine prompt templates: rewrite one variation using the inspector's
+// feedback. Add a new version instead of editing a registered one.
+import type { LLMMessage } from '@/lib/llm';
+import { policyFor, renderPolicy } from '@/lib/policies';
+import type { AdAnalysis, AdVariation, BrandKit, GenerateAdInput, InspectAdInput } from '@/lib/schemas';
+import { localeRequirements } from './locale';
+import { createPromptRegistry, type PromptTemplate } from './registry';
+
+export type RefineAdPromptInput = Pick<InspectAdInput, 'adType' | 'industry' | 'offerDescription' | 'locale'>
+  & Pick<GenerateAdInput, 'adFormat'> & {
+  variation: AdVariation;
+  suggestions: string[];
+  analysis?: AdAnalysis;
+  targetGrade: string;
+  brandKit?: BrandKit;
+};
+
+const SYSTEM_PROMPT = "You are an expert advertising copywriter who revises ads based on reviewer feedback.";
+
+function renderViolations(analysis?: AdAnalysis): string {
+  const violations = analysis?.complianceCheck.violations ?? [];
+  return violations.length
+    ? `\n    **Compliance Violations To Fix:**\n${violations.map(v => `    - [${v.ruleId}] ${v.explanation}`).join('\n')}\n`
+    : '';
+}
+
+function renderBrandKit(kit?: BrandKit): string {
+  if (!kit) return '';
+  const disclaimers = kit.disclaimers.length ? `; keep disclaimers verbatim: ${kit.disclaimers.join(' | ')}` : '';
+  const banned = kit.bannedWords.length ? `; never use: ${kit.bannedWords.join(', ')}` : '';
+  return `\n    **Brand Kit "${kit.name}":** voice ${kit.voice}${disclaimers}${banned}\n`;
+}
+
+// Version 1: the headline, primary text and CTA only
+function buildRefineMessages(input: RefineAdPromptInput): LLMMessage[] {
+  const { variation, analysis, brandKit: kit } = input;
+  const policy = policyFor(input.industry, input.adType);
+
+  const prompt = `
+    Revise this ${input.adType} ad so a senior reviewer would grade it ${input.targetGrade} or better.
+
+    **Current Ad${analysis ? ` (graded ${analysis.grade})` : ''}:**
+    - Type: ${variation.type}
+    - Headline: ${variation.headline}
+    - Primary text: ${variation.primary_text}
+    - CTA: ${variation.cta}
+    - Offer: ${input.offerDescription}
+    - Industry: ${input.industry}
+
+    **Reviewer Suggestions:**
+${input.suggestions.map(s => `    - ${s}`).join('\n')}
+${renderViolations(analysis)}${renderBrandKit(kit)}
+    **Requirements:**
+    1. Apply every suggestion unless it conflicts with the policy pack below
+    2. Keep the offer and every factual claim; do not invent features, prices or statistics
+    3. Headline at most 120 characters, primary text at most 500, CTA at most 50
+    4. Output a JSON object {"variation": {type, headline, primary_text, cta, visual_suggestion}, "changes": string[]}
+       where "changes" lists each edit you made and which suggestion it addresses
+
+    Policy pack ${policy.id}:
+${renderPolicy(policy)}
+    `;
+
+  return [
+    { role: 'system', content: SYSTEM_PROMPT },
+    { role: 'user', content: prompt }
+  ];
+}
+
+// Limits the rewrite must keep. Google copy lives in the assets, and the
+// headline and primary text are rebuilt from them.
+const assetLimits: Partial<Record<GenerateAdInput['adFormat'], string>> = {
+  "Google Search": 'Rewrite the assets {headlines: [{text, pinned}], descriptions: [{text, pinned}]}: 3-15 unique headlines of at most 30 characters and 2-4 unique descriptions of at most 90; pin headlines to positions 1-3 and descriptions to 1-2, or leave them unpinned',
+  "Google Display": 'Rewrite the assets {headlines: [{text}], longHeadline, descriptions: [{text}], businessName}: 1-5 unique headlines of at most 30 characters, a long headline of at most 90, 1-5 unique descriptions of at most 90 and a business name of at most 25'
+};
+
+const structureLimits: Partial<Record<GenerateAdInput['adFormat'], string>> = {
+  Carousel: 'Keep 2-10 cards that tell one story in order; each card has a headline of at most 40 characters, a description of at most 60 and its own visual',
+  Video: 'Keep the script: a hook, then scenes back to back from 0 that end within durationSeconds (6-60); each scene has a visual, on-screen text of at most 80 characters and voiceover',
+  Story: 'Keep 2-5 frames of at most 15 seconds each, with a visual and at most 80 characters of overlay text'
+};
+
+// Version 2: the whole variation, so Google assets, cards, script and frames
+// survive the rewrite, written in the chain's locale
+function buildStructuredRefineMessages(input: RefineAdPromptInput): LLMMessage[] {
+  const { variation, analysis, brandKit: kit } = input;
+  const policy = policyFor(input.industry, input.adType);
+  const structured = !!(variation.cards || variation.script || variation.frames);
+
+  const requirements = [
+    'Apply every suggestion unless it conflicts with the policy pack below',
+    'Keep the offer and every factual claim; do not invent features, prices or statistics',
+    'Keep the same JSON fields as the current ad, including any assets, cards, script or frames',
+    assetLimits[input.adFormat] ?? 'Headline at most 120 characters, primary text at most 500, CTA at most 50',
+    ...(structured && structureLimits[input.adFormat] ? [structureLimits[input.adFormat]!] : []),
+    ...localeRequirements(input.locale),
+    'Output a JSON object {"variation": {...}, "changes": string[]} where "changes" lists each edit you made and which suggestion it addresses'
+  ];
+
+  const prompt = `
+    Revise this ${input.adFormat} ad for ${input.adType} so a senior reviewer would grade it ${input.targetGrade} or better.
+
+    **Current Ad${analysis ? ` (graded ${analysis.grade})` : ''} (JSON):**
+    ${JSON.stringify(variation)}
+
+    - Offer: ${input.offerDescription}
+    - Industry: ${input.industry}
+
+    **Reviewer Suggestions:**
+${input.suggestions.map(s => `    - ${s}`).join('\n')}
+${renderViolations(analysis)}${renderBrandKit(kit)}
+    **Requirements:**
+${requirements.map((r, i) => `    ${i + 1}. ${r}`).join('\n')}
+
+    Policy pack ${policy.id}:
+${renderPolicy(policy)}
+    `;
+
+  return [
+    { role: 'system', content: SYSTEM_PROMPT },
+    { role: 'user', content: prompt }
+  ];
+}
+
+const templates: PromptTemplate<RefineAdPromptInput>[] = [
+  {
+    tool: 'refine-ad',
+    name: 'default',
+    version: 1,
+    description: 'Applies inspector suggestions and compliance fixes under the policy pack',
+    build: buildRefineMessages
+  },
+  {
+    tool: 'refine-ad',
+    name: 'default',
+    version: 2,
+    description: 'Refines the whole variation, keeping Google assets, format structure and locale',
+    structured: true,
+    build: buildStructuredRefineMessages
+  }
+];
+
+export const refineAdPrompts = createPromptRegistry('refine-ad', templates);
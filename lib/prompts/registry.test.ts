@@ -0,0 +1,80 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { GenerateAdInputSchema, InspectAdInputSchema, type BrandKit } from '@/lib/schemas';
+import { generateAdPrompts, generationNeeds, type GenerateAdPromptInput } from './generate-ad';
+import { inspectAdPrompts } from './inspect-ad';
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+const brief: GenerateAdPromptInput = GenerateAdInputSchema.parse({
+  targetAudience: 'Operations leads at small teams',
+  goal: 'Drive trial sign-ups',
+  uniqueSellingPoint: 'Automates busywork in minutes',
+  contextDescription: 'Workflow automation for small teams',
+  brandVoice: 'Friendly',
+  keyEmotion: 'Trust',
+  adFormat: 'Single Image',
+  industry: 'SaaS',
+  preferredCTA: 'Sign Up',
+  visualDirection: 'Lifestyle'
+});
+
+const resolve = (input: GenerateAdPromptInput) => generateAdPrompts.resolve(
+  input,
+  { format: input.adFormat, industry: input.industry },
+  undefined,
+  generationNeeds(input)
+);
+
+describe('prompt pins', () => {
+  it('apply to requests the pinned version can serve', () => {
+    vi.stubEnv('PROMPT_PINS', 'generate-ad/default@2');
+    expect(resolve(brief).id).toBe('generate-ad/default@2');
+  });
+
+  it('fall back to the latest version for brand kits and structured formats', () => {
+    vi.stubEnv('PROMPT_PINS', 'generate-ad/default@2');
+    expect(resolve({ ...brief, brandKitId: crypto.randomUUID() }).id).toBe('generate-ad/default@5');
+    expect(resolve({ ...brief, adFormat: 'Carousel' }).id).toBe('generate-ad/default@5');
+  });
+
+  it('leave explicitly requested versions as given', () => {
+    const prompt = generateAdPrompts.resolve(brief, { format: 'Carousel', industry: 'SaaS' }, 'generate-ad/default@1');
+    expect(prompt.id).toBe('generate-ad/default@1');
+  });
+});
+
+const kit: BrandKit = {
+  id: crypto.randomUUID(),
+  owner: 'ip:127.0.0.1',
+  name: 'Flowdesk House Style',
+  voice: 'Plain, warm and practical',
+  sampleCopy: [],
+  disclaimers: [],
+  bannedWords: ['revolutionary'],
+  productFacts: [],
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z'
+};
+
+describe('brand kit templates', () => {
+  it('put the kit in the prompt whenever they claim brand kit support', () => {
+    const ad = InspectAdInputSchema.parse({
+      headline: 'Ship faster',
+      body: 'Automate busywork so your team can focus.',
+      cta: 'Learn More',
+      offerDescription: 'Workflow automation',
+      adType: 'google-search',
+      industry: 'SaaS'
+    });
+    const context = { format: ad.adType, industry: ad.industry };
+
+    for (const { id } of inspectAdPrompts.list()) {
+      if (!inspectAdPrompts.supports(id, context)) continue;
+      const { messages } = inspectAdPrompts.resolve({ ...ad, brandKit: kit }, context, id);
+      const mentionsKit = messages.some(m => m.content.includes(kit.name));
+      expect(mentionsKit, id).toBe(inspectAdPrompts.supports(id, context, { brandKit: true }));
+    }
+  });
+});
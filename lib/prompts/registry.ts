@@ -0,0 +1,133 @@
+// lib/prompts/registry.ts
+// Versioned prompt templates keyed by tool, ad format and industry.
+//
+// Every template has a stable ID such as `generate-ad/default@2`. The ID is
+// returned in response `meta.prompt` and folded into cache keys, so results
+// from different prompt versions never mix. Resolution picks the most
+// specific template for the request; the latest version wins unless a
+// version is pinned through PROMPT_PINS (e.g.
+// `generate-ad/default@1,generate-ad/motion@1`), which is how a
+// prompt change is rolled back without a code deploy. A pinned version that
+// can't serve the request (a brand kit, a structured format) is skipped.
+import type { LLMMessage, LLMTool } from '@/lib/llm';
+import { logger } from '@/lib/logger';
+
+export type PromptContext = {
+  format: string;
+  industry: string;
+};
+
+export type PromptTemplate<I> = {
+  tool: LLMTool;
+  name: string;
+  version: number;
+  description: string;
+  match?: {
+    formats?: readonly string[];
+    industries?: readonly string[];
+  };
+  // Asks for the format-specific output structure, so responses are
+  // validated against it (see generatedAdSchemasFor)
+  structured?: boolean;
+  // Follows the referenced brand kit's voice, facts and disclaimers
+  brandKit?: boolean;
+  build(input: I): LLMMessage[];
+};
+
+// What a request needs from a template beyond matching its format
+export type PromptNeeds = {
+  brandKit?: boolean;
+  structured?: boolean;
+};
+
+export type ResolvedPrompt = {
+  id: string;
+  messages: LLMMessage[];
+  structured: boolean;
+};
+
+export function templateId(template: PromptTemplate<unknown>): string {
+  return `${template.tool}/${template.name}@${template.version}`;
+}
+
+function parsePins(): Map<string, number> {
+  const pins = new Map<string, number>();
+  for (const entry of (process.env.PROMPT_PINS ?? '').split(',')) {
+    const [key, version] = entry.trim().split('@');
+    if (key && Number(version)) pins.set(key, Number(version));
+  }
+  return pins;
+}
+
+// Format matches outrank industry matches; unrestricted templates score 0
+function specificity(template: PromptTemplate<unknown>, context: PromptContext): number {
+  const { formats, industries } = template.match ?? {};
+  if (formats && !formats.includes(context.format)) return -1;
+  if (industries && !industries.includes(context.industry)) return -1;
+  return (formats ? 2 : 0) + (industries ? 1 : 0);
+}
+
+function fits(template: PromptTemplate<unknown>, context: PromptContext, needs: PromptNeeds): boolean {
+  if (specificity(template, context) < 0) return false;
+  if (needs.brandKit && !template.brandKit) return false;
+  return !needs.structured || (template.structured ?? false);
+}
+
+export function createPromptRegistry<I>(tool: LLMTool, templates: PromptTemplate<I>[]) {
+  const byId = new Map(templates.map(t => [templateId(t), t]));
+
+  function select(context: PromptContext, requested?: string, needs: PromptNeeds = {}): PromptTemplate<I> {
+    if (requested) {
+      const template = byId.get(requested);
+      if (!template) throw new Error(`Unknown prompt version "${requested}"`);
+      return template;
+    }
+
+    let best: PromptTemplate<I> | undefined;
+    let bestScore = -1;
+    for (const template of templates) {
+      const score = specificity(template, context);
+      if (score > bestScore) {
+        best = template;
+        bestScore = score;
+      }
+    }
+    if (!best) throw new Error(`No ${tool} prompt template matches this request`);
+
+    const name = best.name;
+    const versions = templates.filter(t => t.name === name);
+    const latest = versions.reduce((newest, t) => (t.version > newest.version ? t : newest));
+    const pinned = versions.find(t => t.version === parsePins().get(`${tool}/${name}`));
+    if (pinned && !fits(pinned, context, needs)) {
+      logger.warn('Prompt pin skipped for a request it cannot serve', { prompt: templateId(pinned), needs });
+      return latest;
+    }
+    return pinned ?? latest;
+  }
+
+  return {
+    tool,
+
+    has(id: string): boolean {
+      return byId.has(id);
+    },
+
+    // Whether a pinned template can serve the request, e.g. before an
+    // experiment arm forces it
+    supports(id: string, context: PromptContext, needs: PromptNeeds = {}): boolean {
+      const template = byId.get(id);
+      return !!template && fits(template, context, needs);
+    },
+
+    // `requested` is taken as given (callers check it with `supports`);
+    // `needs` only steers pinned versions
+    resolve(input: I, context: PromptContext, requested?: string, needs?: PromptNeeds): ResolvedPrompt {
+      const template = select(context, requested, needs);
+      return { id: templateId(template), messages: template.build(input), structured: template.structured ?? false };
+    },
+
+    list() {
+      return templates.map(t => ({ id: templateId(t), description: t.description, match: t.match ?? {} }));
+    }
+  };
+}
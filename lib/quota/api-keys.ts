@@ -0,0 +1,77 @@
+// lib/quota/api-keys.ts
+// API keys are shown once at issuance; storage only keeps their SHA-256 hash.
+import { storage } from '@/lib/storage';
+import type { PlanName } from './plans';
+
+export type ApiKeyRecord = {
+  id: string;
+  name: string;
+  plan: PlanName;
+  createdAt: string;
+  revokedAt?: string;
+};
+
+const KEY_PREFIX = 'dfy_';
+
+async function hashKey(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function randomToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export async function issueApiKey(name: string, plan: PlanName): Promise<{ key: string; record: ApiKeyRecord }> {
+  const key = `${KEY_PREFIX}${randomToken()}`;
+  const hash = await hashKey(key);
+  const record: ApiKeyRecord = {
+    id: crypto.randomUUID(),
+    name,
+    plan,
+    createdAt: new Date().toISOString()
+  };
+
+  await Promise.all([
+    storage.set(`apikey:${hash}`, record),
+    storage.set(`apikey-id:${record.id}`, hash),
+    storage.sadd('apikeys', record.id)
+  ]);
+
+  return { key, record };
+}
+
+// Returns null for unknown, malformed or revoked keys
+export async function validateApiKey(key: string): Promise<ApiKeyRecord | null> {
+  if (!key.startsWith(KEY_PREFIX)) return null;
+  const record = await storage.get<ApiKeyRecord>(`apikey:${await hashKey(key)}`);
+  return record && !record.revokedAt ? record : null;
+}
+
+export async function listApiKeys(): Promise<ApiKeyRecord[]> {
+  const ids = await storage.smembers('apikeys');
+  const records = await Promise.all(ids.map(async id => {
+    const hash = await storage.get<string>(`apikey-id:${id}`);
+    return hash ? storage.get<ApiKeyRecord>(`apikey:${hash}`) : null;
+  }));
+  return records.filter((r): r is ApiKeyRecord => !!r);
+}
+
+export async function revokeApiKey(id: string): Promise<ApiKeyRecord | null> {
+  const hash = await storage.get<string>(`apikey-id:${id}`);
+  const record = hash ? await storage.get<ApiKeyRecord>(`apikey:${hash}`) : null;
+  if (!hash || !record) return null;
+
+  const revoked = { ...record, revokedAt: new Date().toISOString() };
+  await storage.set(`apikey:${hash}`, revoked);
+  return revoked;
+}
+
+// Accepts `Authorization: Bearer dfy_...` or `X-API-Key: dfy_...`
+export function apiKeyFromRequest(request: Request): string | null {
+  const header = request.headers.get('x-api-key');
+  if (header) return header.trim();
+  const auth = request.headers.get('authorization');
+  return auth?.startsWith(`Bearer ${KEY_PREFIX}`) ? auth.slice(7).trim() : null;
+}
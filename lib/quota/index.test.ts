@@ -0,0 +1,151 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  consumeQuota,
+  consumeRateLimit,
+  getPlan,
+  identifyCaller,
+  InvalidApiKeyError,
+  issueApiKey,
+  planNames,
+  quotaStatus,
+  quotaTools,
+  rateLimitHeaders,
+  revokeApiKey,
+  withQuota,
+  type Caller
+} from '.';
+
+// Each test meters its own caller so windows never carry over
+const caller = (plan: Caller['plan'] = 'free'): Caller => ({ id: `ip:${crypto.randomUUID()}`, plan, ip: '127.0.0.1' });
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('consumeQuota', () => {
+  it('charges both windows until the daily limit is reached', async () => {
+    const free = caller();
+    const results = [];
+    for (let i = 0; i < 4; i++) results.push(await consumeQuota(free, 'generate-ad'));
+
+    expect(results.map(r => r.allowed)).toEqual([true, true, true, false]);
+    expect(results[2].daily).toMatchObject({ limit: 3, remaining: 0 });
+    expect(results[2].monthly).toMatchObject({ limit: 30, remaining: 27 });
+  });
+
+  it('meters each tool separately', async () => {
+    const free = caller();
+    for (let i = 0; i < 3; i++) await consumeQuota(free, 'generate-ad');
+    expect((await consumeQuota(free, 'inspect-ad')).allowed).toBe(true);
+  });
+
+  it('stops charging the daily window once the monthly one is used up', async () => {
+    vi.stubEnv('PLAN_QUOTAS', JSON.stringify({ free: { 'generate-ad': { daily: 5, monthly: 1 } } }));
+    const free = caller();
+    await consumeQuota(free, 'generate-ad');
+    const denied = await consumeQuota(free, 'generate-ad');
+
+    expect(denied.allowed).toBe(false);
+    expect(denied.monthly.remaining).toBe(0);
+    expect(denied.daily.remaining).toBe(4);
+  });
+
+  it('never limits unlimited plans', async () => {
+    const status = await consumeQuota(caller('internal'), 'generate-ad');
+    expect(status).toMatchObject({ allowed: true, daily: { limit: null }, monthly: { limit: null } });
+  });
+});
+
+describe('quotaStatus', () => {
+  it('reports remaining quota without using any', async () => {
+    const free = caller();
+    await consumeQuota(free, 'refine-ad');
+    await quotaStatus(free, 'refine-ad');
+    expect((await quotaStatus(free, 'refine-ad')).daily.remaining).toBe(2);
+  });
+});
+
+describe('rateLimitHeaders', () => {
+  it('puts the daily window in the standard headers and the monthly one in -Month', () => {
+    const headers = rateLimitHeaders({
+      plan: 'starter',
+      tool: 'generate-ad',
+      daily: { limit: 50, remaining: 49, reset: 86_400_000 },
+      monthly: { limit: 1000, remaining: 999, reset: 2_592_000_000 }
+    });
+    expect(headers).toEqual({
+      'X-RateLimit-Plan': 'starter',
+      'X-RateLimit-Limit': '50',
+      'X-RateLimit-Remaining': '49',
+      'X-RateLimit-Reset': '86400',
+      'X-RateLimit-Limit-Month': '1000',
+      'X-RateLimit-Remaining-Month': '999',
+      'X-RateLimit-Reset-Month': '2592000'
+    });
+  });
+});
+
+describe('identifyCaller', () => {
+  it('meters anonymous callers by IP on the free plan', async () => {
+    const request = new Request('http://localhost/api/quota', { headers: { 'x-forwarded-for': '203.0.113.7, 10.0.0.1' } });
+    expect(await identifyCaller(request)).toMatchObject({ id: 'ip:203.0.113.7', plan: 'free' });
+  });
+
+  it('accepts issued keys and rejects revoked ones', async () => {
+    const { key, record } = await issueApiKey('test', 'pro');
+    const request = () => new Request('http://localhost/api/quota', { headers: { authorization: `Bearer ${key}` } });
+
+    expect(await identifyCaller(request())).toMatchObject({ id: `key:${record.id}`, plan: 'pro', keyId: record.id });
+    await revokeApiKey(record.id);
+    await expect(identifyCaller(request())).rejects.toBeInstanceOf(InvalidApiKeyError);
+  });
+});
+
+describe('withQuota', () => {
+  it('stamps rate limit headers and answers 429 with Retry-After once the quota is used up', async () => {
+    const handler = withQuota('localize-ad', async () => Response.json({ ok: true }));
+    const request = () => new Request('http://localhost/api/localize-ad', { headers: { 'x-forwarded-for': '198.51.100.20' } });
+
+    for (let i = 0; i < 3; i++) {
+      const response = await handler(request());
+      expect(response.status).toBe(200);
+      expect(response.headers.get('X-RateLimit-Remaining')).toBe(String(2 - i));
+    }
+
+    const denied = await handler(request());
+    expect(denied.status).toBe(429);
+    expect(Number(denied.headers.get('Retry-After'))).toBeGreaterThan(0);
+    expect(await denied.json()).toMatchObject({ code: 'QUOTA_EXCEEDED', plan: 'free', retryable: false });
+  });
+
+  it('answers 401 for an unknown key without calling the handler', async () => {
+    const handler = vi.fn(async () => Response.json({ ok: true }));
+    const response = await withQuota('generate-ad', handler)(
+      new Request('http://localhost/api/generate-ad', { headers: { 'x-api-key': 'dfy_unknown' } })
+    );
+    expect(response.status).toBe(401);
+    expect(await response.json()).toMatchObject({ code: 'INVALID_API_KEY' });
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
+
+describe('consumeRateLimit', () => {
+  it('allows the limit per subject within the window', async () => {
+    const subject = crypto.randomUUID();
+    const window = { limit: 2, seconds: 60 };
+    const results = [];
+    for (let i = 0; i < 3; i++) results.push(await consumeRateLimit('test', subject, window));
+
+    expect(results.map(r => r.allowed)).toEqual([true, true, false]);
+    expect(results[2].reset).toBeGreaterThan(Date.now());
+    expect((await consumeRateLimit('test', crypto.randomUUID(), window)).allowed).toBe(true);
+  });
+});
+
+describe('quotaTools', () => {
+  it('lists exactly the tools every plan meters', () => {
+    for (const plan of planNames) {
+      expect(Object.keys(getPlan(plan).quotas).sort()).toEqual([...quotaTools].sort());
+    }
+  });
+});
@@ -0,0 +1,206 @@
+// lib/quota/index.ts
+// Caller identification and per-plan quotas. Callers with an API key are
+// metered per key on their plan; everyone else shares the free plan per IP.
+import { getSessionUser } from '@/lib/auth';
+import { ApiError, errorResponse } from '@/lib/errors';
+import { REQUEST_ID_HEADER, requestContext, type RequestContext } from '@/lib/logger';
+import { storage } from '@/lib/storage';
+import { apiKeyFromRequest, validateApiKey } from './api-keys';
+import { getPlan, type PlanName, type QuotaTool } from './plans';
+
+export { issueApiKey, listApiKeys, revokeApiKey, type ApiKeyRecord } from './api-keys';
+export { getPlan, planNames, quotaTools, type Plan, type PlanName, type QuotaTool, type ToolQuota } from './plans';
+
+export type Caller = {
+  id: string;
+  plan: PlanName;
+  keyId?: string;
+  userId?: string;
+  ip: string;
+};
+
+type Window = 'daily' | 'monthly';
+
+export type WindowStatus = {
+  limit: number | null;
+  remaining: number | null;
+  reset: number | null;
+};
+
+export type QuotaStatus = {
+  plan: PlanName;
+  tool: QuotaTool;
+  daily: WindowStatus;
+  monthly: WindowStatus;
+};
+
+const windowSeconds: Record<Window, number> = {
+  daily: 60 * 60 * 24,
+  monthly: 60 * 60 * 24 * 30
+};
+
+const UNLIMITED: WindowStatus = { limit: null, remaining: null, reset: null };
+
+// Fixed windows counted in storage. Keys match the ones @upstash/ratelimit
+// used (quota:<tool>:<window>:<caller>:<bucket>), so counts carried over.
+function windowCounter(tool: QuotaTool, window: Window, callerId: string) {
+  const duration = windowSeconds[window] * 1000;
+  const bucket = Math.floor(Date.now() / duration);
+  return { key: `quota:${tool}:${window}:${callerId}:${bucket}`, reset: (bucket + 1) * duration };
+}
+
+async function countRequest(key: string, seconds: number): Promise<number> {
+  const used = await storage.incr(key);
+  if (used === 1) await storage.expire(key, seconds);
+  return used;
+}
+
+async function chargeWindow(tool: QuotaTool, window: Window, callerId: string, limit: number) {
+  const { key, reset } = windowCounter(tool, window, callerId);
+  const used = await countRequest(key, windowSeconds[window]);
+  return { success: used <= limit, remaining: Math.max(0, limit - used), reset };
+}
+
+// Short fixed windows for unmetered endpoints (e.g. sign-in email), kept
+// apart from plan quotas: ratelimit:<name>:<subject>:<bucket>
+export async function consumeRateLimit(
+  name: string,
+  subject: string,
+  { limit, seconds }: { limit: number; seconds: number }
+): Promise<{ allowed: boolean; limit: number; remaining: number; reset: number }> {
+  const bucket = Math.floor(Date.now() / (seconds * 1000));
+  const used = await countRequest(`ratelimit:${name}:${subject}:${bucket}`, seconds);
+  return { allowed: used <= limit, limit, remaining: Math.max(0, limit - used), reset: (bucket + 1) * seconds * 1000 };
+}
+
+async function windowRemaining(tool: QuotaTool, window: Window, callerId: string, limit: number) {
+  const { key, reset } = windowCounter(tool, window, callerId);
+  const used = Number(await storage.get<number>(key) ?? 0);
+  return { remaining: Math.max(0, limit - used), reset };
+}
+
+export class InvalidApiKeyError extends ApiError {
+  constructor() {
+    super('INVALID_API_KEY', 'Invalid or revoked API key');
+    this.name = 'InvalidApiKeyError';
+  }
+}
+
+// First hop of X-Forwarded-For, as set by the platform's proxy
+export function callerIp(request: Request): string {
+  return request.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || '127.0.0.1';
+}
+
+// Signed-in users are still metered by key or IP; the session only links
+// results to their history.
+export async function identifyCaller(request: Request): Promise<Caller> {
+  const ip = callerIp(request);
+  const user = await getSessionUser(request).catch(() => null);
+  const userId = user?.id;
+  const key = apiKeyFromRequest(request);
+  if (!key) return { id: `ip:${ip}`, plan: 'free', userId, ip };
+
+  const record = await validateApiKey(key);
+  if (!record) throw new InvalidApiKeyError();
+  return { id: `key:${record.id}`, plan: record.plan, keyId: record.id, userId, ip };
+}
+
+// Consume one request from the monthly then the daily window. The daily
+// window is only charged when the monthly one still has room.
+export async function consumeQuota(caller: Caller, tool: QuotaTool): Promise<QuotaStatus & { allowed: boolean }> {
+  const { quotas } = getPlan(caller.plan);
+  const status: QuotaStatus = { plan: caller.plan, tool, daily: UNLIMITED, monthly: UNLIMITED };
+  let allowed = true;
+
+  for (const window of ['monthly', 'daily'] as Window[]) {
+    const limit = quotas[tool][window];
+    if (limit === null) continue;
+
+    if (!allowed) {
+      const { remaining, reset } = await windowRemaining(tool, window, caller.id, limit);
+      status[window] = { limit, remaining, reset };
+      continue;
+    }
+
+    const { success, remaining, reset } = await chargeWindow(tool, window, caller.id, limit);
+    status[window] = { limit, remaining, reset };
+    allowed = success;
+  }
+
+  return { ...status, allowed };
+}
+
+export async function quotaStatus(caller: Caller, tool: QuotaTool): Promise<QuotaStatus> {
+  const { quotas } = getPlan(caller.plan);
+  const status: QuotaStatus = { plan: caller.plan, tool, daily: UNLIMITED, monthly: UNLIMITED };
+
+  for (const window of ['daily', 'monthly'] as Window[]) {
+    const limit = quotas[tool][window];
+    if (limit === null) continue;
+    const { remaining, reset } = await windowRemaining(tool, window, caller.id, limit);
+    status[window] = { limit, remaining, reset };
+  }
+
+  return status;
+}
+
+// Daily window in the standard headers, monthly in the -Month variants
+export function rateLimitHeaders(status: QuotaStatus): Record<string, string> {
+  const headers: Record<string, string> = { 'X-RateLimit-Plan': status.plan };
+  const set = (suffix: string, window: WindowStatus) => {
+    if (window.limit === null) return;
+    headers[`X-RateLimit-Limit${suffix}`] = String(window.limit);
+    headers[`X-RateLimit-Remaining${suffix}`] = String(Math.max(0, window.remaining ?? 0));
+    if (window.reset) headers[`X-RateLimit-Reset${suffix}`] = String(Math.ceil(window.reset / 1000));
+  };
+  set('', status.daily);
+  set('-Month', status.monthly);
+  return headers;
+}
+
+function withHeaders(response: Response, headers: Record<string, string>): Response {
+  for (const [name, value] of Object.entries(headers)) response.headers.set(name, value);
+  return response;
+}
+
+// Wraps a metered route: authenticates the caller, charges the tool quota,
+// and stamps X-RateLimit-* headers on whatever the handler returns. The
+// handler gets the request's ID and logger along with the caller; anything
+// it throws becomes an error response.
+export function withQuota(
+  tool: QuotaTool,
+  handler: (request: Request, caller: Caller, context: RequestContext) => Promise<Response>
+) {
+  return async (request: Request): Promise<Response> => {
+    const context = requestContext(request);
+    let headers: Record<string, string> = { [REQUEST_ID_HEADER]: context.requestId };
+
+    try {
+      const caller = await identifyCaller(request);
+      const quota = await consumeQuota(caller, tool).catch(error => {
+        throw new ApiError('SERVICE_UNAVAILABLE', 'Quota check failed', { retryAfter: 5, cause: error });
+      });
+      headers = { ...headers, ...rateLimitHeaders(quota) };
+
+      if (!quota.allowed) {
+        const exhausted = quota.monthly.remaining === 0 && quota.monthly.limit !== null ? quota.monthly : quota.daily;
+        throw new ApiError(
+          'QUOTA_EXCEEDED',
+          caller.keyId ? 'Plan quota reached' : 'Free limit reached! Use an API key for a higher quota.',
+          {
+            retryAfter: exhausted.reset ? Math.ceil((exhausted.reset - Date.now()) / 1000) : undefined,
+            details: {
+              plan: caller.plan,
+              reset: exhausted.reset ? new Date(exhausted.reset).toISOString() : undefined,
+              upgradeUrl: process.env.UPGRADE_URL || undefined
+            }
+          }
+        );
+      }
+
+      return withHeaders(await handler(request, caller, context), headers);
+    } catch (error) {
+      return errorResponse(error, context, headers);
+    }
+  };
+}
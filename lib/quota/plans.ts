@@ -0,0 +1,78 @@
+// lib/quota/plans.ts
+// Plans and their per-tool quotas. Override any value without a deploy via
+// PLAN_QUOTAS, e.g. {"pro":{"generate-ad":{"daily":1000}}}.
+import type { LLMTool } from '@/lib/llm';
+import { logger } from '@/lib/logger';
+
+// Every metered tool: the LLM tools, plus image drafts
+export const quotaTools = [
+  "generate-ad", "inspect-ad", "refine-ad", "localize-ad", "generate-image"
+] as const satisfies readonly (LLMTool | 'generate-image')[];
+export type QuotaTool = typeof quotaTools[number];
+
+export const planNames = ["free", "starter", "pro", "internal"] as const;
+export type PlanName = typeof planNames[number];
+
+// null means unlimited for that window
+export type ToolQuota = {
+  daily: number | null;
+  monthly: number | null;
+};
+
+export type Plan = {
+  name: PlanName;
+  quotas: Record<QuotaTool, ToolQuota>;
+};
+
+const defaults: Record<PlanName, Record<QuotaTool, ToolQuota>> = {
+  // Anonymous callers, metered by IP
+  free: {
+    'generate-ad': { daily: 3, monthly: 30 },
+    'inspect-ad': { daily: 3, monthly: 30 },
+    'refine-ad': { daily: 3, monthly: 30 },
+    'localize-ad': { daily: 3, monthly: 30 },
+    'generate-image': { daily: 3, monthly: 30 }
+  },
+  starter: {
+    'generate-ad': { daily: 50, monthly: 1000 },
+    'inspect-ad': { daily: 100, monthly: 2000 },
+    'refine-ad': { daily: 50, monthly: 1000 },
+    'localize-ad': { daily: 50, monthly: 1000 },
+    'generate-image': { daily: 50, monthly: 1000 }
+  },
+  pro: {
+    'generate-ad': { daily: 500, monthly: 10000 },
+    'inspect-ad': { daily: 1000, monthly: 20000 },
+    'refine-ad': { daily: 500, monthly: 10000 },
+    'localize-ad': { daily: 500, monthly: 10000 },
+    'generate-image': { daily: 200, monthly: 4000 }
+  },
+  internal: {
+    'generate-ad': { daily: null, monthly: null },
+    'inspect-ad': { daily: null, monthly: null },
+    'refine-ad': { daily: null, monthly: null },
+    'localize-ad': { daily: null, monthly: null },
+    'generate-image': { daily: null, monthly: null }
+  }
+};
+
+function overrides(): Partial<Record<PlanName, Partial<Record<QuotaTool, Partial<ToolQuota>>>>> {
+  try {
+    return process.env.PLAN_QUOTAS ? JSON.parse(process.env.PLAN_QUOTAS) : {};
+  } catch {
+    logger.warn('Ignoring invalid PLAN_QUOTAS');
+    return {};
+  }
+}
+
+export function getPlan(name: PlanName): Plan {
+  const custom = overrides()[name] ?? {};
+  const quotas = Object.fromEntries(
+    Object.entries(defaults[name]).map(([tool, quota]) => [
+      tool,
+      { ...quota, ...custom[tool as QuotaTool] }
+    ])
+  ) as Record<QuotaTool, ToolQuota>;
+
+  return { name, quotas };
+}
@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest';
+import { createJob } from '@/lib/jobs';
+import { createFixtureProvider } from '@/lib/llm/fixture';
+import { MalformedOutputError, type LLMProvider } from '@/lib/llm';
+import {
+  generatedAdSchemasFor,
+  InspectAdInputSchema,
+  platformForFormat,
+  refineInspectAdInput,
+  type AdVariation
+} from '@/lib/schemas';
+import { newRefineChain, refineIteration } from '.';
+
+// A full Responsive Search Ad: 15 headlines and 4 descriptions, joined into
+// a headline far longer than a single Meta headline
+const headlines = Array.from({ length: 15 }, (_, i) => ({ text: `Automate Busywork Option ${String(i + 1).padStart(2, '0')}` }));
+const descriptions = Array.from({ length: 4 }, (_, i) => ({ text: `Teams save five hours every week with automated workflows, plan ${i + 1}.` }));
+
+function generatedSearchAd(): AdVariation {
+  const { item } = generatedAdSchemasFor({ adFormat: 'Google Search', differentiate: false });
+  return item.parse({ type: 'Benefit-led', headline: '', primary_text: '', cta: 'Learn More', assets: { headlines, descriptions } });
+}
+
+const adType = platformForFormat('Google Search');
+const inspectFields = (ad: AdVariation) => ({
+  headline: ad.headline,
+  body: ad.primary_text,
+  cta: ad.cta,
+  offerDescription: 'Workflow automation for small teams',
+  adType,
+  industry: 'SaaS'
+});
+
+describe('generated Google Search variations', () => {
+  it('join their assets into a headline over the single-headline limit', () => {
+    expect(generatedSearchAd().headline.length).toBeGreaterThan(400);
+  });
+
+  it('pass inspector validation, which still caps Meta headlines', () => {
+    const schema = InspectAdInputSchema.superRefine(refineInspectAdInput);
+    const fields = inspectFields(generatedSearchAd());
+
+    expect(schema.safeParse(fields).success).toBe(true);
+    const meta = schema.safeParse({ ...fields, adType: 'facebook' });
+    expect(meta.success).toBe(false);
+    expect(meta.error?.issues[0].path).toEqual(['headline']);
+  });
+
+  it('are accepted as bulk audit rows', () => {
+    const caller = { id: 'ip:127.0.0.1', plan: 'free' as const, ip: '127.0.0.1' };
+    const job = createJob('inspect-ad', caller, [{ ...inspectFields(generatedSearchAd()), platform: 'Google Search' }]);
+    expect(job.rows[0]).toMatchObject({ status: 'queued' });
+  });
+
+  it('can be refined, keeping the assets and rebuilding the joined headline', async () => {
+    const ad = generatedSearchAd();
+    // The refine step returns the RSA with one headline asset reworded
+    const provider = refineStub(() => ({
+      ...ad,
+      assets: { ...ad.assets!, headlines: [{ text: 'Automate Busywork Today' }, ...ad.assets!.headlines.slice(1)] }
+    }));
+
+    const chain = newRefineChain('ip:127.0.0.1', {
+      adType,
+      adFormat: 'Google Search',
+      industry: 'SaaS',
+      offerDescription: 'Workflow automation for small teams'
+    }, 'A-', { variation: ad, suggestions: ['Add urgency'] });
+    const { iteration } = await refineIteration(chain, { provider, model: 'stub' });
+
+    expect(iteration.variation.assets?.headlines).toHaveLength(15);
+    expect(iteration.variation.headline).toMatch(/^Automate Busywork Today \| /);
+    expect(iteration.analysis?.grade).toBe('B');
+  });
+});
+
+// Returns `rewrite` from the refine step and records the prompts it was sent
+function refineStub(rewrite: () => unknown, prompts: Partial<Record<string, string>> = {}): LLMProvider {
+  const fixture = createFixtureProvider();
+  return {
+    ...fixture,
+    async complete(request) {
+      prompts[request.tool] = request.messages.map(m => m.content).join('\n');
+      if (request.tool !== 'refine-ad') return fixture.complete(request);
+      return { content: JSON.stringify({ variation: rewrite(), changes: ['Led with urgency'] }), provider: 'stub', model: 'stub' };
+    }
+  };
+}
+
+const cards = [
+  { headline: 'Plan in minutes', description: 'Drag tasks into a weekly plan', visual: 'Planner board' },
+  { headline: 'Automate the rest', description: 'Rules move work along for you', visual: 'Automation rule editor' }
+];
+
+const carouselAd: AdVariation = {
+  type: 'Story-led',
+  headline: 'Get Your Evenings Back',
+  primary_text: 'Automate the busywork in two minutes a day.',
+  cta: 'Learn More',
+  cards
+};
+
+const carouselContext = {
+  adType: 'facebook' as const,
+  adFormat: 'Carousel' as const,
+  industry: 'SaaS' as const,
+  offerDescription: 'Workflow automation for small teams'
+};
+
+describe('refining structured and localized variations', () => {
+  it('keeps carousel cards and shows them to the re-inspection', async () => {
+    const prompts: Record<string, string> = {};
+    const provider = refineStub(() => ({ ...carouselAd, headline: 'Get Your Evenings Back Today' }), prompts);
+    const chain = newRefineChain('ip:127.0.0.1', carouselContext, 'A-', { variation: carouselAd, suggestions: ['Add urgency'] });
+
+    const { iteration } = await refineIteration(chain, { provider, model: 'stub' });
+
+    expect(iteration.variation.cards).toEqual(cards);
+    expect(iteration.prompts?.refine).toBe('refine-ad/default@2');
+    expect(prompts['refine-ad']).toContain('Keep 2-10 cards');
+    expect(prompts['inspect-ad']).toContain('Drag tasks into a weekly plan');
+  });
+
+  it('rejects a rewrite that drops the cards', async () => {
+    const provider = refineStub(() => ({ ...carouselAd, cards: undefined }));
+    const chain = newRefineChain('ip:127.0.0.1', carouselContext, 'A-', { variation: carouselAd, suggestions: ['Add urgency'] });
+
+    await expect(refineIteration(chain, { provider, model: 'stub' })).rejects.toBeInstanceOf(MalformedOutputError);
+  });
+
+  it('writes in the chain locale and counts full-width asset characters as 2', async () => {
+    const prompts: Record<string, string> = {};
+    const ad = generatedSearchAd();
+    // 16 full-width characters: 32 wide, over the 30 character headline limit
+    const wide = '業務を自動化して毎週五時間を取り戻す';
+    const provider = refineStub(() => ({
+      ...ad,
+      assets: { ...ad.assets!, headlines: [{ text: wide.slice(0, 16) }, ...ad.assets!.headlines.slice(1)] }
+    }), prompts);
+    const chain = newRefineChain('ip:127.0.0.1', {
+      adType,
+      adFormat: 'Google Search',
+      industry: 'SaaS',
+      locale: 'ja-JP',
+      offerDescription: 'Workflow automation for small teams'
+    }, 'A-', { variation: ad, suggestions: ['Add urgency'] });
+
+    await expect(refineIteration(chain, { provider, model: 'stub' })).rejects.toBeInstanceOf(MalformedOutputError);
+    expect(prompts['refine-ad']).toContain('Write every ad natively in Japanese (Japan)');
+    expect(prompts['refine-ad']).toContain('3-15 unique headlines of at most 30 characters');
+  });
+});
@@ -0,0 +1,135 @@
+// lib/refine/index.ts
+// Iterative refinement: rewrite a variation with the inspector's feedback,
+// re-inspect the result, and repeat until it reaches the target grade. Every
+// iteration is retained on the chain (refine-chain:<id>) so the path from the
+// original copy to the final one can be reviewed.
+import { addUsage, completeStructured, type CompletionUsage, type LLMProvider } from '@/lib/llm';
+import { citesKnownRules, policyFor } from '@/lib/policies';
+import { inspectAdPrompts } from '@/lib/prompts/inspect-ad';
+import { refineAdPrompts } from '@/lib/prompts/refine-ad';
+import {
+  AdAnalysisSchema,
+  formatForAd,
+  isGoogleFormat,
+  meetsGrade,
+  refinedAdSchemaFor,
+  type AdAnalysis,
+  type AdVariation,
+  type BrandKit
+} from '@/lib/schemas';
+import { storage } from '@/lib/storage';
+import type { RefineChain, RefineContext, RefineIteration } from './types';
+
+export type * from './types';
+
+// Refinements per chain, not counting the starting variation
+export const MAX_REFINE_ITERATIONS = 10;
+
+const CHAIN_TTL_SECONDS = 60 * 60 * 24 * 30;
+
+export function newRefineChain(
+  callerId: string,
+  context: RefineContext,
+  targetGrade: string,
+  start: { variation: AdVariation; analysis?: AdAnalysis; suggestions: string[] }
+): RefineChain {
+  const createdAt = new Date().toISOString();
+  return {
+    id: crypto.randomUUID(),
+    callerId,
+    context,
+    targetGrade,
+    iterations: [{ index: 0, ...start, createdAt }],
+    createdAt,
+    updatedAt: createdAt
+  };
+}
+
+// Chains are only visible to the caller that started them. Chains started
+// before the format was recorded take it from their first variation.
+export async function getRefineChain(callerId: string, id: string): Promise<RefineChain | null> {
+  const chain = await storage.get<RefineChain>(`refine-chain:${id}`);
+  if (chain?.callerId !== callerId) return null;
+  chain.context.adFormat ??= formatForAd(chain.context.adType, chain.iterations[0].variation);
+  return chain;
+}
+
+export async function saveRefineChain(chain: RefineChain): Promise<void> {
+  await storage.set(`refine-chain:${chain.id}`, chain, { ex: CHAIN_TTL_SECONDS });
+}
+
+export function latestIteration(chain: RefineChain): RefineIteration {
+  return chain.iterations[chain.iterations.length - 1];
+}
+
+export function reachedTarget(chain: RefineChain): boolean {
+  const grade = latestIteration(chain).analysis?.grade;
+  return !!grade && meetsGrade(grade, chain.targetGrade);
+}
+
+type IterationOptions = {
+  provider: LLMProvider;
+  model: string;
+  brandKit?: BrandKit;
+};
+
+// One refine call plus one inspect call; returns the new iteration without
+// adding it to the chain
+export async function refineIteration(
+  chain: RefineChain,
+  { provider, model, brandKit }: IterationOptions
+): Promise<{ iteration: RefineIteration; usage: CompletionUsage }> {
+  const previous = latestIteration(chain);
+  const { context } = chain;
+  const promptContext = { format: context.adType, industry: context.industry };
+  // Only variations that carry cards, a script or frames must keep them
+  const structured = !!(previous.variation.cards || previous.variation.script || previous.variation.frames);
+  const needs = { structured: structured || isGoogleFormat(context.adFormat) };
+
+  const refinePrompt = refineAdPrompts.resolve({
+    ...context,
+    variation: previous.variation,
+    suggestions: previous.suggestions,
+    analysis: previous.analysis,
+    targetGrade: chain.targetGrade,
+    brandKit
+  }, promptContext, undefined, needs);
+  const refined = await completeStructured(provider, {
+    tool: 'refine-ad',
+    model,
+    messages: refinePrompt.messages,
+    json: true,
+    temperature: 0.5,
+    maxTokens: needs.structured ? 1500 : 800
+  }, refinedAdSchemaFor(context, { structured }));
+  const { variation, changes } = refined.data;
+
+  const inspectPrompt = inspectAdPrompts.resolve({
+    ...context,
+    headline: variation.headline,
+    body: variation.primary_text,
+    cta: variation.cta,
+    structure: { assets: variation.assets, cards: variation.cards, script: variation.script, frames: variation.frames },
+    brandKit
+  }, promptContext);
+  const inspected = await completeStructured(provider, {
+    tool: 'inspect-ad',
+    model,
+    messages: inspectPrompt.messages,
+    temperature: 0.3,
+    maxTokens: 1500
+  }, AdAnalysisSchema.superRefine(citesKnownRules(policyFor(context.industry, context.adType))));
+
+  return {
+    iteration: {
+      index: previous.index + 1,
+      variation,
+      analysis: inspected.data,
+      suggestions: inspected.data.suggestions,
+      changes,
+      prompts: { refine: refinePrompt.id, inspect: inspectPrompt.id },
+      createdAt: new Date().toISOString()
+    },
+    usage: addUsage(refined.usage ?? {}, inspected.usage)
+  };
+}
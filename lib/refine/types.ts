@@ -0,0 +1,31 @@
+// lib/refine/types.ts
+import type { AdAnalysis, AdVariation, GenerateAdInput, InspectAdInput } from '@/lib/schemas';
+
+// Fixed for the life of a chain so every iteration is written and graded the
+// same way
+export type RefineContext = Pick<InspectAdInput, 'adType' | 'industry' | 'offerDescription' | 'brandKitId' | 'locale'>
+  & Pick<GenerateAdInput, 'adFormat'>;
+
+export type RefineIteration = {
+  // 0 is the variation the chain started from
+  index: number;
+  variation: AdVariation;
+  // Inspection of this variation; the starting variation may not have one
+  analysis?: AdAnalysis;
+  // Feedback the next iteration applies
+  suggestions: string[];
+  // What the refine step changed to produce this variation
+  changes?: string[];
+  prompts?: { refine: string; inspect: string };
+  createdAt: string;
+};
+
+export type RefineChain = {
+  id: string;
+  callerId: string;
+  context: RefineContext;
+  targetGrade: string;
+  iterations: RefineIteration[];
+  createdAt: string;
+  updatedAt: string;
+};
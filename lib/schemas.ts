@@ -0,0 +1,560 @@
+// lib/schemas.ts
+// Request and response schemas shared by the API routes and the client UI.
+// Keep this module free of server-only imports so page.tsx can use it.
+import { z } from 'zod';
+import { localeCodes, locales, textWidth, type Locale } from '@/lib/locales';
+
+// Language and region copy is written in; omitted means en-US
+export const LocaleSchema = z.enum(localeCodes);
+
+export const BrandKitInputSchema = z.object({
+  name: z.string().min(1).max(100),
+  voice: z.string().min(10).max(500),
+  sampleCopy: z.array(z.string().min(1).max(500)).max(5).default([]),
+  disclaimers: z.array(z.string().min(1).max(300)).max(5).default([]),
+  bannedWords: z.array(z.string().min(1).max(50)).max(50).default([]),
+  productFacts: z.array(z.string().min(1).max(300)).max(20).default([])
+});
+export type BrandKitInput = z.infer<typeof BrandKitInputSchema>;
+
+export type BrandKit = BrandKitInput & {
+  id: string;
+  owner: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+// With a brand kit, voice, USP and business context may come from the kit
+export const GenerateAdInputSchema = z.object({
+  targetAudience: z.string().min(10).max(100),
+  goal: z.string().min(10).max(100),
+  uniqueSellingPoint: z.string().min(10).max(200).optional(),
+  contextDescription: z.string().min(20).max(500).optional(),
+  brandKitId: z.string().uuid().optional(),
+  brandVoice: z.enum(["Professional", "Friendly", "Witty", "Urgent", "Inspirational"]).optional(),
+  keyEmotion: z.enum(["FOMO", "Trust", "Excitement", "Curiosity", "Anger/Solve Pain"]),
+  competitors: z.string().max(100).optional(),
+  differentiate: z.boolean().optional(),
+  adFormat: z.enum(["Single Image", "Carousel", "Video", "Story", "Google Search", "Google Display"]),
+  industry: z.enum(["General", "Health", "Finance", "E-commerce", "SaaS", "Real Estate", "Other"]),
+  preferredCTA: z.enum(["Shop Now", "Learn More", "Get Offer", "Sign Up", "Book Now", "Claim Discount"]),
+  visualDirection: z.enum(["Lifestyle", "Product Close-Up", "Before/After", "User-Generated", "Infographic"]),
+  locale: LocaleSchema.optional()
+});
+export type GenerateAdInput = z.infer<typeof GenerateAdInputSchema>;
+
+// Competitor differentiation needs someone to differentiate against, and
+// briefs without a brand kit must describe the brand themselves
+export function refineGenerateAdInput<T extends GenerateAdInput>(input: T, ctx: z.RefinementCtx) {
+  if (!input.brandKitId) {
+    for (const field of ['uniqueSellingPoint', 'contextDescription', 'brandVoice'] as const) {
+      if (!input[field]) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [field],
+          message: 'Required unless a brand kit is selected'
+        });
+      }
+    }
+  }
+  if (input.differentiate && !input.competitors?.trim()) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['competitors'],
+      message: 'Competitors are required for differentiation mode'
+    });
+  }
+}
+
+export const GradeSchema = z.string().regex(/^[A-F][+-]?$/, 'Grade must be A-F');
+
+// Comparable score for a letter grade: A+ > A > A- > B+ ... > F
+export function gradeScore(grade: string): number {
+  const letter = 'FEDCBA'.indexOf(grade[0]?.toUpperCase() ?? 'F');
+  const modifier = grade[1] === '+' ? 1 : grade[1] === '-' ? -1 : 0;
+  return Math.max(letter, 0) * 3 + modifier;
+}
+
+export function meetsGrade(grade: string, target: string): boolean {
+  return gradeScore(grade) >= gradeScore(target);
+}
+
+// Google headlines can be up to 15 assets joined with " | " (see
+// joinAssets); other platforms get one headline. The width of each asset is
+// left to the linter, which reports it as a finding.
+const HEADLINE_MAX = 120;
+const GOOGLE_HEADLINE_MAX = 500;
+
+export const InspectAdInputSchema = z.object({
+  headline: z.string().min(5).max(GOOGLE_HEADLINE_MAX),
+  body: z.string().min(10).max(500),
+  cta: z.string().min(2).max(50),
+  offerDescription: z.string().min(10).max(500),
+  websiteOrBrand: z.string().max(50).optional(),
+  brandKitId: z.string().uuid().optional(),
+  adType: z.enum(["facebook", "instagram", "google-search", "google-display"]),
+  industry: z.enum(["General", "Health", "Finance", "E-commerce", "SaaS", "Real Estate", "Other"]),
+  locale: LocaleSchema.optional()
+});
+export type InspectAdInput = z.infer<typeof InspectAdInputSchema>;
+
+export function headlineLimit(adType: InspectAdInput['adType']): number {
+  return adType === "google-search" || adType === "google-display" ? GOOGLE_HEADLINE_MAX : HEADLINE_MAX;
+}
+
+function checkHeadline(adType: InspectAdInput['adType'], headline: string, ctx: z.RefinementCtx, path: string[]) {
+  const maximum = headlineLimit(adType);
+  if (headline.length > maximum) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.too_big,
+      type: "string",
+      maximum,
+      inclusive: true,
+      path,
+      message: `Must be at most ${maximum} characters for ${adType} ads`
+    });
+  }
+}
+
+export function refineInspectAdInput<T extends Pick<InspectAdInput, 'adType' | 'headline'>>(input: T, ctx: z.RefinementCtx) {
+  checkHeadline(input.adType, input.headline, ctx, ['headline']);
+}
+
+export const CompetitorCounterSchema = z.object({
+  competitor: z.string().min(1).max(100),
+  claim: z.string().min(1).max(300),
+  rationale: z.string().min(1).max(500)
+});
+export type CompetitorCounter = z.infer<typeof CompetitorCounterSchema>;
+
+// Google ads are made of assets rather than one headline and body. Pinning
+// fixes an asset to a position (headlines 1-3, descriptions 1-2).
+export const AdAssetSchema = z.object({
+  text: z.string().min(1).max(90),
+  pinned: z.number().int().min(1).max(3).optional()
+});
+export type AdAsset = z.infer<typeof AdAssetSchema>;
+
+export const GoogleAssetsSchema = z.object({
+  headlines: z.array(AdAssetSchema).min(1).max(15),
+  descriptions: z.array(AdAssetSchema).min(1).max(5),
+  longHeadline: z.string().min(1).max(90).optional(),
+  businessName: z.string().min(1).max(25).optional()
+});
+export type GoogleAssets = z.infer<typeof GoogleAssetsSchema>;
+
+export const CarouselCardSchema = z.object({
+  headline: z.string().trim().min(1).max(40, "Must be at most 40 characters"),
+  description: z.string().trim().min(1).max(60, "Must be at most 60 characters"),
+  visual: z.string().min(1).max(300)
+});
+export type CarouselCard = z.infer<typeof CarouselCardSchema>;
+
+// Times are seconds from the start of the video
+export const VideoSceneSchema = z.object({
+  start: z.number().min(0),
+  end: z.number().positive(),
+  visual: z.string().min(1).max(300),
+  onScreenText: z.string().trim().max(80, "Must be at most 80 characters").optional(),
+  voiceover: z.string().max(300).optional()
+});
+export type VideoScene = z.infer<typeof VideoSceneSchema>;
+
+// Scenes run back to back from 0 and end within the stated duration
+export const VideoScriptSchema = z.object({
+  hook: z.string().min(1).max(150),
+  durationSeconds: z.number().int().min(6).max(60),
+  scenes: z.array(VideoSceneSchema).min(2).max(10)
+}).superRefine((script, ctx) => {
+  let previousEnd = 0;
+  script.scenes.forEach((scene, index) => {
+    if (scene.start !== previousEnd) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["scenes", index, "start"],
+        message: `Scene must start at ${previousEnd}s, where the previous one ends`
+      });
+    }
+    if (scene.end <= scene.start) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["scenes", index, "end"], message: "Scene must end after it starts" });
+    }
+    previousEnd = scene.end;
+  });
+  if (previousEnd > script.durationSeconds) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["durationSeconds"],
+      message: `Scenes run to ${previousEnd}s, past the ${script.durationSeconds}s duration`
+    });
+  }
+});
+export type VideoScript = z.infer<typeof VideoScriptSchema>;
+
+export const StoryFrameSchema = z.object({
+  durationSeconds: z.number().min(1).max(15),
+  visual: z.string().min(1).max(300),
+  text: z.string().trim().max(80, "Must be at most 80 characters").optional()
+});
+export type StoryFrame = z.infer<typeof StoryFrameSchema>;
+
+// headline allows for up to 15 Google headline assets joined with " | ".
+// cards, script and frames are the Carousel, Video and Story structures.
+export const AdVariationSchema = z.object({
+  type: z.string().min(1).max(60),
+  headline: z.string().min(1).max(500),
+  primary_text: z.string().min(1).max(2000),
+  cta: z.string().min(1).max(50),
+  visual_suggestion: z.string().max(500).optional(),
+  counters: CompetitorCounterSchema.optional(),
+  assets: GoogleAssetsSchema.optional(),
+  cards: z.array(CarouselCardSchema).min(2).max(10).optional(),
+  script: VideoScriptSchema.optional(),
+  frames: z.array(StoryFrameSchema).min(2).max(5).optional()
+});
+export type AdVariation = z.infer<typeof AdVariationSchema>;
+
+export const GeneratedAdsSchema = z.object({
+  ads: z.array(AdVariationSchema).length(3)
+});
+export type GeneratedAds = z.infer<typeof GeneratedAdsSchema>;
+
+const GOOGLE_FORMATS = {
+  "Google Search": "google-search",
+  "Google Display": "google-display"
+} as const;
+
+type GoogleFormat = keyof typeof GOOGLE_FORMATS;
+
+export function isGoogleFormat(format: string): format is GoogleFormat {
+  return format in GOOGLE_FORMATS;
+}
+
+// Inspector platform and policy pack for a generator format; Meta formats
+// use the Facebook rules, which cover both feeds
+export function platformForFormat(format: GenerateAdInput['adFormat']): InspectAdInput['adType'] {
+  return isGoogleFormat(format) ? GOOGLE_FORMATS[format] : "facebook";
+}
+
+// Generator format of an ad that arrives without one: Google platforms have
+// their own formats, and Meta ads are told apart by their structure
+export function formatForAd(
+  adType: InspectAdInput['adType'],
+  ad: Pick<AdVariation, 'cards' | 'script' | 'frames'>
+): GenerateAdInput['adFormat'] {
+  if (adType === "google-search") return "Google Search";
+  if (adType === "google-display") return "Google Display";
+  return ad.cards ? "Carousel" : ad.script ? "Video" : ad.frames ? "Story" : "Single Image";
+}
+
+// Limits count full-width characters as 2 in CJK locales, as Google does
+function widthLimited(limit: number, locale?: Locale) {
+  const note = locale && locales[locale].doubleWidth ? ' (full-width characters count as 2)' : '';
+  return z.string().trim().min(1)
+    .refine(text => textWidth(text, locale) <= limit, `Must be at most ${limit} characters${note}`);
+}
+
+function assetSchema(limit: number, maxPin?: number, locale?: Locale) {
+  const text = widthLimited(limit, locale);
+  return maxPin
+    ? z.object({ text, pinned: z.number().int().min(1).max(maxPin).optional() })
+    : z.object({ text });
+}
+
+function uniqueAssets(field: string) {
+  return (assets: { text: string }[], ctx: z.RefinementCtx) => {
+    const seen = new Set<string>();
+    assets.forEach((asset, index) => {
+      const key = asset.text.toLowerCase();
+      if (seen.has(key)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, "text"], message: `Duplicate ${field}` });
+      }
+      seen.add(key);
+    });
+  };
+}
+
+// Platform limits are enforced here, not left to the prompt
+function googleAssetSchema(format: GoogleFormat, locale?: Locale) {
+  return format === "Google Search"
+    ? z.object({
+        headlines: z.array(assetSchema(30, 3, locale)).min(3).max(15).superRefine(uniqueAssets("headline")),
+        descriptions: z.array(assetSchema(90, 2, locale)).min(2).max(4).superRefine(uniqueAssets("description"))
+      })
+    : z.object({
+        headlines: z.array(assetSchema(30, undefined, locale)).min(1).max(5).superRefine(uniqueAssets("headline")),
+        longHeadline: widthLimited(90, locale),
+        descriptions: z.array(assetSchema(90, undefined, locale)).min(1).max(5).superRefine(uniqueAssets("description")),
+        businessName: widthLimited(25, locale)
+      });
+}
+
+// Google variations also carry their assets joined with " | " as headline and
+// primary_text, the form the linter, brand checks and exporters read
+function joinAssets(value: unknown): unknown {
+  if (!value || typeof value !== "object") return value;
+  const { assets } = value as { assets?: { headlines?: unknown; descriptions?: unknown } };
+  if (!Array.isArray(assets?.headlines) || !Array.isArray(assets?.descriptions)) return value;
+  const join = (list: { text?: unknown }[]) => list.map(asset => asset?.text).join(" | ");
+  return { ...value, headline: join(assets.headlines), primary_text: join(assets.descriptions) };
+}
+
+export type GeneratedAdSchemas = {
+  item: z.ZodType<AdVariation, z.ZodTypeDef, unknown>;
+  list: z.ZodType<GeneratedAds, z.ZodTypeDef, unknown>;
+};
+
+const formatStructures: Partial<Record<GenerateAdInput['adFormat'], z.ZodRawShape>> = {
+  Carousel: { cards: AdVariationSchema.shape.cards.unwrap() },
+  Video: { script: VideoScriptSchema },
+  Story: { frames: AdVariationSchema.shape.frames.unwrap() }
+};
+
+export function hasFormatStructure(format: GenerateAdInput['adFormat']): boolean {
+  return format in formatStructures;
+}
+
+// Differentiation mode: every variation must say which claim it counters.
+// Google formats must return assets. Structured prompts must return the
+// Carousel, Video or Story structure; other Meta output has none of these.
+export function generatedAdSchemasFor(
+  input: Pick<GenerateAdInput, 'differentiate' | 'adFormat' | 'locale'>,
+  { structured = false }: { structured?: boolean } = {}
+): GeneratedAdSchemas {
+  const counters = input.differentiate ? CompetitorCounterSchema : CompetitorCounterSchema.optional();
+  const structure = structured ? formatStructures[input.adFormat] ?? {} : {};
+  const item = isGoogleFormat(input.adFormat)
+    ? z.preprocess(joinAssets, AdVariationSchema.omit({ cards: true, script: true, frames: true })
+      .extend({ assets: googleAssetSchema(input.adFormat, input.locale), counters }))
+    : AdVariationSchema.omit({ assets: true, cards: true, script: true, frames: true }).extend({ counters, ...structure });
+  return { item, list: z.object({ ads: z.array(item).length(3) }) };
+}
+
+// One variation of a format, validated as the generator's would be
+export function variationSchemaFor(
+  format: GenerateAdInput['adFormat'],
+  locale?: Locale,
+  { structured = false }: { structured?: boolean } = {}
+): GeneratedAdSchemas['item'] {
+  return generatedAdSchemasFor({ adFormat: format, locale, differentiate: false }, { structured }).item;
+}
+
+export const AspectRatioSchema = z.enum(["1:1", "4:5", "9:16"]);
+export type AspectRatio = z.infer<typeof AspectRatioSchema>;
+
+// Placement each format's creative is drafted for: feed and carousel cards
+// are square, video runs 4:5 in feed and stories fill the screen
+const FORMAT_ASPECT_RATIOS: Record<GenerateAdInput['adFormat'], AspectRatio> = {
+  "Single Image": "1:1",
+  "Carousel": "1:1",
+  "Video": "4:5",
+  "Story": "9:16",
+  "Google Search": "1:1",
+  "Google Display": "1:1"
+};
+
+export function aspectRatioForFormat(format: GenerateAdInput['adFormat']): AspectRatio {
+  return FORMAT_ASPECT_RATIOS[format];
+}
+
+// The headline is overlaid on placeholder drafts and kept off real renders
+export const GenerateImageInputSchema = z.object({
+  visualSuggestion: z.string().trim().min(5).max(500),
+  headline: z.string().max(500).optional(),
+  visualDirection: GenerateAdInputSchema.shape.visualDirection,
+  adFormat: GenerateAdInputSchema.shape.adFormat.default("Single Image"),
+  aspectRatio: AspectRatioSchema.optional(),
+  count: z.number().int().min(1).max(4).default(1)
+});
+export type GenerateImageInput = z.infer<typeof GenerateImageInputSchema>;
+
+export function refineGenerateImageInput<T extends GenerateImageInput>(input: T, ctx: z.RefinementCtx) {
+  if (input.adFormat === "Google Search") {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['adFormat'],
+      message: 'Google Search ads have no image'
+    });
+  }
+}
+
+export const ExportFormatSchema = z.enum(["meta-csv", "google-ads-csv", "json", "markdown"]);
+export type ExportFormat = z.infer<typeof ExportFormatSchema>;
+
+// Campaign and ad group names and the landing page fill the platform columns
+// that generated copy doesn't cover
+export const ExportAdsInputSchema = z.object({
+  format: ExportFormatSchema,
+  ads: z.array(AdVariationSchema).min(1).max(50),
+  campaignName: z.string().min(1).max(100).default("Generated Ads"),
+  adGroupName: z.string().min(1).max(100).default("Ad Group 1"),
+  finalUrl: z.string().url().optional(),
+  // The copy's locale; Google columns count full-width characters as 2
+  locale: LocaleSchema.optional()
+});
+export type ExportAdsInput = z.infer<typeof ExportAdsInputSchema>;
+
+export const ComplianceViolationSchema = z.object({
+  ruleId: z.string().min(1),
+  severity: z.enum(["error", "warning"]),
+  excerpt: z.string().optional(),
+  explanation: z.string().min(1)
+});
+export type ComplianceViolation = z.infer<typeof ComplianceViolationSchema>;
+
+export const ComplianceCheckSchema = z.object({
+  status: z.enum(["pass", "warning", "fail"]),
+  violations: z.array(ComplianceViolationSchema),
+  notes: z.string().optional()
+});
+export type ComplianceCheck = z.infer<typeof ComplianceCheckSchema>;
+
+export const AdAnalysisSchema = z.object({
+  grade: GradeSchema,
+  headlineGrade: GradeSchema,
+  bodyGrade: GradeSchema,
+  ctaGrade: GradeSchema,
+  summary: z.string().min(1),
+  suggestions: z.array(z.string().min(1)).min(1),
+  predictedCTR: z.string().min(1),
+  attentionScore: z.number().min(1).max(10),
+  complianceCheck: ComplianceCheckSchema,
+  rewrite: z.string().optional()
+});
+export type AdAnalysis = z.infer<typeof AdAnalysisSchema>;
+
+export const CampaignInputSchema = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().max(500).optional()
+});
+export type CampaignInput = z.infer<typeof CampaignInputSchema>;
+
+export type Campaign = CampaignInput & {
+  id: string;
+  owner: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+// Points an inspection at the generated variation it evaluated
+export const CampaignItemSourceSchema = z.object({
+  itemId: z.string().uuid(),
+  adIndex: z.number().int().min(0)
+});
+
+// What can be attached to a campaign: a brief on its own, a generator run
+// (optionally with its brief) or an inspector run
+export const CampaignItemInputSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("brief"),
+    brief: GenerateAdInputSchema
+  }),
+  z.object({
+    type: z.literal("generation"),
+    brief: GenerateAdInputSchema.optional(),
+    ads: z.array(AdVariationSchema).min(1).max(10)
+  }),
+  z.object({
+    type: z.literal("inspection"),
+    input: InspectAdInputSchema.superRefine(refineInspectAdInput),
+    analysis: AdAnalysisSchema,
+    source: CampaignItemSourceSchema.optional()
+  })
+]);
+export type CampaignItemInput = z.infer<typeof CampaignItemInputSchema>;
+
+export type CampaignItem = CampaignItemInput & {
+  id: string;
+  campaignId: string;
+  createdAt: string;
+  meta?: Record<string, unknown>;
+};
+
+// Refined copy keeps its format, assets or structure and locale, and must
+// still fit the inspector's input limits so it can be re-graded
+const INSPECTED_FIELDS = [['headline', 'headline'], ['primary_text', 'body'], ['cta', 'cta']] as const;
+
+export function refinedAdSchemaFor(
+  input: Pick<InspectAdInput, 'adType' | 'locale'> & Pick<GenerateAdInput, 'adFormat'>,
+  options: { structured?: boolean } = {}
+) {
+  return z.object({
+    variation: variationSchemaFor(input.adFormat, input.locale, options),
+    changes: z.array(z.string().min(1)).min(1)
+  }).superRefine(({ variation }, ctx) => {
+    for (const [field, inspected] of INSPECTED_FIELDS) {
+      const result = InspectAdInputSchema.shape[inspected].safeParse(variation[field]);
+      result.error?.issues.forEach(issue => ctx.addIssue({ ...issue, path: ['variation', field] }));
+    }
+    checkHeadline(input.adType, variation.headline, ctx, ['variation', 'headline']);
+  });
+}
+export type RefinedAd = z.infer<ReturnType<typeof refinedAdSchemaFor>>;
+
+// Starts a refine chain from a variation and the inspector's suggestions, or
+// continues an existing chain by ID
+export const RefineAdInputSchema = z.object({
+  chainId: z.string().uuid().optional(),
+  variation: AdVariationSchema.optional(),
+  suggestions: z.array(z.string().min(1).max(500)).min(1).max(10).optional(),
+  analysis: AdAnalysisSchema.optional(),
+  offerDescription: z.string().min(10).max(500).optional(),
+  adType: InspectAdInputSchema.shape.adType.default("facebook"),
+  // Omitted means the format adType and the variation's structure imply
+  adFormat: GenerateAdInputSchema.shape.adFormat.optional(),
+  industry: InspectAdInputSchema.shape.industry.default("General"),
+  locale: LocaleSchema.optional(),
+  brandKitId: z.string().uuid().optional(),
+  targetGrade: GradeSchema.default("A-"),
+  maxIterations: z.number().int().min(1).max(3).default(1)
+});
+export type RefineAdInput = z.infer<typeof RefineAdInputSchema>;
+
+export function refineRefineAdInput<T extends RefineAdInput>(input: T, ctx: z.RefinementCtx) {
+  if (input.chainId) return;
+  if (input.adFormat) {
+    const platform = platformForFormat(input.adFormat);
+    if (platform !== input.adType && !(platform === "facebook" && input.adType === "instagram")) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['adFormat'],
+        message: `${input.adFormat} ads can't be refined as ${input.adType} ads`
+      });
+    }
+  }
+  for (const field of ['variation', 'offerDescription'] as const) {
+    if (!input[field]) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message: 'Required to start a refine chain' });
+    }
+  }
+  if (!input.suggestions && !input.analysis) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['suggestions'],
+      message: 'Suggestions or an analysis are required to start a refine chain'
+    });
+  }
+}
+
+// Adapts one variation into several locales; the output keeps the
+// variation's format, Google assets and format structure
+export const LocalizeAdInputSchema = z.object({
+  variation: AdVariationSchema,
+  locales: z.array(LocaleSchema).min(1).max(5)
+    .refine(list => new Set(list).size === list.length, "Locales must be unique"),
+  sourceLocale: LocaleSchema.optional(),
+  adFormat: GenerateAdInputSchema.shape.adFormat.default("Single Image"),
+  industry: GenerateAdInputSchema.shape.industry.default("General")
+});
+export type LocalizeAdInput = z.infer<typeof LocalizeAdInputSchema>;
+
+export function localizedAdSchemaFor(input: Pick<LocalizeAdInput, 'variation' | 'adFormat'>, locale: Locale) {
+  const { variation } = input;
+  const { item } = generatedAdSchemasFor(
+    { adFormat: input.adFormat, locale, differentiate: !!variation.counters },
+    { structured: !!(variation.cards || variation.script || variation.frames) }
+  );
+  return z.object({
+    variation: item,
+    notes: z.array(z.string().min(1)).max(10)
+  });
+}
@@ -0,0 +1,53 @@
+// lib/sse.ts
+// Minimal Server-Sent Events helpers used by the streaming generator route
+// (encoding) and the client UI (decoding a fetch() response body).
+
+export type SSEEvent = {
+  event: string;
+  data: unknown;
+};
+
+const encoder = new TextEncoder();
+
+export function encodeSSE({ event, data }: SSEEvent): Uint8Array {
+  return encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+export const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  Connection: 'keep-alive'
+};
+
+export function wantsEventStream(request: Request): boolean {
+  return request.headers.get('accept')?.includes('text/event-stream') ?? false;
+}
+
+// Read an SSE response body, calling onEvent for every complete event.
+export async function readSSE(response: Response, onEvent: (event: SSEEvent) => void): Promise<void> {
+  if (!response.body) throw new Error('Response has no body');
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary;
+    while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      let event = 'message';
+      const data: string[] = [];
+      for (const line of block.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+      }
+      if (data.length) onEvent({ event, data: JSON.parse(data.join('\n')) });
+    }
+  }
+}
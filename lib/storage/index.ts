@@ -0,0 +1,70 @@
+// lib/storage/index.ts
+// Backend selection for everything the app persists: STORAGE_BACKEND picks
+// vercel-kv, redis or memory. Unset, Vercel KV is used when its credentials
+// are present and memory otherwise, so local development needs no setup.
+// The redis backend speaks TCP for redis:// and rediss:// URLs and the
+// Upstash REST protocol for http(s):// ones.
+// Routes that touch storage run on the nodejs runtime: edge isolates don't
+// share globals, so each route would otherwise get its own memory store.
+import { Redis } from '@upstash/redis';
+import { kv } from '@vercel/kv';
+import IORedis from 'ioredis';
+import { logger } from '@/lib/logger';
+import { createMemoryStorage } from './memory';
+import { createRedisStorage } from './redis';
+import { createTcpRedisStorage } from './redis-tcp';
+import type { Storage } from './types';
+
+export type * from './types';
+
+export const storageBackends = ["vercel-kv", "redis", "memory"] as const;
+export type StorageBackend = typeof storageBackends[number];
+
+export function storageBackendName(): StorageBackend {
+  const configured = process.env.STORAGE_BACKEND as StorageBackend | undefined;
+  if (configured && storageBackends.includes(configured)) return configured;
+  return process.env.KV_REST_API_URL ? 'vercel-kv' : 'memory';
+}
+
+function buildStorage(backend: StorageBackend): Storage {
+  switch (backend) {
+    case 'vercel-kv':
+      return createRedisStorage(backend, kv);
+    case 'redis':
+      if (!process.env.REDIS_URL) {
+        throw new Error('Redis storage configuration error');
+      }
+      if (/^rediss?:\/\//.test(process.env.REDIS_URL)) {
+        // ioredis reconnects on its own; without a listener each failed
+        // attempt is reported as an unhandled error event
+        const client = new IORedis(process.env.REDIS_URL);
+        client.on('error', error => logger.error('Redis connection error', { error: error.message }));
+        return createTcpRedisStorage(backend, client);
+      }
+      return createRedisStorage(backend, new Redis({
+        url: process.env.REDIS_URL,
+        token: process.env.REDIS_TOKEN ?? ''
+      }));
+    case 'memory':
+      if (process.env.NEXT_RUNTIME === 'edge') {
+        throw new Error('Memory storage is not shared between edge routes; use the nodejs runtime or another backend');
+      }
+      if (process.env.NODE_ENV === 'production') {
+        logger.warn('Using in-memory storage: data is lost on restart and not shared between instances');
+      }
+      return createMemoryStorage();
+  }
+}
+
+// Kept on globalThis so dev-server reloads don't drop the memory backend
+const globalStorage = globalThis as typeof globalThis & { __storage?: Storage };
+
+export function getStorage(): Storage {
+  globalStorage.__storage ??= buildStorage(storageBackendName());
+  return globalStorage.__storage;
+}
+
+// Resolved on first use, so importing a module doesn't require credentials
+export const storage: Storage = new Proxy({} as Storage, {
+  get: (_target, property) => getStorage()[property as keyof Storage]
+});
@@ -0,0 +1,96 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createMemoryStorage } from './memory';
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('memory storage', () => {
+  it('returns copies, so callers never share objects with the store', async () => {
+    const storage = createMemoryStorage();
+    const value = { tags: ['a'] };
+    await storage.set('k', value);
+    value.tags.push('b');
+
+    const read = await storage.get<typeof value>('k');
+    read!.tags.push('c');
+    expect(await storage.get('k')).toEqual({ tags: ['a'] });
+  });
+
+  it('honours nx, expiry and keepTtl', async () => {
+    vi.useFakeTimers();
+    const storage = createMemoryStorage();
+
+    expect(await storage.set('lock', 1, { nx: true, ex: 10 })).toBe('OK');
+    expect(await storage.set('lock', 2, { nx: true })).toBeNull();
+    await storage.set('lock', 3, { keepTtl: true });
+
+    vi.advanceTimersByTime(10_000);
+    expect(await storage.get('lock')).toBeNull();
+    expect(await storage.set('lock', 4, { nx: true })).toBe('OK');
+  });
+
+  it('only deletes or extends a key that still holds the given token', async () => {
+    vi.useFakeTimers();
+    const storage = createMemoryStorage();
+    await storage.set('lease', 'mine', { ex: 10 });
+
+    expect(await storage.expireIfEquals('lease', 'theirs', 60)).toBe(0);
+    expect(await storage.expireIfEquals('lease', 'mine', 60)).toBe(1);
+    vi.advanceTimersByTime(30_000);
+    expect(await storage.delIfEquals('lease', 'theirs')).toBe(0);
+    expect(await storage.get('lease')).toBe('mine');
+    expect(await storage.delIfEquals('lease', 'mine')).toBe(1);
+    expect(await storage.get('lease')).toBeNull();
+  });
+
+  it('counts with incr and hincrby and keeps the expiry', async () => {
+    const storage = createMemoryStorage();
+    await storage.incr('n');
+    await storage.expire('n', 60);
+    expect(await storage.incr('n')).toBe(2);
+
+    await storage.hincrby('h', 'calls', 2);
+    await storage.hincrbyfloat('h', 'cost', 0.5);
+    expect(await storage.hgetall('h')).toEqual({ calls: 2, cost: 0.5 });
+  });
+
+  it('reads list ranges with negative indexes', async () => {
+    const storage = createMemoryStorage();
+    await storage.rpush('l', 1, 2, 3, 4);
+    expect(await storage.lrange('l', 0, -1)).toEqual([1, 2, 3, 4]);
+    expect(await storage.lrange('l', -2, -1)).toEqual([3, 4]);
+  });
+
+  it('adds, lists and removes set members', async () => {
+    const storage = createMemoryStorage();
+    expect(await storage.sadd('s', 'a', 'b', 'a')).toBe(2);
+    expect(await storage.srem('s', 'a', 'z')).toBe(1);
+    expect(await storage.smembers('s')).toEqual(['b']);
+  });
+
+  it('ranges sorted sets by index and by score, forwards and reversed', async () => {
+    const storage = createMemoryStorage();
+    for (const [member, score] of [['a', 1], ['b', 2], ['c', 3], ['d', 4]] as const) {
+      await storage.zadd('z', { score, member });
+    }
+
+    expect(await storage.zrange('z', 0, -1)).toEqual(['a', 'b', 'c', 'd']);
+    expect(await storage.zrange('z', 0, 1, { rev: true })).toEqual(['d', 'c']);
+    expect(await storage.zrange('z', 2, '+inf', { byScore: true })).toEqual(['b', 'c', 'd']);
+    expect(await storage.zrange('z', '(4', '-inf', { byScore: true, rev: true, offset: 0, count: 2 })).toEqual(['c', 'b']);
+    expect(await storage.zrem('z', 'a')).toBe(1);
+    expect(await storage.zrange('z', 0, 0)).toEqual(['b']);
+  });
+
+  it('scans keys by glob and deletes them', async () => {
+    const storage = createMemoryStorage();
+    await storage.set('cache:a:1', 1);
+    await storage.set('cache:b:1', 1);
+    const [cursor, keys] = await storage.scan('0', { match: 'cache:a:*' });
+    expect([cursor, keys]).toEqual(['0', ['cache:a:1']]);
+    expect(await storage.del(...keys, 'missing')).toBe(1);
+    expect(await storage.getdel('cache:b:1')).toBe(1);
+    expect(await storage.get('cache:b:1')).toBeNull();
+  });
+});
@@ -0,0 +1,211 @@
+// lib/storage/memory.ts
+// In-process backend for offline development and tests. Data lives as long
+// as the process and isn't shared between instances; edge isolates don't
+// share it either, so lib/storage refuses it there.
+import type { SetOptions, Storage, ZRangeOptions } from './types';
+
+type Entry = {
+  value: unknown;
+  expiresAt?: number;
+};
+
+// JSON round trip so callers never share objects with the store, matching
+// what a networked backend returns
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+function globToRegExp(glob: string): RegExp {
+  const pattern = glob.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+  return new RegExp(`^${pattern}$`);
+}
+
+// Redis index semantics: negative indexes count from the end, stop inclusive
+function sliceRange<T>(items: T[], start: number, stop: number): T[] {
+  const from = start < 0 ? Math.max(items.length + start, 0) : start;
+  const to = stop < 0 ? items.length + stop : stop;
+  return items.slice(from, to + 1);
+}
+
+function scoreBound(bound: number | string): { value: number; exclusive: boolean } {
+  const text = String(bound);
+  const exclusive = text.startsWith('(');
+  const raw = exclusive ? text.slice(1) : text;
+  const value = raw === '+inf' ? Infinity : raw === '-inf' ? -Infinity : Number(raw);
+  return { value, exclusive };
+}
+
+export function createMemoryStorage(): Storage {
+  const data = new Map<string, Entry>();
+
+  const read = (key: string): Entry | undefined => {
+    const entry = data.get(key);
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      data.delete(key);
+      return undefined;
+    }
+    return entry;
+  };
+
+  // Collections are kept as live structures and only cloned on the way out
+  const collection = <T>(key: string, create: () => T): T => {
+    const entry = read(key);
+    if (entry) return entry.value as T;
+    const value = create();
+    data.set(key, { value });
+    return value;
+  };
+
+  const hash = (key: string) => collection<Record<string, unknown>>(key, () => ({}));
+  const list = (key: string) => collection<unknown[]>(key, () => []);
+  const set = (key: string) => collection<Set<string>>(key, () => new Set());
+  const sortedSet = (key: string) => collection<Map<string, number>>(key, () => new Map());
+
+  const incrementBy = (key: string, field: string, increment: number) => {
+    const fields = hash(key);
+    const next = Number(fields[field] ?? 0) + increment;
+    fields[field] = next;
+    return next;
+  };
+
+  return {
+    name: 'memory',
+
+    async get<T>(key: string) {
+      const entry = read(key);
+      return entry ? clone(entry.value as T) : null;
+    },
+
+    async set<T>(key: string, value: T, options: SetOptions = {}) {
+      const existing = read(key);
+      if (options.nx && existing) return null;
+      const expiresAt = options.ex !== undefined
+        ? Date.now() + options.ex * 1000
+        : options.keepTtl ? existing?.expiresAt : undefined;
+      data.set(key, { value: clone(value), expiresAt });
+      return 'OK';
+    },
+
+    async getdel<T>(key: string) {
+      const entry = read(key);
+      data.delete(key);
+      return entry ? clone(entry.value as T) : null;
+    },
+
+    async del(...keys: string[]) {
+      return keys.filter(key => read(key) && data.delete(key)).length;
+    },
+
+    async expire(key: string, seconds: number) {
+      const entry = read(key);
+      if (!entry) return 0;
+      entry.expiresAt = Date.now() + seconds * 1000;
+      return 1;
+    },
+
+    async delIfEquals(key: string, value: string) {
+      if (read(key)?.value !== value) return 0;
+      data.delete(key);
+      return 1;
+    },
+
+    async expireIfEquals(key: string, value: string, seconds: number) {
+      const entry = read(key);
+      if (entry?.value !== value) return 0;
+      entry.expiresAt = Date.now() + seconds * 1000;
+      return 1;
+    },
+
+    async incr(key: string) {
+      const entry = read(key);
+      const next = Number(entry?.value ?? 0) + 1;
+      data.set(key, { value: next, expiresAt: entry?.expiresAt });
+      return next;
+    },
+
+    // One pass over every key; the cursor is always exhausted
+    async scan(_cursor: string, { match }: { match: string; count?: number }) {
+      const pattern = globToRegExp(match);
+      return ['0', [...data.keys()].filter(key => read(key) && pattern.test(key))] as [string, string[]];
+    },
+
+    async hgetall<T extends Record<string, unknown>>(key: string) {
+      const entry = read(key);
+      return entry ? clone(entry.value as T) : null;
+    },
+
+    async hincrby(key: string, field: string, increment: number) {
+      return incrementBy(key, field, increment);
+    },
+
+    async hincrbyfloat(key: string, field: string, increment: number) {
+      return incrementBy(key, field, increment);
+    },
+
+    async lrange<T>(key: string, start: number, stop: number) {
+      return clone(sliceRange(read(key)?.value as T[] ?? [], start, stop));
+    },
+
+    async rpush<T>(key: string, ...values: T[]) {
+      const items = list(key);
+      items.push(...clone(values));
+      return items.length;
+    },
+
+    async sadd(key: string, ...members: string[]) {
+      const stored = set(key);
+      const before = stored.size;
+      members.forEach(member => stored.add(member));
+      return stored.size - before;
+    },
+
+    async smembers(key: string) {
+      return [...(read(key)?.value as Set<string> | undefined ?? [])];
+    },
+
+    async srem(key: string, ...members: string[]) {
+      const stored = read(key)?.value as Set<string> | undefined;
+      return stored ? members.filter(member => stored.delete(member)).length : 0;
+    },
+
+    async zadd(key: string, { score, member }: { score: number; member: string }) {
+      const scores = sortedSet(key);
+      const added = scores.has(member) ? 0 : 1;
+      scores.set(member, score);
+      return added;
+    },
+
+    async zrange(key: string, start: number | string, stop: number | string, options: ZRangeOptions = {}) {
+      const scores = read(key)?.value as Map<string, number> | undefined;
+      if (!scores) return [];
+
+      const ordered = [...scores.entries()]
+        .sort(([a, x], [b, y]) => x - y || a.localeCompare(b))
+        .map(([member, score]) => ({ member, score }));
+      if (options.rev) ordered.reverse();
+
+      let members: string[];
+      if (options.byScore) {
+        // With rev the first bound is the maximum
+        const [max, min] = options.rev ? [scoreBound(start), scoreBound(stop)] : [scoreBound(stop), scoreBound(start)];
+        members = ordered
+          .filter(({ score }) =>
+            (min.exclusive ? score > min.value : score >= min.value) &&
+            (max.exclusive ? score < max.value : score <= max.value))
+          .map(({ member }) => member);
+      } else {
+        members = sliceRange(ordered.map(({ member }) => member), Number(start), Number(stop));
+      }
+
+      if (options.offset !== undefined && options.count !== undefined) {
+        members = members.slice(options.offset, options.offset + options.count);
+      }
+      return members;
+    },
+
+    async zrem(key: string, ...members: string[]) {
+      const scores = read(key)?.value as Map<string, number> | undefined;
+      return scores ? members.filter(member => scores.delete(member)).length : 0;
+    }
+  };
+}
@@ -0,0 +1,84 @@
+// lib/storage/redis-tcp.ts
+// Plain Redis over TCP (redis:// and rediss:// URLs) through ioredis, for
+// self-hosted Redis without a REST proxy. Only nodejs routes can open the
+// socket. Values are written and read the way @upstash/redis does, so data
+// moves between this and the REST backends unchanged.
+import type { Redis } from 'ioredis';
+import type { Storage } from './types';
+
+const DEL_IF_EQUALS = `if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) end return 0`;
+const EXPIRE_IF_EQUALS = `if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('expire', KEYS[1], ARGV[2]) end return 0`;
+
+// Strings are stored as-is and everything else as JSON
+function serialize(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+// JSON where it parses, except numbers that wouldn't round-trip (e.g. "007")
+function parse<T>(raw: string): T {
+  try {
+    const parsed = JSON.parse(raw);
+    return (typeof parsed === 'number' && String(parsed) !== raw ? raw : parsed) as T;
+  } catch {
+    return raw as T;
+  }
+}
+
+export function createTcpRedisStorage(name: string, client: Redis): Storage {
+  return {
+    name,
+
+    get: async key => {
+      const raw = await client.get(key);
+      return raw === null ? null : parse(raw);
+    },
+    set: async (key, value, options = {}) => {
+      const args: (string | number)[] = [];
+      if (options.ex) args.push('EX', options.ex);
+      if (options.keepTtl) args.push('KEEPTTL');
+      if (options.nx) args.push('NX');
+      return await client.call('SET', key, serialize(value), ...args) as 'OK' | null;
+    },
+    getdel: async key => {
+      const raw = await client.getdel(key);
+      return raw === null ? null : parse(raw);
+    },
+    del: (...keys) => client.del(...keys),
+    expire: (key, seconds) => client.expire(key, seconds),
+    incr: key => client.incr(key),
+    delIfEquals: async (key, value) => Number(await client.eval(DEL_IF_EQUALS, 1, key, value)),
+    expireIfEquals: async (key, value, seconds) =>
+      Number(await client.eval(EXPIRE_IF_EQUALS, 1, key, value, seconds)),
+    scan: (cursor, { match, count }) =>
+      count ? client.scan(cursor, 'MATCH', match, 'COUNT', count) : client.scan(cursor, 'MATCH', match),
+
+    // A missing hash reads back as null, not {}
+    hgetall: async <T extends Record<string, unknown>>(key: string) => {
+      const fields = await client.hgetall(key);
+      const entries = Object.entries(fields);
+      return entries.length ? Object.fromEntries(entries.map(([field, raw]) => [field, parse(raw)])) as T : null;
+    },
+    hincrby: (key, field, increment) => client.hincrby(key, field, increment),
+    hincrbyfloat: async (key, field, increment) => Number(await client.hincrbyfloat(key, field, increment)),
+
+    lrange: async <T>(key: string, start: number, stop: number) =>
+      (await client.lrange(key, start, stop)).map(raw => parse<T>(raw)),
+    rpush: (key, ...values) => client.rpush(key, ...values.map(serialize)),
+
+    sadd: (key, ...members) => client.sadd(key, ...members),
+    smembers: key => client.smembers(key),
+    srem: (key, ...members) => client.srem(key, ...members),
+
+    zadd: (key, { score, member }) => client.zadd(key, score, member),
+    zrange: (key, start, stop, options = {}) => {
+      const args: (string | number)[] = [];
+      if (options.byScore) args.push('BYSCORE');
+      if (options.rev) args.push('REV');
+      if (options.offset !== undefined || options.count !== undefined) {
+        args.push('LIMIT', options.offset ?? 0, options.count ?? -1);
+      }
+      return client.call('ZRANGE', key, start, stop, ...args) as Promise<string[]>;
+    },
+    zrem: (key, ...members) => client.zrem(key, ...members)
+  };
+}
@@ -0,0 +1,48 @@
+// lib/storage/redis.ts
+// Any client speaking the Upstash REST protocol: Vercel KV, Upstash, or a
+// self-hosted Redis behind serverless-redis-http. Plain Redis URLs go to
+// redis-tcp.ts instead.
+import type { Redis } from '@upstash/redis';
+import type { Storage } from './types';
+
+// The client stores strings as-is, so tokens compare directly in Lua
+const DEL_IF_EQUALS = `if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) end return 0`;
+const EXPIRE_IF_EQUALS = `if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('expire', KEYS[1], ARGV[2]) end return 0`;
+
+export function createRedisStorage(name: string, client: Redis): Storage {
+  return {
+    name,
+
+    get: key => client.get(key),
+    // The client types nx and ex as exclusive options, though the command
+    // accepts both
+    set: (key, value, options) => client.set(key, value, options as never) as Promise<'OK' | null>,
+    getdel: key => client.getdel(key),
+    del: (...keys) => client.del(...keys),
+    expire: (key, seconds) => client.expire(key, seconds),
+    incr: key => client.incr(key),
+    delIfEquals: (key, value) => client.eval<string[], number>(DEL_IF_EQUALS, [key], [value]),
+    expireIfEquals: (key, value, seconds) =>
+      client.eval<string[], number>(EXPIRE_IF_EQUALS, [key], [value, String(seconds)]),
+    scan: async (cursor, { match, count }) => {
+      const [next, keys] = await client.scan(cursor, { match, count });
+      return [String(next), keys];
+    },
+
+    hgetall: key => client.hgetall(key),
+    hincrby: (key, field, increment) => client.hincrby(key, field, increment),
+    hincrbyfloat: (key, field, increment) => client.hincrbyfloat(key, field, increment),
+
+    lrange: (key, start, stop) => client.lrange(key, start, stop),
+    rpush: (key, ...values) => client.rpush(key, ...values),
+
+    sadd: (key, ...members) => client.sadd(key, members[0], ...members.slice(1)),
+    smembers: key => client.smembers(key),
+    srem: (key, ...members) => client.srem(key, ...members),
+
+    zadd: (key, entry) => client.zadd(key, entry),
+    zrange: (key, start, stop, options) =>
+      client.zrange<string[]>(key, start as number, stop as number, options as never),
+    zrem: (key, ...members) => client.zrem(key, ...members)
+  };
+}
@@ -0,0 +1,51 @@
+// lib/storage/types.ts
+// The subset of Redis commands the app uses. Values are stored as JSON, the
+// way @vercel/kv and @upstash/redis serialize them.
+
+export type SetOptions = {
+  // Expiry in seconds
+  ex?: number;
+  // Only set when the key doesn't exist; resolves null when it does
+  nx?: boolean;
+  keepTtl?: boolean;
+};
+
+// Index ranges (0, -1) or, with byScore, score bounds where "(" makes a bound
+// exclusive. With rev, start is the upper bound.
+export type ZRangeOptions = {
+  rev?: boolean;
+  byScore?: boolean;
+  offset?: number;
+  count?: number;
+};
+
+export interface Storage {
+  name: string;
+
+  get<T>(key: string): Promise<T | null>;
+  set<T>(key: string, value: T, options?: SetOptions): Promise<'OK' | null>;
+  getdel<T>(key: string): Promise<T | null>;
+  del(...keys: string[]): Promise<number>;
+  expire(key: string, seconds: number): Promise<number>;
+  incr(key: string): Promise<number>;
+  // Compare-and-act on a string value, atomically: locks and leases only
+  // touch the key while it still holds the caller's token. Resolve 1 or 0.
+  delIfEquals(key: string, value: string): Promise<number>;
+  expireIfEquals(key: string, value: string, seconds: number): Promise<number>;
+  scan(cursor: string, options: { match: string; count?: number }): Promise<[string, string[]]>;
+
+  hgetall<T extends Record<string, unknown>>(key: string): Promise<T | null>;
+  hincrby(key: string, field: string, increment: number): Promise<number>;
+  hincrbyfloat(key: string, field: string, increment: number): Promise<number>;
+
+  lrange<T>(key: string, start: number, stop: number): Promise<T[]>;
+  rpush<T>(key: string, ...values: T[]): Promise<number>;
+
+  sadd(key: string, ...members: string[]): Promise<number>;
+  smembers(key: string): Promise<string[]>;
+  srem(key: string, ...members: string[]): Promise<number>;
+
+  zadd(key: string, entry: { score: number; member: string }): Promise<number | null>;
+  zrange(key: string, start: number | string, stop: number | string, options?: ZRangeOptions): Promise<string[]>;
+  zrem(key: string, ...members: string[]): Promise<number>;
+}
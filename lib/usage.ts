@@ -0,0 +1,232 @@
+// lib/usage.ts
+// Usage ledger: every metered call adds its tokens, latency and cache status
+// to per-day counters by tool and model, and to per-caller totals. Reports
+// price the counters with MODEL_PRICES (USD per million tokens, merged over
+// the defaults below), e.g. {"gpt-4o":{"input":2.5,"output":10}}.
+import type { CompletionUsage } from '@/lib/llm';
+import { logger, type RequestContext } from '@/lib/logger';
+import type { Caller, QuotaTool } from '@/lib/quota';
+import { storage } from '@/lib/storage';
+
+export type UsageRecord = {
+  tool: QuotaTool;
+  provider: string;
+  model: string;
+  usage?: CompletionUsage;
+  // Image drafts are priced per image rather than per token
+  images?: number;
+  cache?: 'hit' | 'miss';
+  status: 'ok' | 'error';
+};
+
+export type ModelPrice = {
+  input: number;
+  output: number;
+  perImage?: number;
+};
+
+export type ModelUsage = {
+  tool: QuotaTool;
+  provider: string;
+  model: string;
+  calls: number;
+  errors: number;
+  cacheHits: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  images: number;
+  avgLatencyMs: number;
+  // null when the model has no known price
+  estimatedCost: number | null;
+};
+
+export type CallerUsage = {
+  callerId: string;
+  calls: number;
+  totalTokens: number;
+};
+
+export type DailyUsage = {
+  date: string;
+  models: ModelUsage[];
+  callers: CallerUsage[];
+  totals: { calls: number; totalTokens: number; estimatedCost: number };
+};
+
+const USAGE_TTL = 60 * 60 * 24 * 90; // 90 days of daily reports
+const TOP_CALLERS = 20;
+
+const metrics = [
+  "calls", "errors", "cacheHits", "promptTokens", "completionTokens", "totalTokens", "images", "latencyMs"
+] as const;
+type Metric = typeof metrics[number];
+
+// Matched by longest prefix, so dated snapshots (gpt-4o-2024-08-06) price
+// like their family
+const defaultPrices: Record<string, ModelPrice> = {
+  'gpt-4': { input: 30, output: 60 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'gpt-image-1': { input: 5, output: 40, perImage: 0.042 }
+};
+
+// Backends that run locally cost nothing per call
+const freeProviders = new Set(['fixture', 'local', 'placeholder']);
+
+function prices(): Record<string, ModelPrice> {
+  try {
+    return { ...defaultPrices, ...(process.env.MODEL_PRICES ? JSON.parse(process.env.MODEL_PRICES) : {}) };
+  } catch {
+    logger.warn('Ignoring invalid MODEL_PRICES');
+    return defaultPrices;
+  }
+}
+
+export function priceFor(provider: string, model: string): ModelPrice | null {
+  if (freeProviders.has(provider)) return { input: 0, output: 0, perImage: 0 };
+  const match = Object.keys(prices())
+    .filter(name => model === name || model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? prices()[match] : null;
+}
+
+export function estimateCost(
+  price: ModelPrice | null,
+  usage: Pick<ModelUsage, 'promptTokens' | 'completionTokens' | 'images'>
+): number | null {
+  if (!price) return null;
+  const cost = (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000
+    + usage.images * (price.perImage ?? 0);
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
+
+function day(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+const modelsKey = (date: string) => `usage:${date}`;
+const callersKey = (date: string) => `usage:${date}:callers`;
+
+// Fields are <tool>|<provider>|<model>|<metric> so one hash holds a day
+function field(record: Pick<UsageRecord, 'tool' | 'provider' | 'model'>, metric: Metric) {
+  return `${record.tool}|${record.provider}|${record.model}|${metric}`;
+}
+
+export type UsageContext = Pick<RequestContext, 'log' | 'startedAt'>;
+
+// Latency runs from context.startedAt. Never fails the request it meters;
+// a lost ledger entry only skews reports.
+export async function recordUsage(
+  record: UsageRecord,
+  { caller, context }: { caller: Caller; context: UsageContext }
+): Promise<void> {
+  const date = day(new Date());
+  const tokens = record.usage?.totalTokens ?? 0;
+  const increments: Record<Metric, number> = {
+    calls: 1,
+    errors: record.status === 'error' ? 1 : 0,
+    cacheHits: record.cache === 'hit' ? 1 : 0,
+    promptTokens: record.usage?.promptTokens ?? 0,
+    completionTokens: record.usage?.completionTokens ?? 0,
+    totalTokens: tokens,
+    images: record.images ?? 0,
+    latencyMs: Date.now() - context.startedAt
+  };
+
+  try {
+    await Promise.all([
+      ...metrics
+        .filter(metric => increments[metric] > 0)
+        .map(metric => storage.hincrby(modelsKey(date), field(record, metric), increments[metric])),
+      storage.hincrby(callersKey(date), `${caller.id}|calls`, 1),
+      tokens > 0 && storage.hincrby(callersKey(date), `${caller.id}|totalTokens`, tokens)
+    ]);
+    await Promise.all([storage.expire(modelsKey(date), USAGE_TTL), storage.expire(callersKey(date), USAGE_TTL)]);
+  } catch (error) {
+    context.log.warn('Usage record failed', { error });
+  }
+
+  context.log.info('Usage', {
+    ...record,
+    callerId: caller.id,
+    latencyMs: increments.latencyMs
+  });
+}
+
+// Binds the caller and request so call sites only describe the call
+export function usageMeter(tool: QuotaTool, caller: Caller, context: UsageContext) {
+  return (record: Omit<UsageRecord, 'tool'>) => recordUsage({ ...record, tool }, { caller, context });
+}
+
+function modelUsage(fields: Record<string, unknown>, tool?: QuotaTool): ModelUsage[] {
+  const grouped = new Map<string, Record<Metric, number>>();
+  for (const [name, value] of Object.entries(fields)) {
+    const separator = name.lastIndexOf('|');
+    const group = name.slice(0, separator);
+    const counts = grouped.get(group) ?? Object.fromEntries(metrics.map(m => [m, 0])) as Record<Metric, number>;
+    counts[name.slice(separator + 1) as Metric] = Number(value);
+    grouped.set(group, counts);
+  }
+
+  return [...grouped.entries()]
+    .map(([group, counts]) => {
+      const [groupTool, provider, ...model] = group.split('|');
+      const { latencyMs, ...totals } = counts;
+      return {
+        tool: groupTool as QuotaTool,
+        provider,
+        model: model.join('|'),
+        ...totals,
+        avgLatencyMs: totals.calls ? Math.round(latencyMs / totals.calls) : 0,
+        estimatedCost: estimateCost(priceFor(provider, model.join('|')), totals)
+      };
+    })
+    .filter(usage => !tool || usage.tool === tool)
+    .sort((a, b) => (b.estimatedCost ?? 0) - (a.estimatedCost ?? 0) || b.calls - a.calls);
+}
+
+function callerUsage(fields: Record<string, unknown>): CallerUsage[] {
+  const callers = new Map<string, CallerUsage>();
+  for (const [name, value] of Object.entries(fields)) {
+    const separator = name.lastIndexOf('|');
+    const callerId = name.slice(0, separator);
+    const usage = callers.get(callerId) ?? { callerId, calls: 0, totalTokens: 0 };
+    usage[name.slice(separator + 1) as 'calls' | 'totalTokens'] = Number(value);
+    callers.set(callerId, usage);
+  }
+  return [...callers.values()].sort((a, b) => b.calls - a.calls).slice(0, TOP_CALLERS);
+}
+
+// Newest day first, `from` and `to` inclusive
+export async function usageReport(
+  { from, to, tool }: { from: Date; to: Date; tool?: QuotaTool }
+): Promise<DailyUsage[]> {
+  const dates: string[] = [];
+  for (let date = new Date(to); date >= from; date.setUTCDate(date.getUTCDate() - 1)) {
+    dates.push(day(date));
+  }
+
+  return Promise.all(dates.map(async date => {
+    const [models, callers] = await Promise.all([
+      storage.hgetall(modelsKey(date)),
+      storage.hgetall(callersKey(date))
+    ]);
+    const usage = modelUsage(models ?? {}, tool);
+    return {
+      date,
+      models: usage,
+      // Caller totals span every tool
+      callers: callerUsage(callers ?? {}),
+      totals: {
+        calls: usage.reduce((sum, m) => sum + m.calls, 0),
+        totalTokens: usage.reduce((sum, m) => sum + m.totalTokens, 0),
+        estimatedCost: Math.round(usage.reduce((sum, m) => sum + (m.estimatedCost ?? 0), 0) * 1_000_000) / 1_000_000
+      }
+    };
+  }));
+}
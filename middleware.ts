@@ -0,0 +1,19 @@
+// middleware.ts
+// Gives every API request an ID: forwarded to the route handler in
+// X-Request-Id and echoed on the response so callers can quote it.
+import { NextResponse, type NextRequest } from 'next/server';
+import { newRequestId, REQUEST_ID_HEADER } from '@/lib/logger';
+
+export function middleware(request: NextRequest) {
+  const requestId = newRequestId(request.headers.get(REQUEST_ID_HEADER));
+  const headers = new Headers(request.headers);
+  headers.set(REQUEST_ID_HEADER, requestId);
+
+  const response = NextResponse.next({ request: { headers } });
+  response.headers.set(REQUEST_ID_HEADER, requestId);
+  return response;
+}
+
+export const config = {
+  matcher: '/api/:path*'
+};
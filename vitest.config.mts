@@ -0,0 +1,14 @@
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: { '@': fileURLToPath(new URL('.', import.meta.url)) }
+  },
+  test: {
+    environment: 'node',
+    include: ['lib/**/*.test.ts'],
+    // Tests run on the memory backend and fixture provider, never the network
+    env: { STORAGE_BACKEND: 'memory', LLM_PROVIDER: 'fixture', LOG_LEVEL: 'error' }
+  }
+});